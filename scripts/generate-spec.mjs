@@ -0,0 +1,20 @@
+/**
+ * Write the OpenAPI document and JSON Schemas generated from the domain
+ * schemas to spec/. Commit the result; a test fails when it is out of date.
+ * Run: npm run spec (it rebuilds dist/ first, since this script imports the
+ * compiled modules; running the script directly uses whatever dist/ holds).
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { renderSpecFiles } from "../dist/openapi.js";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+for (const [path, contents] of Object.entries(renderSpecFiles())) {
+  const target = join(root, path);
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, contents);
+  console.log(`wrote ${path}`);
+}
@@ -0,0 +1,126 @@
+/**
+ * OAuth 2.0 client-credentials token request shared by the carrier OAuth
+ * clients. Carriers differ in how credentials are sent (Basic header, form
+ * fields, JSON body); the response handling and error mapping are the same.
+ */
+
+import { z } from "zod";
+import { parseRetryAfterMs, sendRequest, type HttpClient } from "../http-client.js";
+import { CarrierIntegrationError } from "../errors.js";
+import type { TokenResult } from "./token-cache.js";
+import {
+  errorCodeOf,
+  noopInstrumentation,
+  traceSpan,
+  type Instrumentation,
+} from "../instrumentation.js";
+
+/** Runtime validation for OAuth token responses (RFC 6749 §5.1). */
+const OAuthTokenResponseSchema = z.object({
+  access_token: z.string().min(1, "access_token is required"),
+  // UPS sends expires_in as a numeric string ("14399")
+  expires_in: z.coerce.number().int().positive().optional().default(3600),
+  token_type: z.string().optional(),
+});
+
+export interface ClientCredentialsRequest {
+  http: HttpClient;
+  /** Carrier id for metrics and spans, e.g. "ups" */
+  carrierId: string;
+  /** Carrier name used in error messages, e.g. "UPS" */
+  carrierName: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  /** Receives a TokenRefreshEvent and an "oauth.token" span per request */
+  instrumentation?: Instrumentation;
+}
+
+/** POST a client-credentials grant and map every failure to CarrierIntegrationError. */
+export async function requestClientCredentialsToken(
+  options: ClientCredentialsRequest
+): Promise<TokenResult> {
+  const instrumentation = options.instrumentation ?? noopInstrumentation;
+  const { carrierId } = options;
+  return traceSpan(instrumentation, "oauth.token", { "carrier.id": carrierId }, async () => {
+    const startedAt = Date.now();
+    try {
+      const token = await fetchToken(options);
+      instrumentation.recordTokenRefresh({
+        carrierId,
+        outcome: "success",
+        durationMs: Date.now() - startedAt,
+      });
+      return token;
+    } catch (err) {
+      instrumentation.recordTokenRefresh({
+        carrierId,
+        outcome: "error",
+        durationMs: Date.now() - startedAt,
+        errorCode: errorCodeOf(err),
+      });
+      throw err;
+    }
+  });
+}
+
+async function fetchToken(options: ClientCredentialsRequest): Promise<TokenResult> {
+  const { http, carrierName, url } = options;
+
+  const res = await sendRequest<unknown>(
+    http,
+    {
+      method: "POST",
+      url,
+      headers: options.headers,
+      body: options.body,
+      timeoutMs: options.timeoutMs,
+    },
+    `${carrierName} OAuth`
+  );
+
+  if (res.status === 401) {
+    throw new CarrierIntegrationError({
+      code: "AUTH_FAILED",
+      message: `${carrierName} OAuth: invalid client credentials (401)`,
+      statusCode: 401,
+      context: { url },
+    });
+  }
+
+  if (res.status === 429) {
+    throw new CarrierIntegrationError({
+      code: "RATE_LIMITED",
+      message: `${carrierName} OAuth: rate limited (429)`,
+      statusCode: 429,
+      context: { url, retryAfterMs: parseRetryAfterMs(res.headers) },
+    });
+  }
+
+  if (res.status < 200 || res.status >= 300) {
+    throw new CarrierIntegrationError({
+      code: "AUTH_FAILED",
+      message: `${carrierName} OAuth failed: HTTP ${res.status}`,
+      statusCode: res.status,
+      context: { url, body: res.body, retryAfterMs: parseRetryAfterMs(res.headers) },
+    });
+  }
+
+  const parsed = OAuthTokenResponseSchema.safeParse(res.body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `${carrierName} OAuth: invalid response — ${message}`,
+      statusCode: res.status,
+      context: { body: res.body, issues: parsed.error.flatten() },
+    });
+  }
+
+  const { access_token, expires_in } = parsed.data;
+  return {
+    accessToken: access_token,
+    expiresInSeconds: expires_in,
+  };
+}
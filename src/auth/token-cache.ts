@@ -0,0 +1,86 @@
+/**
+ * Access-token cache shared by the carrier OAuth clients. Holds one token per
+ * key in a TokenStore and refreshes it when it is within the refresh buffer
+ * of expiry. Concurrent callers share a single in-flight token request.
+ */
+
+import { InMemoryTokenStore, type StoredToken, type TokenStore } from "./token-store.js";
+
+export interface TokenResult {
+  accessToken: string;
+  expiresInSeconds: number;
+}
+
+export interface TokenCacheOptions {
+  refreshBufferSeconds: number;
+  /** Store key; include the carrier and client id so credentials never share a token */
+  key: string;
+  /** Defaults to a process-local InMemoryTokenStore */
+  store?: TokenStore;
+}
+
+export class TokenCache {
+  private readonly refreshBufferMs: number;
+  private readonly key: string;
+  private readonly store: TokenStore;
+  private inFlight: Promise<string> | null = null;
+
+  constructor(options: TokenCacheOptions) {
+    this.refreshBufferMs = options.refreshBufferSeconds * 1000;
+    this.key = options.key;
+    this.store = options.store ?? new InMemoryTokenStore();
+  }
+
+  /**
+   * Returns the stored token if it is still fresh, otherwise calls
+   * requestToken() and stores the result. While a request is in flight, other
+   * callers wait for it instead of requesting their own token.
+   */
+  async getToken(requestToken: () => Promise<TokenResult>): Promise<string> {
+    if (!this.inFlight) {
+      const pending = this.loadOrRequest(requestToken).finally(() => {
+        // clear() may have replaced it with a newer request meanwhile.
+        if (this.inFlight === pending) this.inFlight = null;
+      });
+      this.inFlight = pending;
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Drop the stored token so the next getToken() requests a new one. A lookup
+   * already in flight may still return the old token, so it is not shared.
+   * With `rejectedToken`, only that token is dropped: when the store no longer
+   * holds it, another caller already replaced it and nothing is cleared.
+   */
+  async clear(rejectedToken?: string): Promise<void> {
+    if (rejectedToken !== undefined) {
+      const stored = await this.store.get(this.key);
+      if (stored?.accessToken !== rejectedToken) return;
+    }
+    this.inFlight = null;
+    await this.store.delete(this.key);
+  }
+
+  private async loadOrRequest(requestToken: () => Promise<TokenResult>): Promise<string> {
+    const stored = await this.store.get(this.key);
+    if (isFresh(stored, this.refreshBufferMs)) return stored.accessToken;
+
+    const requestedAt = Date.now();
+    const result = await requestToken();
+    await this.store.set(this.key, {
+      accessToken: result.accessToken,
+      expiresAtMs: requestedAt + result.expiresInSeconds * 1000,
+    });
+    return result.accessToken;
+  }
+}
+
+/** Stores may hold anything (another version, a hand-edited file); only trust well-formed tokens. */
+function isFresh(token: StoredToken | undefined, refreshBufferMs: number): token is StoredToken {
+  return (
+    typeof token?.accessToken === "string" &&
+    typeof token.expiresAtMs === "number" &&
+    token.expiresAtMs - refreshBufferMs > Date.now()
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Where access tokens live between requests. TokenCache reads and writes
+ * through a TokenStore, so a shared store (a file, Redis) lets several
+ * processes reuse one token and keeps it across restarts.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface StoredToken {
+  accessToken: string;
+  /** Epoch milliseconds at which the carrier stops accepting the token */
+  expiresAtMs: number;
+}
+
+/**
+ * Async key/value store for tokens. Keys are per carrier and client id (see
+ * TokenCache). A Redis adapter maps this onto GET / SET with PXAT
+ * expiresAtMs / DEL, storing the token as JSON.
+ */
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | undefined>;
+  set(key: string, token: StoredToken): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Process-local store; the default when no store is configured. */
+export class InMemoryTokenStore implements TokenStore {
+  private readonly tokens = new Map<string, StoredToken>();
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    return this.tokens.get(key);
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    this.tokens.set(key, token);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+/**
+ * Stores tokens as JSON in one file, shared by every process that points at
+ * it. Writes go to a temp file and are renamed into place so readers never
+ * see a partial file; the file is created owner-only since it holds bearer
+ * tokens. Concurrent writers are last-write-wins, which is fine: any token
+ * the carrier issued stays valid until it expires.
+ */
+export class FileTokenStore implements TokenStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    const tokens = await this.readAll();
+    return tokens[key];
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    const tokens = await this.readAll();
+    tokens[key] = token;
+    await this.writeAll(tokens);
+  }
+
+  async delete(key: string): Promise<void> {
+    const tokens = await this.readAll();
+    if (!(key in tokens)) return;
+    delete tokens[key];
+    await this.writeAll(tokens);
+  }
+
+  /** A missing or unreadable file is an empty store; the next write replaces it. */
+  private async readAll(): Promise<Record<string, StoredToken>> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw err;
+    }
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return parsed && typeof parsed === "object" ? (parsed as Record<string, StoredToken>) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeAll(tokens: Record<string, StoredToken>): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(tokens), { mode: 0o600 });
+    await rename(tmp, this.path);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * USPS OAuth 2.0 client-credentials flow: token acquisition, caching, and refresh.
+ * Callers use getValidToken() and never deal with raw tokens or expiry.
+ */
+
+import type { HttpClient } from "../http-client.js";
+import type { UspsConfig } from "../config.js";
+import { TokenCache, type TokenResult } from "./token-cache.js";
+import { requestClientCredentialsToken } from "./client-credentials.js";
+import type { TokenStore } from "./token-store.js";
+import type { Instrumentation } from "../instrumentation.js";
+
+/**
+ * USPS OAuth client. USPS APIs v3 take the client credentials as a JSON body.
+ */
+export class UspsOAuthClient {
+  private readonly config: UspsConfig;
+  private readonly http: HttpClient;
+  private readonly cache: TokenCache;
+  private readonly instrumentation: Instrumentation | undefined;
+
+  /**
+   * Pass a shared tokenStore to reuse tokens across processes and restarts,
+   * and instrumentation to count and trace token requests.
+   */
+  constructor(
+    config: UspsConfig,
+    http: HttpClient,
+    tokenStore?: TokenStore,
+    instrumentation?: Instrumentation
+  ) {
+    this.config = config;
+    this.http = http;
+    this.instrumentation = instrumentation;
+    this.cache = new TokenCache({
+      refreshBufferSeconds: config.oauthRefreshBufferSeconds,
+      key: `usps:${config.clientId}`,
+      store: tokenStore,
+    });
+  }
+
+  /**
+   * Returns a valid access token, acquiring or refreshing as needed.
+   * Callers should use this before any USPS API call.
+   */
+  async getValidToken(): Promise<string> {
+    return this.cache.getToken(() => this.requestToken());
+  }
+
+  /**
+   * Force clear cache (e.g. after 401 to retry with fresh token). With
+   * `rejectedToken`, clears only while that token is still the cached one.
+   */
+  async clearCache(rejectedToken?: string): Promise<void> {
+    await this.cache.clear(rejectedToken);
+  }
+
+  private async requestToken(): Promise<TokenResult> {
+    return requestClientCredentialsToken({
+      http: this.http,
+      carrierId: "usps",
+      carrierName: "USPS",
+      url: this.config.oauthTokenUrl,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        grant_type: "client_credentials",
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }),
+      timeoutMs: this.config.oauthTimeoutMs,
+      instrumentation: this.instrumentation,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the `carrier-integration` command. Loads .env and
+ * exits with the code returned by runCli().
+ */
+
+import "dotenv/config";
+import { runCli } from "../cli.js";
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+});
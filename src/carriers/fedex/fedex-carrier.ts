@@ -0,0 +1,86 @@
+/**
+ * FedEx carrier integration: implements "rate" operation.
+ * Same shape as UpsCarrier: one client per operation, auth handled internally.
+ */
+
+import type { CarrierIntegration, CarrierOperation } from "../types.js";
+import type { OperationInput, OperationResult } from "../types.js";
+import { isRateInput } from "../types.js";
+import { FedexRateClient } from "./fedex-rate.js";
+import { FedexOAuthClient } from "../../auth/fedex-oauth.js";
+import type { TokenStore } from "../../auth/token-store.js";
+import type { Instrumentation } from "../../instrumentation.js";
+import { FEDEX_PACKAGE_RULES } from "../../package-math.js";
+import type { FedexConfig } from "../../config.js";
+import type { HttpClient } from "../../http-client.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import {
+  resolveRetryPolicy,
+  withOperationRetry,
+  type RetryPolicy,
+} from "../../retry.js";
+
+const SUPPORTED_OPERATIONS = ["rate"] as const;
+
+export interface FedexCarrierOptions {
+  config: FedexConfig;
+  http: HttpClient;
+  /**
+   * Retry transient failures (429, 5xx, network errors, timeouts). Omit to
+   * never retry; pass {} for DEFAULT_RETRY_POLICY.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Where OAuth tokens are kept. Defaults to process memory; use a shared
+   * store (e.g. FileTokenStore) so workers reuse one token.
+   */
+  tokenStore?: TokenStore;
+  /** Counts and traces OAuth token requests; pass the service's instrumentation */
+  instrumentation?: Instrumentation;
+}
+
+/**
+ * FedEx carrier: rate shopping via Rate API. Auth is handled internally
+ * via OAuth client; callers just call execute({ operation: "rate", input }).
+ */
+export class FedexCarrier implements CarrierIntegration {
+  readonly carrierId = "fedex";
+  readonly supportedOperations: readonly CarrierOperation[] = SUPPORTED_OPERATIONS;
+  readonly packageRules = FEDEX_PACKAGE_RULES;
+
+  private readonly rateClient: FedexRateClient;
+  private readonly retryPolicy: RetryPolicy | undefined;
+  private readonly oauth: FedexOAuthClient;
+
+  constructor(options: FedexCarrierOptions) {
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.oauth = new FedexOAuthClient(
+      options.config,
+      options.http,
+      options.tokenStore,
+      options.instrumentation
+    );
+    this.rateClient = new FedexRateClient({
+      config: options.config,
+      http: options.http,
+      getToken: () => this.oauth.getValidToken(),
+      clearToken: (rejected) => this.oauth.clearCache(rejected),
+    });
+  }
+
+  async execute(input: OperationInput): Promise<OperationResult> {
+    return withOperationRetry(this.retryPolicy, input.operation, () => this.dispatch(input));
+  }
+
+  private async dispatch(input: OperationInput): Promise<OperationResult> {
+    if (isRateInput(input)) {
+      const result = await this.rateClient.getRates(input.input);
+      return { operation: "rate", result };
+    }
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `FedEx does not support operation: ${input.operation}`,
+      context: { carrierId: this.carrierId, supported: [...this.supportedOperations] },
+    });
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * FedEx Rate API: build request from domain model, call API, normalize response.
+ * Based on FedEx Rate API ("Rate and transit times"). Request/response shapes follow FedEx docs.
+ */
+
+import { z } from "zod";
+import {
+  parseRetryAfterMs,
+  sendAuthorizedRequest,
+  type BearerTokenSource,
+  type HttpClient,
+} from "../../http-client.js";
+import type {
+  Address,
+  Customs,
+  Money,
+  Package,
+  RateQuote,
+  RateRequest,
+  RateResponse,
+} from "../../domain.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import type { FedexConfig } from "../../config.js";
+import { assertRateOptionsSupported } from "../rate-options.js";
+import { parseMoney, toDecimalString } from "../../money.js";
+
+/** Runtime validation for FedEx rate API response. */
+const FedexRatedShipmentDetailSchema = z.object({
+  rateType: z.string().optional(),
+  totalNetCharge: z.number().optional(),
+  currency: z.string().optional(),
+  shipmentRateDetail: z.object({ currency: z.string().optional() }).optional(),
+});
+
+const FedexRateReplyDetailSchema = z.object({
+  serviceType: z.string().optional(),
+  serviceName: z.string().optional(),
+  ratedShipmentDetails: z.array(FedexRatedShipmentDetailSchema).optional(),
+  commit: z
+    .object({
+      transitDays: z.object({ minimumTransitTime: z.string().optional() }).optional(),
+    })
+    .optional(),
+  operationalDetail: z.object({ transitTime: z.string().optional() }).optional(),
+});
+
+const FedexRateResponseSchema = z.object({
+  transactionId: z.string().optional(),
+  output: z
+    .object({
+      rateReplyDetails: z.array(FedexRateReplyDetailSchema).optional(),
+    })
+    .optional(),
+});
+
+const FEDEX_RATE_PATH = "/rate/v1/rates/quotes";
+
+/** FedEx Rate API request body (simplified from FedEx docs). */
+export interface FedexRateRequest {
+  accountNumber?: { value?: string };
+  rateRequestControlParameters?: { returnTransitTimes?: boolean };
+  requestedShipment?: {
+    shipper?: FedexParty;
+    recipient?: FedexParty;
+    serviceType?: string;
+    pickupType?: string;
+    rateRequestType?: string[];
+    requestedPackageLineItems?: FedexPackageLineItem[];
+    documentShipment?: boolean;
+    customsClearanceDetail?: FedexCustomsClearanceDetail;
+  };
+}
+
+interface FedexMoney {
+  amount?: number;
+  currency?: string;
+}
+
+interface FedexCustomsClearanceDetail {
+  /** SENDER pays duties and taxes (DDP), RECIPIENT otherwise */
+  dutiesPayment?: { paymentType?: string };
+  commodities?: Array<{
+    description?: string;
+    harmonizedCode?: string;
+    countryOfManufacture?: string;
+    quantity?: number;
+    quantityUnits?: string;
+    unitPrice?: FedexMoney;
+    customsValue?: FedexMoney;
+  }>;
+}
+
+interface FedexParty {
+  address?: {
+    streetLines?: string[];
+    city?: string;
+    stateOrProvinceCode?: string;
+    postalCode?: string;
+    countryCode?: string;
+    residential?: boolean;
+  };
+}
+
+interface FedexPackageLineItem {
+  weight?: { units?: string; value?: number };
+  dimensions?: { length?: number; width?: number; height?: number; units?: string };
+}
+
+/** Map domain Address to FedEx shipper/recipient format. */
+function toFedexParty(addr: Address): FedexParty {
+  return {
+    address: {
+      streetLines: [addr.line1, addr.line2, addr.line3].filter(Boolean) as string[],
+      city: addr.city,
+      stateOrProvinceCode: addr.stateProvinceCode,
+      postalCode: addr.postalCode,
+      countryCode: addr.countryCode,
+    },
+  };
+}
+
+/** Map domain Package to FedEx line item. FedEx only accepts whole-number dimensions. */
+function toFedexPackage(pkg: Package): FedexPackageLineItem {
+  const result: FedexPackageLineItem = {
+    weight: { units: pkg.weightUnit === "KGS" ? "KG" : "LB", value: pkg.weight },
+  };
+  if (pkg.length != null && pkg.width != null && pkg.height != null) {
+    result.dimensions = {
+      length: Math.ceil(pkg.length),
+      width: Math.ceil(pkg.width),
+      height: Math.ceil(pkg.height),
+      units: pkg.dimensionUnit === "CM" ? "CM" : "IN",
+    };
+  }
+  return result;
+}
+
+/**
+ * Merchandise goes to customsClearanceDetail, one commodity per line with its
+ * value computed in exact minor units; documents are flagged as such. FedEx
+ * takes no commodity-level weight from us, since the domain has none.
+ */
+function toFedexCustoms(
+  customs: Customs | undefined
+): Pick<NonNullable<FedexRateRequest["requestedShipment"]>, "documentShipment" | "customsClearanceDetail"> {
+  if (!customs) return {};
+  if (customs.contents === "documents") return { documentShipment: true };
+  const currency = customs.currencyCode.toUpperCase();
+  return {
+    customsClearanceDetail: {
+      dutiesPayment: { paymentType: customs.incoterm === "DDP" ? "SENDER" : "RECIPIENT" },
+      commodities: customs.commodities.map((c, i) => {
+        const unitPrice = parseMoney(c.unitValue, currency);
+        if (!unitPrice) {
+          throw new CarrierIntegrationError({
+            code: "VALIDATION_ERROR",
+            message: `customs has an invalid currency code: ${JSON.stringify(customs.currencyCode)}`,
+            context: { field: `customs.commodities.${i}.unitValue`, currencyCode: customs.currencyCode },
+          });
+        }
+        const customsValue = { ...unitPrice, minorUnits: unitPrice.minorUnits * c.quantity };
+        return {
+          description: c.description,
+          harmonizedCode: c.hsCode,
+          countryOfManufacture: c.countryOfOrigin,
+          quantity: c.quantity,
+          quantityUnits: "PCS",
+          unitPrice: { amount: Number(toDecimalString(unitPrice)), currency },
+          customsValue: { amount: Number(toDecimalString(customsValue)), currency },
+        };
+      }),
+    },
+  };
+}
+
+/**
+ * Build FedEx rate request body from our domain RateRequest. Only the
+ * residential flag is mapped; other service options are rejected. Customs
+ * are mapped by toFedexCustoms.
+ */
+export function buildFedexRateRequest(req: RateRequest, accountNumber: string): FedexRateRequest {
+  assertRateOptionsSupported("FedEx", req, ["residential"]);
+  const recipient = toFedexParty(req.destination);
+  if (req.options?.residential) recipient.address = { ...recipient.address, residential: true };
+  return {
+    accountNumber: { value: accountNumber },
+    rateRequestControlParameters: { returnTransitTimes: true },
+    requestedShipment: {
+      shipper: toFedexParty(req.origin),
+      recipient,
+      serviceType: req.serviceCode,
+      pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+      // ACCOUNT returns the negotiated rate for accountNumber; LIST is the fallback.
+      rateRequestType: ["ACCOUNT", "LIST"],
+      requestedPackageLineItems: req.packages.map(toFedexPackage),
+      ...toFedexCustoms(req.customs),
+    },
+  };
+}
+
+/** FedEx transit times are enum words, e.g. "THREE_DAYS". */
+const FEDEX_TRANSIT_DAYS: Record<string, number> = {
+  ONE_DAY: 1,
+  TWO_DAYS: 2,
+  THREE_DAYS: 3,
+  FOUR_DAYS: 4,
+  FIVE_DAYS: 5,
+  SIX_DAYS: 6,
+  SEVEN_DAYS: 7,
+  EIGHT_DAYS: 8,
+  NINE_DAYS: 9,
+  TEN_DAYS: 10,
+  ELEVEN_DAYS: 11,
+  TWELVE_DAYS: 12,
+  THIRTEEN_DAYS: 13,
+  FOURTEEN_DAYS: 14,
+  FIFTEEN_DAYS: 15,
+  SIXTEEN_DAYS: 16,
+  SEVENTEEN_DAYS: 17,
+  EIGHTEEN_DAYS: 18,
+  NINETEEN_DAYS: 19,
+  TWENTY_DAYS: 20,
+};
+
+/** Parse FedEx response into our normalized RateResponse. */
+export function parseFedexRateResponse(
+  body: unknown,
+  carrierId: string
+): RateResponse {
+  const parsed = FedexRateResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `FedEx rate response invalid — ${message}`,
+      context: { body, issues: parsed.error.flatten() },
+    });
+  }
+
+  const output = parsed.data.output;
+  if (!output) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: "FedEx rate response missing output",
+      context: { body },
+    });
+  }
+
+  const quotes: RateQuote[] = [];
+  for (const detail of output.rateReplyDetails ?? []) {
+    const rated = detail.ratedShipmentDetails ?? [];
+    const account = rated.find((r) => r.rateType === "ACCOUNT");
+    const list = rated.find((r) => r.rateType === "LIST");
+    const rate = account ?? rated[0];
+    const totalCharge = rate && fedexAmount(rate, body);
+    if (!totalCharge) continue;
+    const code = detail.serviceType ?? "UNKNOWN";
+    const transit =
+      detail.commit?.transitDays?.minimumTransitTime ?? detail.operationalDetail?.transitTime;
+    quotes.push({
+      carrier: carrierId,
+      serviceCode: code,
+      serviceName: detail.serviceName ?? code,
+      totalCharge,
+      publishedCharge: list && fedexAmount(list, body),
+      negotiatedCharge: account && fedexAmount(account, body),
+      transitDays: transit ? FEDEX_TRANSIT_DAYS[transit] : undefined,
+      carrierServiceId: code,
+    });
+  }
+
+  return { quotes, carrierRequestId: parsed.data.transactionId };
+}
+
+type FedexRatedShipmentDetail = z.infer<typeof FedexRatedShipmentDetailSchema>;
+
+/** A rated detail's total in its own currency; MALFORMED_RESPONSE when the currency is unusable. */
+function fedexAmount(rate: FedexRatedShipmentDetail, body: unknown): Money | undefined {
+  if (rate.totalNetCharge == null) return undefined;
+  const currencyCode = rate.currency ?? rate.shipmentRateDetail?.currency ?? "USD";
+  const amount = parseMoney(rate.totalNetCharge, currencyCode);
+  if (!amount) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `FedEx rate response has an invalid amount: ${rate.totalNetCharge} ${currencyCode}`,
+      context: { body },
+    });
+  }
+  return amount;
+}
+
+export interface FedexRateClientOptions {
+  config: FedexConfig;
+  http: HttpClient;
+  getToken: () => Promise<string>;
+  /** Drop a token FedEx rejected with 401 so the request is replayed with a new one */
+  clearToken: (rejected: string) => Promise<void>;
+}
+
+/**
+ * Client for FedEx Rate API. Uses getToken() and clearToken() for auth (from
+ * FedexOAuthClient).
+ */
+export class FedexRateClient {
+  private readonly config: FedexConfig;
+  private readonly http: HttpClient;
+  private readonly tokens: BearerTokenSource;
+
+  constructor(options: FedexRateClientOptions) {
+    this.config = options.config;
+    this.http = options.http;
+    this.tokens = { getToken: options.getToken, clearToken: options.clearToken };
+  }
+
+  async getRates(req: RateRequest): Promise<RateResponse> {
+    const requestBody = buildFedexRateRequest(req, this.config.accountNumber);
+    const res = await sendAuthorizedRequest<unknown>(
+      this.http,
+      this.tokens,
+      {
+        method: "POST",
+        url: `${this.config.apiBaseUrl}${FEDEX_RATE_PATH}`,
+        headers: {
+          "Content-Type": "application/json",
+          "X-locale": "en_US",
+        },
+        body: JSON.stringify(requestBody),
+        timeoutMs: this.config.requestTimeoutMs,
+      },
+      "FedEx rate request"
+    );
+
+    if (res.status === 401) {
+      throw new CarrierIntegrationError({
+        code: "AUTH_FAILED",
+        message: "FedEx rate request unauthorized (401) with a freshly issued token",
+        statusCode: 401,
+        context: { body: res.body },
+      });
+    }
+
+    if (res.status === 429) {
+      throw new CarrierIntegrationError({
+        code: "RATE_LIMITED",
+        message: "FedEx rate limited (429)",
+        statusCode: 429,
+        context: { retryAfterMs: parseRetryAfterMs(res.headers) },
+      });
+    }
+
+    if (res.status >= 400) {
+      const error = tryGetFedexError(res.body);
+      throw new CarrierIntegrationError({
+        code: "CARRIER_ERROR",
+        message: error?.message ?? `FedEx rate request failed: HTTP ${res.status}`,
+        statusCode: res.status,
+        carrierCode: error?.code,
+        context: { body: res.body, retryAfterMs: parseRetryAfterMs(res.headers) },
+      });
+    }
+
+    return parseFedexRateResponse(res.body, "fedex");
+  }
+}
+
+/** FedEx error bodies look like { transactionId, errors: [{ code, message }] }. */
+function tryGetFedexError(body: unknown): { code?: string; message?: string } | undefined {
+  if (body && typeof body === "object") {
+    const first = (body as { errors?: Array<{ code?: unknown; message?: unknown }> }).errors?.[0];
+    if (first) {
+      return {
+        code: typeof first.code === "string" ? first.code : undefined,
+        message: typeof first.message === "string" ? first.message : undefined,
+      };
+    }
+  }
+  return undefined;
+}
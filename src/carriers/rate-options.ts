@@ -0,0 +1,45 @@
+/**
+ * Service options (accessorials) on a rate request. A carrier that cannot
+ * price an option must reject the request: ignoring it would return quotes
+ * lower than the carrier bills.
+ */
+
+import type { RateRequest } from "../domain.js";
+import { CarrierIntegrationError } from "../errors.js";
+
+export type RateOptionName =
+  | "residential"
+  | "signature"
+  | "saturdayDelivery"
+  | "declaredValue"
+  | "cod";
+
+/** Options the request asks for, shipment- and package-level, in a stable order. */
+export function requestedRateOptions(req: RateRequest): RateOptionName[] {
+  const options = req.options ?? {};
+  const requested = new Set<RateOptionName>();
+  if (options.residential) requested.add("residential");
+  if (options.signature) requested.add("signature");
+  if (options.saturdayDelivery) requested.add("saturdayDelivery");
+  for (const pkg of req.packages) {
+    if (pkg.options?.declaredValue) requested.add("declaredValue");
+    if (pkg.options?.cod) requested.add("cod");
+  }
+  return [...requested];
+}
+
+/** Throw VALIDATION_ERROR naming every requested option `carrierName` cannot quote. */
+export function assertRateOptionsSupported(
+  carrierName: string,
+  req: RateRequest,
+  supported: readonly RateOptionName[]
+): void {
+  const unsupported = requestedRateOptions(req).filter((o) => !supported.includes(o));
+  if (unsupported.length > 0) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `${carrierName} cannot quote service options: ${unsupported.join(", ")}`,
+      context: { unsupported, supported: [...supported] },
+    });
+  }
+}
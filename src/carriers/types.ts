@@ -3,7 +3,17 @@
  * without changing existing code.
  */
 
-import type { RateRequest, RateResponse } from "../domain.js";
+import type {
+  AddressValidationRequest,
+  AddressValidationResult,
+  LabelResponse,
+  RateRequest,
+  RateResponse,
+  ShipmentRequest,
+  TrackingRequest,
+  TrackingResponse,
+} from "../domain.js";
+import type { CarrierPackageRules } from "../package-math.js";
 
 /** Supported operations. Each carrier can implement a subset. */
 export type CarrierOperation = "rate" | "label" | "tracking" | "address_validation";
@@ -11,16 +21,16 @@ export type CarrierOperation = "rate" | "label" | "tracking" | "address_validati
 /** Result of an operation; type depends on operation. */
 export type OperationResult =
   | { operation: "rate"; result: RateResponse }
-  | { operation: "label"; result: unknown }
-  | { operation: "tracking"; result: unknown }
-  | { operation: "address_validation"; result: unknown };
+  | { operation: "label"; result: LabelResponse }
+  | { operation: "tracking"; result: TrackingResponse }
+  | { operation: "address_validation"; result: AddressValidationResult };
 
 /** Input for an operation. */
 export type OperationInput =
   | { operation: "rate"; input: RateRequest }
-  | { operation: "label"; input: unknown }
-  | { operation: "tracking"; input: unknown }
-  | { operation: "address_validation"; input: unknown };
+  | { operation: "label"; input: ShipmentRequest }
+  | { operation: "tracking"; input: TrackingRequest }
+  | { operation: "address_validation"; input: AddressValidationRequest };
 
 /**
  * A carrier integration implements one or more operations.
@@ -30,6 +40,8 @@ export interface CarrierIntegration {
   readonly carrierId: string;
   /** Which operations this carrier supports. */
   readonly supportedOperations: readonly CarrierOperation[];
+  /** Weight and size limits; when set, rate requests are checked before any call. */
+  readonly packageRules?: CarrierPackageRules;
 
   /** Execute an operation. Input/output types depend on operation. */
   execute(op: OperationInput): Promise<OperationResult>;
@@ -47,3 +59,42 @@ export function isRateResult(
 ): op is { operation: "rate"; result: RateResponse } {
   return op.operation === "rate";
 }
+
+/** Type guard: label operation. */
+export function isLabelInput(
+  op: OperationInput
+): op is { operation: "label"; input: ShipmentRequest } {
+  return op.operation === "label";
+}
+
+export function isLabelResult(
+  op: OperationResult
+): op is { operation: "label"; result: LabelResponse } {
+  return op.operation === "label";
+}
+
+/** Type guard: tracking operation. */
+export function isTrackingInput(
+  op: OperationInput
+): op is { operation: "tracking"; input: TrackingRequest } {
+  return op.operation === "tracking";
+}
+
+export function isTrackingResult(
+  op: OperationResult
+): op is { operation: "tracking"; result: TrackingResponse } {
+  return op.operation === "tracking";
+}
+
+/** Type guard: address validation operation. */
+export function isAddressValidationInput(
+  op: OperationInput
+): op is { operation: "address_validation"; input: AddressValidationRequest } {
+  return op.operation === "address_validation";
+}
+
+export function isAddressValidationResult(
+  op: OperationResult
+): op is { operation: "address_validation"; result: AddressValidationResult } {
+  return op.operation === "address_validation";
+}
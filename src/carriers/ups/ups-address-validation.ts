@@ -0,0 +1,246 @@
+/**
+ * UPS Address Validation - Street Level API: validate and classify an address.
+ * Request/response shapes follow UPS docs (XAV, request option 3 = validation + classification).
+ */
+
+import { z } from "zod";
+import type { HttpClient } from "../../http-client.js";
+import {
+  AddressSchema,
+  type Address,
+  type AddressClassification,
+  type AddressValidationRequest,
+  type AddressValidationResult,
+  type AddressVerdict,
+} from "../../domain.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import type { UpsConfig } from "../../config.js";
+import { oneOrMany } from "./ups-shared.js";
+import { sendUpsRequest, type UpsTokenProvider } from "./ups-request.js";
+
+/** Runtime validation for UPS XAV response. Indicators are present (usually "") when set. */
+const UpsAddressClassificationSchema = z
+  .object({ Code: z.string().optional(), Description: z.string().optional() })
+  .optional();
+
+const UpsAddressKeyFormatSchema = z.object({
+  AddressLine: z
+    .union([z.array(z.string()), z.string()])
+    .transform((v) => (Array.isArray(v) ? v : [v]))
+    .optional(),
+  PoliticalDivision2: z.string().optional(),
+  PoliticalDivision1: z.string().optional(),
+  PostcodePrimaryLow: z.string().optional(),
+  PostcodeExtendedLow: z.string().optional(),
+  CountryCode: z.string().optional(),
+});
+
+const UpsCandidateSchema = z.object({
+  AddressClassification: UpsAddressClassificationSchema,
+  AddressKeyFormat: UpsAddressKeyFormatSchema.optional(),
+});
+
+const UpsXavResponseSchema = z.object({
+  XAVResponse: z
+    .object({
+      Response: z
+        .object({
+          ResponseStatus: z
+            .object({ Code: z.string().optional(), Description: z.string().optional() })
+            .optional(),
+        })
+        .optional(),
+      ValidAddressIndicator: z.string().optional(),
+      AmbiguousAddressIndicator: z.string().optional(),
+      NoCandidatesIndicator: z.string().optional(),
+      AddressClassification: UpsAddressClassificationSchema,
+      Candidate: oneOrMany(UpsCandidateSchema).optional(),
+    })
+    .optional(),
+});
+
+/** Request option 3: street-level validation plus residential/commercial classification. */
+const UPS_XAV_PATH = "/api/addressvalidation/v1/3";
+const UPS_XAV_MAX_CANDIDATES = "10";
+
+/** Street-level validation is only offered for these countries. */
+const UPS_XAV_COUNTRIES = new Set(["US", "PR"]);
+
+/** UPS AddressClassification code -> normalized classification. */
+const UPS_CLASSIFICATIONS: Record<string, AddressClassification> = {
+  "0": "unknown",
+  "1": "commercial",
+  "2": "residential",
+};
+
+/** UPS XAV request body (simplified from UPS docs). */
+export interface UpsXavRequest {
+  XAVRequest?: {
+    AddressKeyFormat?: {
+      AddressLine?: string[];
+      PoliticalDivision2?: string;
+      PoliticalDivision1?: string;
+      PostcodePrimaryLow?: string;
+      PostcodeExtendedLow?: string;
+      CountryCode?: string;
+    };
+  };
+}
+
+/** Build UPS XAV request body from our domain AddressValidationRequest. */
+export function buildUpsXavRequest(req: AddressValidationRequest): UpsXavRequest {
+  const addr = req.address;
+  if (!UPS_XAV_COUNTRIES.has(addr.countryCode.toUpperCase())) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `UPS street-level address validation is not available for ${addr.countryCode}`,
+      context: { supported: [...UPS_XAV_COUNTRIES] },
+    });
+  }
+  // ZIP+4 is sent as primary and extended parts.
+  const [primary, extended] = addr.postalCode.split("-", 2);
+  return {
+    XAVRequest: {
+      AddressKeyFormat: {
+        AddressLine: [addr.line1, addr.line2, addr.line3].filter(Boolean) as string[],
+        PoliticalDivision2: addr.city,
+        PoliticalDivision1: addr.stateProvinceCode,
+        PostcodePrimaryLow: primary.trim(),
+        PostcodeExtendedLow: extended?.trim() || undefined,
+        CountryCode: addr.countryCode,
+      },
+    },
+  };
+}
+
+type UpsAddressKeyFormat = z.infer<typeof UpsAddressKeyFormatSchema>;
+type UpsCandidate = z.infer<typeof UpsCandidateSchema>;
+
+function hasAddressKeyFormat(
+  candidate: UpsCandidate
+): candidate is UpsCandidate & { AddressKeyFormat: UpsAddressKeyFormat } {
+  return candidate.AddressKeyFormat != null;
+}
+
+/**
+ * Candidate as a domain Address; undefined when UPS left out a required
+ * field, since callers pass candidates straight on to getRates.
+ */
+function toAddress(key: UpsAddressKeyFormat): Address | undefined {
+  const [line1 = "", line2, line3] = key.AddressLine ?? [];
+  const postalCode = key.PostcodeExtendedLow
+    ? `${key.PostcodePrimaryLow ?? ""}-${key.PostcodeExtendedLow}`
+    : key.PostcodePrimaryLow ?? "";
+  const address = AddressSchema.safeParse({
+    line1,
+    line2,
+    line3,
+    city: key.PoliticalDivision2 ?? "",
+    stateProvinceCode: key.PoliticalDivision1,
+    postalCode,
+    countryCode: key.CountryCode ?? "",
+  });
+  return address.success ? address.data : undefined;
+}
+
+function toClassification(code: string | undefined): AddressClassification {
+  return (code && UPS_CLASSIFICATIONS[code]) || "unknown";
+}
+
+/** Parse UPS XAV response into our normalized AddressValidationResult. */
+export function parseUpsXavResponse(
+  body: unknown,
+  carrierId: string
+): AddressValidationResult {
+  const parsed = UpsXavResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `UPS address validation response invalid — ${message}`,
+      context: { body, issues: parsed.error.flatten() },
+    });
+  }
+
+  const xav = parsed.data.XAVResponse;
+  if (!xav) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: "UPS address validation response missing XAVResponse",
+      context: { body },
+    });
+  }
+
+  const status = xav.Response?.ResponseStatus;
+  if (status?.Code && status.Code !== "1") {
+    throw new CarrierIntegrationError({
+      code: "CARRIER_ERROR",
+      message: status.Description ?? `UPS error: ${status.Code}`,
+      carrierCode: status.Code,
+      context: { body },
+    });
+  }
+
+  const candidates = (xav.Candidate ?? []).filter(hasAddressKeyFormat);
+  let verdict: AddressVerdict = "invalid";
+  if (xav.ValidAddressIndicator != null) verdict = "valid";
+  else if (xav.AmbiguousAddressIndicator != null) verdict = "ambiguous";
+
+  // The top-level classification describes the input; prefer the best candidate's.
+  const classification = toClassification(
+    candidates[0]?.AddressClassification?.Code ?? xav.AddressClassification?.Code
+  );
+
+  return {
+    carrier: carrierId,
+    verdict,
+    classification,
+    candidates: candidates.flatMap((c) => toAddress(c.AddressKeyFormat) ?? []),
+  };
+}
+
+export interface UpsAddressValidationClientOptions {
+  config: UpsConfig;
+  http: HttpClient;
+  auth: UpsTokenProvider;
+}
+
+/**
+ * Client for UPS Address Validation API. Authenticates via sendUpsRequest().
+ */
+export class UpsAddressValidationClient {
+  private readonly config: UpsConfig;
+  private readonly http: HttpClient;
+  private readonly auth: UpsTokenProvider;
+
+  constructor(options: UpsAddressValidationClientOptions) {
+    this.config = options.config;
+    this.http = options.http;
+    this.auth = options.auth;
+  }
+
+  async validate(req: AddressValidationRequest): Promise<AddressValidationResult> {
+    // Build first so unsupported countries fail before we fetch a token.
+    const requestBody = buildUpsXavRequest(req);
+    const url = `${this.config.apiBaseUrl}${UPS_XAV_PATH}`;
+    const query = new URLSearchParams({
+      regionalrequestindicator: "false",
+      maximumcandidatelistsize: UPS_XAV_MAX_CANDIDATES,
+    }).toString();
+
+    const res = await sendUpsRequest(
+      this.http,
+      this.auth,
+      {
+        method: "POST",
+        url: `${url}?${query}`,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody),
+        timeoutMs: this.config.requestTimeoutMs,
+      },
+      "address validation"
+    );
+
+    return parseUpsXavResponse(res.body, "ups");
+  }
+}
@@ -1,51 +1,122 @@
 /**
- * UPS carrier integration: implements "rate" operation.
- * Adding "label" or "tracking" would mean new operation handlers and clients
- * without changing this file's structure.
+ * UPS carrier integration: implements "rate", "label", "tracking" and
+ * "address_validation". Each operation has its own client; adding one means a
+ * new handler and client without changing this file's structure.
  */
 
 import type { CarrierIntegration } from "../types.js";
 import type { OperationInput, OperationResult } from "../types.js";
-import { isRateInput } from "../types.js";
+import {
+  isAddressValidationInput,
+  isLabelInput,
+  isRateInput,
+  isTrackingInput,
+} from "../types.js";
 import { UpsRateClient } from "./ups-rate.js";
+import { UpsShipClient } from "./ups-ship.js";
+import { UpsTrackClient } from "./ups-track.js";
+import { UpsAddressValidationClient } from "./ups-address-validation.js";
 import { UpsOAuthClient } from "../../auth/ups-oauth.js";
+import type { TokenStore } from "../../auth/token-store.js";
+import type { Instrumentation } from "../../instrumentation.js";
 import type { UpsConfig } from "../../config.js";
 import type { HttpClient } from "../../http-client.js";
+import { UPS_PACKAGE_RULES } from "../../package-math.js";
 import { CarrierIntegrationError } from "../../errors.js";
+import {
+  resolveRetryPolicy,
+  withOperationRetry,
+  type RetryPolicy,
+} from "../../retry.js";
 
-const SUPPORTED_OPERATIONS = ["rate"] as const;
+const SUPPORTED_OPERATIONS = ["rate", "label", "tracking", "address_validation"] as const;
 
 export interface UpsCarrierOptions {
   config: UpsConfig;
   http: HttpClient;
+  /**
+   * Retry transient failures (429, 5xx, network errors, timeouts). Omit to
+   * never retry; pass {} for DEFAULT_RETRY_POLICY, which skips "label".
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Where OAuth tokens are kept. Defaults to process memory; use a shared
+   * store (e.g. FileTokenStore) so workers reuse one token.
+   */
+  tokenStore?: TokenStore;
+  /** Counts and traces OAuth token requests; pass the service's instrumentation */
+  instrumentation?: Instrumentation;
 }
 
 /**
- * UPS carrier: rate shopping via Rating API. Auth is handled internally
- * via OAuth client; callers just call execute({ operation: "rate", input }).
+ * UPS carrier: rate shopping via Rating API, labels via Shipping API, tracking
+ * via Track API, address checks via Address Validation API. Auth is handled
+ * internally via OAuth client; callers just call execute({ operation: "rate", input }).
  */
 export class UpsCarrier implements CarrierIntegration {
   readonly carrierId = "ups";
   readonly supportedOperations: readonly ("rate" | "label" | "tracking" | "address_validation")[] =
     SUPPORTED_OPERATIONS;
+  readonly packageRules = UPS_PACKAGE_RULES;
 
   private readonly rateClient: UpsRateClient;
+  private readonly shipClient: UpsShipClient;
+  private readonly trackClient: UpsTrackClient;
+  private readonly addressValidationClient: UpsAddressValidationClient;
+  private readonly retryPolicy: RetryPolicy | undefined;
   private readonly oauth: UpsOAuthClient;
 
   constructor(options: UpsCarrierOptions) {
-    this.oauth = new UpsOAuthClient(options.config, options.http);
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.oauth = new UpsOAuthClient(
+      options.config,
+      options.http,
+      options.tokenStore,
+      options.instrumentation
+    );
     this.rateClient = new UpsRateClient({
       config: options.config,
       http: options.http,
-      getToken: () => this.oauth.getValidToken(),
+      auth: this.oauth,
+    });
+    this.shipClient = new UpsShipClient({
+      config: options.config,
+      http: options.http,
+      auth: this.oauth,
+    });
+    this.trackClient = new UpsTrackClient({
+      config: options.config,
+      http: options.http,
+      auth: this.oauth,
+    });
+    this.addressValidationClient = new UpsAddressValidationClient({
+      config: options.config,
+      http: options.http,
+      auth: this.oauth,
     });
   }
 
   async execute(input: OperationInput): Promise<OperationResult> {
+    return withOperationRetry(this.retryPolicy, input.operation, () => this.dispatch(input));
+  }
+
+  private async dispatch(input: OperationInput): Promise<OperationResult> {
     if (isRateInput(input)) {
       const result = await this.rateClient.getRates(input.input);
       return { operation: "rate", result };
     }
+    if (isLabelInput(input)) {
+      const result = await this.shipClient.createShipment(input.input);
+      return { operation: "label", result };
+    }
+    if (isTrackingInput(input)) {
+      const result = await this.trackClient.track(input.input);
+      return { operation: "tracking", result };
+    }
+    if (isAddressValidationInput(input)) {
+      const result = await this.addressValidationClient.validate(input.input);
+      return { operation: "address_validation", result };
+    }
     throw new CarrierIntegrationError({
       code: "VALIDATION_ERROR",
       message: `UPS does not support operation: ${(input as OperationInput).operation}`,
@@ -5,20 +5,86 @@
 
 import { z } from "zod";
 import type { HttpClient } from "../../http-client.js";
-import type { RateRequest, RateResponse, RateQuote, Address, Package } from "../../domain.js";
+import type {
+  ChargeLine,
+  Customs,
+  LandedCost,
+  Money,
+  Package,
+  RateRequest,
+  RateResponse,
+  RateQuote,
+  SignatureOption,
+} from "../../domain.js";
 import { CarrierIntegrationError } from "../../errors.js";
 import type { UpsConfig } from "../../config.js";
+import {
+  oneOrMany,
+  toIsoDate,
+  toUpsAddress,
+  toUpsPackage,
+  type UpsAddress,
+  type UpsPackage,
+} from "./ups-shared.js";
+import { sendUpsRequest, type UpsTokenProvider } from "./ups-request.js";
+import { LBS_PER_KG } from "../../package-math.js";
+import { addMoney, parseMoney, sumMoney, toDecimalString } from "../../money.js";
 
 /** Runtime validation for UPS rate API response. */
+const UpsChargesSchema = z.object({
+  MonetaryValue: z.string().optional(),
+  CurrencyCode: z.string().optional(),
+});
+
+const UpsItemizedChargeSchema = UpsChargesSchema.extend({
+  Code: z.string().optional(),
+  Description: z.string().optional(),
+  SubType: z.string().optional(),
+});
+
 const UpsRatedShipmentSchema = z.object({
   Service: z.object({ Code: z.string().optional(), Name: z.string().optional() }).optional(),
-  TotalCharges: z
+  BaseServiceCharge: UpsChargesSchema.optional(),
+  TransportationCharges: UpsChargesSchema.optional(),
+  ServiceOptionsCharges: UpsChargesSchema.optional(),
+  ItemizedCharges: oneOrMany(UpsItemizedChargeSchema).optional(),
+  TotalCharges: UpsChargesSchema.optional(),
+  /** Only with TaxInformationIndicator; absent when UPS cannot estimate */
+  TaxCharges: oneOrMany(
+    z.object({ Type: z.string().optional(), MonetaryValue: z.string().optional() })
+  ).optional(),
+  NegotiatedRateCharges: z
     .object({
-      MonetaryValue: z.string().optional(),
-      CurrencyCode: z.string().optional(),
+      BaseServiceCharge: UpsChargesSchema.optional(),
+      TotalCharge: UpsChargesSchema.optional(),
     })
     .optional(),
-  GuaranteedDelivery: z.object({ BusinessDaysInTransit: z.string().optional() }).optional(),
+  GuaranteedDelivery: z
+    .object({
+      BusinessDaysInTransit: z.string().optional(),
+      DeliveryByTime: z.string().optional(),
+    })
+    .optional(),
+  /** Only in Shoptimeintransit responses */
+  TimeInTransit: z
+    .object({
+      ServiceSummary: z
+        .object({
+          /** Present (usually "") when the delivery date is guaranteed */
+          GuaranteedIndicator: z.string().optional(),
+          EstimatedArrival: z
+            .object({
+              Arrival: z.object({ Date: z.string().optional(), Time: z.string().optional() }).optional(),
+              BusinessDaysInTransit: z.string().optional(),
+            })
+            .optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  RatedPackage: oneOrMany(
+    z.object({ ItemizedCharges: oneOrMany(UpsItemizedChargeSchema).optional() })
+  ).optional(),
 });
 
 const UpsRateResponseSchema = z.object({
@@ -31,101 +97,223 @@ const UpsRateResponseSchema = z.object({
             .optional(),
         })
         .optional(),
-      RatedShipment: z.array(UpsRatedShipmentSchema).optional(),
+      RatedShipment: oneOrMany(UpsRatedShipmentSchema).optional(),
     })
     .optional(),
 });
 
-const UPS_RATING_PATH = "/api/ratings/v1/Shop";
+/** The request option is appended: /Shop, or /Shoptimeintransit for delivery dates. */
+const UPS_RATING_PATH = "/api/ratings/v1";
 const UPS_RATE_VERSION = "v1";
 
+interface UpsMoney {
+  CurrencyCode?: string;
+  MonetaryValue?: string;
+}
+
+interface UpsRatePackage extends UpsPackage {
+  PackageServiceOptions?: {
+    DeclaredValue?: UpsMoney;
+    /** CODFundsCode 0: check, cashier's check or money order */
+    COD?: { CODFundsCode?: string; CODAmount?: UpsMoney };
+    DeliveryConfirmation?: { DCISType?: string };
+  };
+}
+
 /** UPS Rating API request body (simplified from UPS docs). */
 export interface UpsRateRequest {
   RateRequest?: {
     Request?: { RequestOption?: string[] };
     Shipment?: {
+      Shipper?: UpsAddress & { ShipperNumber?: string };
       ShipFrom?: UpsAddress;
       ShipTo?: UpsAddress;
-      Package?: UpsPackage[];
+      Package?: UpsRatePackage[];
       Service?: { Code?: string };
+      ShipmentServiceOptions?: {
+        SaturdayDeliveryIndicator?: string;
+        DeliveryConfirmation?: { DCISType?: string };
+      };
+      ShipmentRatingOptions?: { NegotiatedRatesIndicator?: string; TaxInformationIndicator?: string };
+      /** Customs value of the goods; UPS needs it to estimate duties and taxes */
+      InvoiceLineTotal?: UpsMoney;
+      DocumentsOnlyIndicator?: string;
+      /** Required for Shoptimeintransit */
+      DeliveryTimeInformation?: { PackageBillType?: string; Pickup?: { Date?: string } };
+      ShipmentTotalWeight?: { UnitOfMeasurement?: { Code?: string }; Weight?: string };
     };
   };
 }
 
-interface UpsAddress {
-  Address?: {
-    AddressLine?: string[];
-    City?: string;
-    StateProvinceCode?: string;
-    PostalCode?: string;
-    CountryCode?: string;
-  };
+/** "Shoptimeintransit" when the request has a ship or pickup date, otherwise "Shop". */
+export function upsRateRequestOption(req: RateRequest): "Shop" | "Shoptimeintransit" {
+  return req.pickupDate ?? req.shipDate ? "Shoptimeintransit" : "Shop";
 }
 
-interface UpsPackage {
-  Packaging?: { Code?: string };
-  Dimensions?: {
-    UnitOfMeasurement?: { Code?: string };
-    Length?: string;
-    Width?: string;
-    Height?: string;
-  };
-  PackageWeight?: {
-    UnitOfMeasurement?: { Code?: string };
-    Weight?: string;
+/** Total shipment weight, which time in transit requires; mixed units are summed in LBS. */
+function toUpsShipmentTotalWeight(packages: Package[]) {
+  const kgs = packages.every((p) => p.weightUnit === "KGS");
+  const total = packages.reduce(
+    (sum, p) => sum + (!kgs && p.weightUnit === "KGS" ? p.weight * LBS_PER_KG : p.weight),
+    0
+  );
+  return {
+    UnitOfMeasurement: { Code: kgs ? "KGS" : "LBS" },
+    Weight: String(Math.max(0.1, Math.round(total * 10) / 10)),
   };
 }
 
-/** Map domain Address to UPS ShipFrom/ShipTo format. */
-function toUpsAddress(addr: Address): UpsAddress {
-  const lines = [addr.line1, addr.line2, addr.line3].filter(Boolean) as string[];
-  return {
-    Address: {
-      AddressLine: lines.length ? lines : undefined,
-      City: addr.city,
-      StateProvinceCode: addr.stateProvinceCode,
-      PostalCode: addr.postalCode,
-      CountryCode: addr.countryCode,
-    },
-  };
+/** Countries UPS treats as one domestic market for package-level options. */
+const UPS_DOMESTIC_COUNTRIES = new Set(["US", "PR"]);
+
+/** Services without Saturday delivery. */
+const UPS_NO_SATURDAY_SERVICES = new Set(["03", "11", "12"]);
+
+/** DCISType for package-level (domestic) delivery confirmation. */
+const UPS_PACKAGE_DCIS_TYPES: Record<SignatureOption, string> = {
+  delivery_confirmation: "1",
+  signature_required: "2",
+  adult_signature: "3",
+};
+
+/** DCISType for shipment-level (international) delivery confirmation; no unsigned level. */
+const UPS_SHIPMENT_DCIS_TYPES: Partial<Record<SignatureOption, string>> = {
+  signature_required: "1",
+  adult_signature: "2",
+};
+
+function isUpsDomestic(req: RateRequest): boolean {
+  return (
+    UPS_DOMESTIC_COUNTRIES.has(req.origin.countryCode) &&
+    UPS_DOMESTIC_COUNTRIES.has(req.destination.countryCode)
+  );
 }
 
-/** Map domain Package to UPS Package format. */
-function toUpsPackage(pkg: Package): UpsPackage {
-  const dimUnit = pkg.dimensionUnit === "CM" ? "CM" : "IN";
-  const weightUnit = pkg.weightUnit === "KGS" ? "KGS" : "LBS";
-  const result: UpsPackage = {
-    Packaging: { Code: "02" }, // Customer supplied
-    PackageWeight: {
-      UnitOfMeasurement: { Code: weightUnit },
-      Weight: String(pkg.weight),
-    },
-  };
-  if (
-    pkg.length != null &&
-    pkg.width != null &&
-    pkg.height != null
-  ) {
-    result.Dimensions = {
-      UnitOfMeasurement: { Code: dimUnit },
-      Length: String(pkg.length),
-      Width: String(pkg.width),
-      Height: String(pkg.height),
-    };
+/** Reject option combinations UPS will not rate, before any HTTP call. */
+function validateUpsRateOptions(req: RateRequest): void {
+  const invalid = (message: string, context?: Record<string, unknown>) =>
+    new CarrierIntegrationError({ code: "VALIDATION_ERROR", message, context });
+  const signature = req.options?.signature;
+  const hasCod = req.packages.some((p) => p.options?.cod);
+
+  if (hasCod && !isUpsDomestic(req)) {
+    throw invalid("UPS COD is only available within the US and Puerto Rico");
+  }
+  if (hasCod && signature) {
+    throw invalid("UPS does not combine COD with delivery confirmation on a package");
+  }
+  if (signature && !isUpsDomestic(req) && !UPS_SHIPMENT_DCIS_TYPES[signature]) {
+    throw invalid(`UPS ${signature} is only available within the US and Puerto Rico`, {
+      supported: Object.keys(UPS_SHIPMENT_DCIS_TYPES),
+    });
+  }
+  if (req.options?.saturdayDelivery && req.serviceCode && UPS_NO_SATURDAY_SERVICES.has(req.serviceCode)) {
+    throw invalid(`UPS ${upsServiceName(req.serviceCode)} has no Saturday delivery`, {
+      serviceCode: req.serviceCode,
+    });
   }
-  return result;
 }
 
-/** Build UPS RateRequest body from our domain RateRequest. */
+/**
+ * Request amounts as exact Money, so UPS gets the same decimal the caller
+ * sent. A currency code that is not ISO 4217 throws VALIDATION_ERROR.
+ */
+function requestMoney(amount: number, currencyCode: string, field: string): Money {
+  const money = parseMoney(amount, currencyCode.toUpperCase());
+  if (!money) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `${field} has an invalid currency code: ${JSON.stringify(currencyCode)}`,
+      context: { field, amount, currencyCode },
+    });
+  }
+  return money;
+}
+
+function toUpsMoney(money: Money): UpsMoney {
+  return { CurrencyCode: money.currencyCode, MonetaryValue: toDecimalString(money) };
+}
+
+/**
+ * UPS rating takes the invoice total rather than commodity lines; the lines
+ * are summed here. Documents carry no invoice.
+ */
+function toUpsInvoiceLineTotal(customs: Customs | undefined): UpsMoney | undefined {
+  if (customs?.contents !== "merchandise") return undefined;
+  const lines = customs.commodities.map((c, i) => {
+    const unitValue = requestMoney(c.unitValue, customs.currencyCode, `customs.commodities.${i}.unitValue`);
+    return { ...unitValue, minorUnits: unitValue.minorUnits * c.quantity };
+  });
+  return toUpsMoney(sumMoney(lines, customs.currencyCode.toUpperCase()));
+}
+
+function toUpsRatePackage(pkg: Package, domesticDcisType: string | undefined): UpsRatePackage {
+  const declaredValue = pkg.options?.declaredValue;
+  const cod = pkg.options?.cod;
+  const serviceOptions: UpsRatePackage["PackageServiceOptions"] = {
+    DeclaredValue: declaredValue
+      ? toUpsMoney(requestMoney(declaredValue.amount, declaredValue.currencyCode, "declaredValue"))
+      : undefined,
+    COD: cod
+      ? { CODFundsCode: "0", CODAmount: toUpsMoney(requestMoney(cod.amount, cod.currencyCode, "cod")) }
+      : undefined,
+    DeliveryConfirmation: domesticDcisType ? { DCISType: domesticDcisType } : undefined,
+  };
+  return {
+    ...toUpsPackage(pkg),
+    PackageServiceOptions: declaredValue || cod || domesticDcisType ? serviceOptions : undefined,
+  };
+}
+
+/**
+ * Build UPS RateRequest body from our domain RateRequest. With a shipper
+ * account number, UPS adds NegotiatedRateCharges for that account. Delivery
+ * confirmation goes on each package within the US and Puerto Rico and on the
+ * shipment otherwise, as UPS requires.
+ */
 export function buildUpsRateRequest(req: RateRequest): UpsRateRequest {
+  validateUpsRateOptions(req);
+  const account = req.shipperAccountNumber;
+  const pickupDate = req.pickupDate ?? req.shipDate;
+  const options = req.options ?? {};
+  const domestic = isUpsDomestic(req);
+  const signature = options.signature;
+  const shipmentDcisType = signature && !domestic ? UPS_SHIPMENT_DCIS_TYPES[signature] : undefined;
+  const customs = req.customs;
+  const ratingOptions = {
+    NegotiatedRatesIndicator: account ? "" : undefined,
+    TaxInformationIndicator: customs ? "" : undefined,
+  };
+  const shipTo = toUpsAddress(req.destination);
+  if (options.residential) shipTo.Address = { ...shipTo.Address, ResidentialAddressIndicator: "" };
+
   return {
     RateRequest: {
-      Request: { RequestOption: ["Shop"] },
+      Request: { RequestOption: [upsRateRequestOption(req)] },
       Shipment: {
+        Shipper: account ? { ...toUpsAddress(req.origin), ShipperNumber: account } : undefined,
         ShipFrom: toUpsAddress(req.origin),
-        ShipTo: toUpsAddress(req.destination),
-        Package: req.packages.map(toUpsPackage),
+        ShipTo: shipTo,
+        Package: req.packages.map((pkg) =>
+          toUpsRatePackage(pkg, signature && domestic ? UPS_PACKAGE_DCIS_TYPES[signature] : undefined)
+        ),
         Service: req.serviceCode ? { Code: req.serviceCode } : undefined,
+        ShipmentServiceOptions:
+          options.saturdayDelivery || shipmentDcisType
+            ? {
+                SaturdayDeliveryIndicator: options.saturdayDelivery ? "" : undefined,
+                DeliveryConfirmation: shipmentDcisType ? { DCISType: shipmentDcisType } : undefined,
+              }
+            : undefined,
+        // UPS treats an indicator's presence as the flag; the value is ignored.
+        ShipmentRatingOptions: account || customs ? ratingOptions : undefined,
+        InvoiceLineTotal: toUpsInvoiceLineTotal(customs),
+        DocumentsOnlyIndicator: customs?.contents === "documents" ? "" : undefined,
+        // PackageBillType 03 = non-document
+        DeliveryTimeInformation: pickupDate
+          ? { PackageBillType: "03", Pickup: { Date: pickupDate.replaceAll("-", "") } }
+          : undefined,
+        ShipmentTotalWeight: pickupDate ? toUpsShipmentTotalWeight(req.packages) : undefined,
       },
     },
   };
@@ -159,10 +347,135 @@ function upsServiceName(code: string): string {
   return UPS_SERVICE_NAMES[code] ?? code;
 }
 
-/** Parse UPS response into our normalized RateResponse. */
+/** Descriptions for common UPS itemized charge codes; UPS usually sends only the code. */
+const UPS_CHARGE_DESCRIPTIONS: Record<string, string> = {
+  "100": "Additional Handling",
+  "120": "Delivery Confirmation",
+  "190": "Extended Area Surcharge",
+  "270": "Residential Surcharge",
+  "300": "Saturday Delivery",
+  "375": "Fuel Surcharge",
+  "376": "Delivery Area Surcharge",
+  "400": "Large Package Surcharge",
+};
+
+type UpsRatedShipment = z.infer<typeof UpsRatedShipmentSchema>;
+type UpsItemizedCharge = z.infer<typeof UpsItemizedChargeSchema>;
+
+/**
+ * Parse a UPS MonetaryValue in the shipment currency; undefined when absent.
+ * A value that is not a decimal throws MALFORMED_RESPONSE: quoting it as 0
+ * would undercharge.
+ */
+function upsAmount(
+  charges: { MonetaryValue?: string } | undefined,
+  currencyCode: string,
+  field: string
+): Money | undefined {
+  const value = charges?.MonetaryValue;
+  if (value == null || value === "") return undefined;
+  const amount = parseMoney(value, currencyCode);
+  if (!amount) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `UPS rate response has an invalid ${field} amount: ${JSON.stringify(value)}`,
+      context: { field, value, currencyCode },
+    });
+  }
+  return amount;
+}
+
+/**
+ * Published charge lines: the base charge, itemized surcharges (shipment-level
+ * and per package, summed by code) and service option charges. Undefined when
+ * UPS sent no breakdown.
+ */
+function upsChargeLines(shipment: UpsRatedShipment, currencyCode: string): ChargeLine[] | undefined {
+  const lines: ChargeLine[] = [];
+  const base = upsAmount(shipment.BaseServiceCharge, currencyCode, "BaseServiceCharge");
+  if (base != null) lines.push({ code: "BASE", description: "Base Service Charge", amount: base });
+
+  const itemized: UpsItemizedCharge[] = [
+    ...(shipment.ItemizedCharges ?? []),
+    ...(shipment.RatedPackage ?? []).flatMap((p) => p.ItemizedCharges ?? []),
+  ];
+  const byCode = new Map<string, ChargeLine>();
+  for (const charge of itemized) {
+    const amount = upsAmount(charge, currencyCode, "ItemizedCharges");
+    if (amount == null || !charge.Code) continue;
+    const line = byCode.get(charge.Code);
+    if (line) {
+      line.amount = addMoney(line.amount, amount);
+    } else {
+      byCode.set(charge.Code, {
+        code: charge.Code,
+        description:
+          charge.Description || UPS_CHARGE_DESCRIPTIONS[charge.Code] || `UPS charge ${charge.Code}`,
+        amount,
+      });
+    }
+  }
+  lines.push(...byCode.values());
+
+  const options = upsAmount(shipment.ServiceOptionsCharges, currencyCode, "ServiceOptionsCharges");
+  if (options?.minorUnits) lines.push({ code: "SERVICE_OPTIONS", description: "Service Options", amount: options });
+  return lines.length ? lines : undefined;
+}
+
+/** Descriptions for UPS tax types; others are shown as sent. */
+const UPS_TAX_DESCRIPTIONS: Record<string, string> = {
+  DUTY: "Import Duty",
+  VAT: "Value Added Tax",
+  GST: "Goods and Services Tax",
+  HST: "Harmonized Sales Tax",
+  PST: "Provincial Sales Tax",
+  QST: "Quebec Sales Tax",
+};
+
+/** Duties and taxes from TaxCharges; undefined when UPS sent none. */
+function upsLandedCost(
+  shipment: UpsRatedShipment,
+  currencyCode: string,
+  customs: Customs | undefined
+): LandedCost | undefined {
+  const charges: ChargeLine[] = [];
+  for (const tax of shipment.TaxCharges ?? []) {
+    const amount = upsAmount(tax, currencyCode, "TaxCharges");
+    if (amount == null || !tax.Type) continue;
+    charges.push({ code: tax.Type, description: UPS_TAX_DESCRIPTIONS[tax.Type] ?? tax.Type, amount });
+  }
+  if (charges.length === 0) return undefined;
+  const billedTo =
+    customs?.contents === "merchandise" ? (customs.incoterm === "DDP" ? "shipper" : "recipient") : undefined;
+  return {
+    charges,
+    total: sumMoney(charges.map((c) => c.amount), currencyCode),
+    billedTo,
+  };
+}
+
+/**
+ * UPS times are "HHMMSS" in time in transit and "10:30 A.M." in guaranteed
+ * delivery; normalized to HH:MM. Other values ("End of Day") are dropped.
+ */
+function toDeliveryByTime(time: string | undefined): string | undefined {
+  if (!time) return undefined;
+  const compact = /^(\d{2})(\d{2})(\d{2})?$/.exec(time);
+  if (compact) return `${compact[1]}:${compact[2]}`;
+  const clock = /^(\d{1,2}):(\d{2})\s*([AP])\.?M\.?$/i.exec(time.trim());
+  if (!clock) return undefined;
+  const hours = (Number(clock[1]) % 12) + (clock[3].toUpperCase() === "P" ? 12 : 0);
+  return `${String(hours).padStart(2, "0")}:${clock[2]}`;
+}
+
+/**
+ * Parse UPS response into our normalized RateResponse. Pass the request's
+ * customs so landed costs say who pays them.
+ */
 export function parseUpsRateResponse(
   body: unknown,
-  carrierId: string
+  carrierId: string,
+  customs?: Customs
 ): RateResponse {
   const parsed = UpsRateResponseSchema.safeParse(body);
   if (!parsed.success) {
@@ -197,11 +510,26 @@ export function parseUpsRateResponse(
   const quotes: RateQuote[] = ratedShipments.map((s) => {
     const svc = s.Service;
     const code = svc?.Code ?? "UNKNOWN";
-    const total = s.TotalCharges?.MonetaryValue;
     const currency = s.TotalCharges?.CurrencyCode ?? "USD";
-    const transitDays = s.GuaranteedDelivery?.BusinessDaysInTransit;
-    const totalCharge =
-      total != null && total !== "" ? parseFloat(total) : 0;
+    const summary = s.TimeInTransit?.ServiceSummary;
+    const arrival = summary?.EstimatedArrival;
+    const transitDays =
+      s.GuaranteedDelivery?.BusinessDaysInTransit ?? arrival?.BusinessDaysInTransit;
+    const publishedCharge = upsAmount(s.TotalCharges, currency, "TotalCharges");
+    const negotiated = s.NegotiatedRateCharges?.TotalCharge;
+    const negotiatedCharge = upsAmount(
+      negotiated,
+      negotiated?.CurrencyCode ?? currency,
+      "NegotiatedRateCharges.TotalCharge"
+    );
+    const totalCharge = negotiatedCharge ?? publishedCharge;
+    if (!totalCharge) {
+      throw new CarrierIntegrationError({
+        code: "MALFORMED_RESPONSE",
+        message: `UPS rate response has no total charge for service ${code}`,
+        context: { body },
+      });
+    }
     const transitDaysNum =
       transitDays != null && transitDays !== ""
         ? parseInt(transitDays, 10)
@@ -210,9 +538,16 @@ export function parseUpsRateResponse(
       carrier: carrierId,
       serviceCode: code,
       serviceName: svc?.Name ?? upsServiceName(code),
-      totalCharge: Number.isNaN(totalCharge) ? 0 : totalCharge,
-      currencyCode: currency ?? "USD",
+      totalCharge,
+      publishedCharge,
+      negotiatedCharge,
+      charges: upsChargeLines(s, currency),
+      landedCost: upsLandedCost(s, currency, customs),
       transitDays: transitDaysNum != null && !Number.isNaN(transitDaysNum) ? transitDaysNum : undefined,
+      estimatedDelivery: toIsoDate(arrival?.Arrival?.Date),
+      deliveryByTime: toDeliveryByTime(arrival?.Arrival?.Time ?? s.GuaranteedDelivery?.DeliveryByTime),
+      // Shop responses only carry GuaranteedDelivery for services with a guarantee
+      guaranteed: summary ? summary.GuaranteedIndicator != null : s.GuaranteedDelivery ? true : undefined,
       carrierServiceId: code,
     };
   });
@@ -223,77 +558,41 @@ export function parseUpsRateResponse(
 export interface UpsRateClientOptions {
   config: UpsConfig;
   http: HttpClient;
-  getToken: () => Promise<string>;
+  auth: UpsTokenProvider;
 }
 
 /**
- * Client for UPS Rating API. Uses getToken() for auth (from UpsOAuthClient).
+ * Client for UPS Rating API. Authenticates via sendUpsRequest().
  */
 export class UpsRateClient {
   private readonly config: UpsConfig;
   private readonly http: HttpClient;
-  private readonly getToken: () => Promise<string>;
+  private readonly auth: UpsTokenProvider;
 
   constructor(options: UpsRateClientOptions) {
     this.config = options.config;
     this.http = options.http;
-    this.getToken = options.getToken;
+    this.auth = options.auth;
   }
 
   async getRates(req: RateRequest): Promise<RateResponse> {
-    const token = await this.getToken();
-    const url = `${this.config.apiBaseUrl}${UPS_RATING_PATH}`;
+    const url = `${this.config.apiBaseUrl}${UPS_RATING_PATH}/${upsRateRequestOption(req)}`;
     const requestBody = buildUpsRateRequest(req);
     const query = new URLSearchParams({ version: UPS_RATE_VERSION }).toString();
 
-    const res = await this.http.request<unknown>({
-      method: "POST",
-      url: `${url}?${query}`,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
+    const res = await sendUpsRequest(
+      this.http,
+      this.auth,
+      {
+        method: "POST",
+        url: `${url}?${query}`,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody),
+        timeoutMs: this.config.requestTimeoutMs,
       },
-      body: JSON.stringify(requestBody),
-      timeoutMs: this.config.requestTimeoutMs,
-    });
-
-    if (res.status === 401) {
-      throw new CarrierIntegrationError({
-        code: "AUTH_TOKEN_EXPIRED",
-        message: "UPS rate request unauthorized (401); token may have expired",
-        statusCode: 401,
-      });
-    }
-
-    if (res.status === 429) {
-      throw new CarrierIntegrationError({
-        code: "RATE_LIMITED",
-        message: "UPS rate limited (429)",
-        statusCode: 429,
-      });
-    }
-
-    if (res.status >= 400) {
-      const carrierCode = tryGetCarrierErrorCode(res.body);
-      throw new CarrierIntegrationError({
-        code: "CARRIER_ERROR",
-        message: `UPS rate request failed: HTTP ${res.status}`,
-        statusCode: res.status,
-        carrierCode,
-        context: { body: res.body },
-      });
-    }
-
-    return parseUpsRateResponse(res.body, "ups");
-  }
-}
+      "rate"
+    );
 
-function tryGetCarrierErrorCode(body: unknown): string | undefined {
-  if (body && typeof body === "object") {
-    const response = (body as { response?: { errors?: Array<{ code?: string }> } })
-      .response;
-    const code = response?.errors?.[0]?.code;
-    if (typeof code === "string") return code;
+    return parseUpsRateResponse(res.body, "ups", req.customs);
   }
-  return undefined;
 }
@@ -0,0 +1,55 @@
+/**
+ * Authenticated requests to UPS APIs. Every UPS client sends through
+ * sendUpsRequest() so a token UPS no longer accepts is replaced and the
+ * request replayed once, instead of each client handling 401 on its own.
+ */
+
+import {
+  sendAuthorizedRequest,
+  type HttpClient,
+  type HttpRequestOptions,
+  type HttpResponse,
+} from "../../http-client.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import { throwForUpsErrorStatus } from "./ups-shared.js";
+
+/** Token source for UPS clients; UpsOAuthClient implements it. */
+export interface UpsTokenProvider {
+  getValidToken(): Promise<string>;
+  /**
+   * Drop the cached token so the next getValidToken() fetches a new one; with
+   * `rejectedToken`, only while that token is still the cached one.
+   */
+  clearCache(rejectedToken?: string): Promise<void>;
+}
+
+/**
+ * Send a UPS API request with a bearer token and return the successful
+ * response. A 401 is replayed once with a fresh token (see
+ * sendAuthorizedRequest); a second 401 means the credentials themselves are
+ * rejected and fails with AUTH_FAILED. Other error statuses are thrown as by
+ * throwForUpsErrorStatus. `operation` names the API in messages (e.g. "rate").
+ */
+export async function sendUpsRequest(
+  http: HttpClient,
+  auth: UpsTokenProvider,
+  options: HttpRequestOptions,
+  operation: string
+): Promise<HttpResponse<unknown>> {
+  const tokens = {
+    getToken: () => auth.getValidToken(),
+    clearToken: (rejected: string) => auth.clearCache(rejected),
+  };
+  const res = await sendAuthorizedRequest<unknown>(http, tokens, options, `UPS ${operation} request`);
+  if (res.status === 401) {
+    throw new CarrierIntegrationError({
+      code: "AUTH_FAILED",
+      message: `UPS ${operation} request unauthorized (401) with a freshly issued token`,
+      statusCode: 401,
+      context: { body: res.body },
+    });
+  }
+
+  throwForUpsErrorStatus(res, operation);
+  return res;
+}
@@ -0,0 +1,134 @@
+/**
+ * Mappings and error handling shared by the UPS API clients (rating, shipping).
+ * Request/response shapes follow UPS docs; only the fields we use are typed.
+ */
+
+import { z } from "zod";
+import { parseRetryAfterMs, type HttpResponse } from "../../http-client.js";
+import type { Address, Package } from "../../domain.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import { roundUpTo } from "../../package-math.js";
+
+export interface UpsAddress {
+  Address?: {
+    AddressLine?: string[];
+    City?: string;
+    StateProvinceCode?: string;
+    PostalCode?: string;
+    CountryCode?: string;
+    /** Present (as "") for residential addresses */
+    ResidentialAddressIndicator?: string;
+  };
+}
+
+export interface UpsPackage {
+  Packaging?: { Code?: string };
+  Dimensions?: {
+    UnitOfMeasurement?: { Code?: string };
+    Length?: string;
+    Width?: string;
+    Height?: string;
+  };
+  PackageWeight?: {
+    UnitOfMeasurement?: { Code?: string };
+    Weight?: string;
+  };
+}
+
+/** UPS returns a single object instead of an array when there is only one element. */
+export function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .union([z.array(schema), schema])
+    .transform((v): z.infer<T>[] => (Array.isArray(v) ? v : [v]));
+}
+
+/** UPS dates are YYYYMMDD. */
+export function toIsoDate(date: string | undefined): string | undefined {
+  if (!date || !/^\d{8}$/.test(date)) return undefined;
+  return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+/** Map domain Address to UPS ShipFrom/ShipTo format. */
+export function toUpsAddress(addr: Address): UpsAddress {
+  const lines = [addr.line1, addr.line2, addr.line3].filter(Boolean) as string[];
+  return {
+    Address: {
+      AddressLine: lines.length ? lines : undefined,
+      City: addr.city,
+      StateProvinceCode: addr.stateProvinceCode,
+      PostalCode: addr.postalCode,
+      CountryCode: addr.countryCode,
+    },
+  };
+}
+
+/**
+ * Map domain Package to UPS Package format. UPS takes weights to one decimal
+ * and dimensions to two: weight rounds up so the declared weight is never
+ * below the actual one.
+ */
+export function toUpsPackage(pkg: Package): UpsPackage {
+  const dimUnit = pkg.dimensionUnit === "CM" ? "CM" : "IN";
+  const weightUnit = pkg.weightUnit === "KGS" ? "KGS" : "LBS";
+  const result: UpsPackage = {
+    Packaging: { Code: "02" }, // Customer supplied
+    PackageWeight: {
+      UnitOfMeasurement: { Code: weightUnit },
+      Weight: String(roundUpTo(pkg.weight, 0.1)),
+    },
+  };
+  if (
+    pkg.length != null &&
+    pkg.width != null &&
+    pkg.height != null
+  ) {
+    result.Dimensions = {
+      UnitOfMeasurement: { Code: dimUnit },
+      Length: String(round2(pkg.length)),
+      Width: String(round2(pkg.width)),
+      Height: String(round2(pkg.height)),
+    };
+  }
+  return result;
+}
+
+/**
+ * Throw a structured error for a non-success UPS API response.
+ * `operation` names the API in messages (e.g. "rate", "ship"). 401 never
+ * reaches here: sendUpsRequest() refreshes the token or fails with AUTH_FAILED.
+ */
+export function throwForUpsErrorStatus(res: HttpResponse<unknown>, operation: string): void {
+  if (res.status === 429) {
+    throw new CarrierIntegrationError({
+      code: "RATE_LIMITED",
+      message: `UPS ${operation} request rate limited (429)`,
+      statusCode: 429,
+      context: { retryAfterMs: parseRetryAfterMs(res.headers) },
+    });
+  }
+
+  if (res.status >= 400) {
+    const carrierCode = tryGetCarrierErrorCode(res.body);
+    throw new CarrierIntegrationError({
+      code: "CARRIER_ERROR",
+      message: `UPS ${operation} request failed: HTTP ${res.status}`,
+      statusCode: res.status,
+      carrierCode,
+      context: { body: res.body, retryAfterMs: parseRetryAfterMs(res.headers) },
+    });
+  }
+}
+
+function tryGetCarrierErrorCode(body: unknown): string | undefined {
+  if (body && typeof body === "object") {
+    const response = (body as { response?: { errors?: Array<{ code?: string }> } })
+      .response;
+    const code = response?.errors?.[0]?.code;
+    if (typeof code === "string") return code;
+  }
+  return undefined;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
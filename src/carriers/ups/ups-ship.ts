@@ -0,0 +1,303 @@
+/**
+ * UPS Shipping API: build ShipmentRequest from domain model, call API, decode labels.
+ * Request/response shapes follow UPS docs (Shipping API, "ship" endpoint).
+ */
+
+import { z } from "zod";
+import type { HttpClient } from "../../http-client.js";
+import type {
+  LabelFormat,
+  LabelResponse,
+  PackageLabel,
+  Party,
+  ShipmentRequest,
+} from "../../domain.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import type { UpsConfig } from "../../config.js";
+import {
+  oneOrMany,
+  toUpsAddress,
+  toUpsPackage,
+  type UpsAddress,
+  type UpsPackage,
+} from "./ups-shared.js";
+import { sendUpsRequest, type UpsTokenProvider } from "./ups-request.js";
+import { parseMoney } from "../../money.js";
+
+/** Runtime validation for UPS ship API response. */
+const UpsPackageResultSchema = z.object({
+  TrackingNumber: z.string().min(1, "TrackingNumber is required"),
+  ShippingLabel: z
+    .object({
+      ImageFormat: z.object({ Code: z.string().optional() }).optional(),
+      GraphicImage: z.string().min(1, "GraphicImage is required"),
+    })
+    .optional(),
+});
+
+const UpsShipResponseSchema = z.object({
+  ShipmentResponse: z
+    .object({
+      Response: z
+        .object({
+          ResponseStatus: z
+            .object({ Code: z.string().optional(), Description: z.string().optional() })
+            .optional(),
+        })
+        .optional(),
+      ShipmentResults: z
+        .object({
+          ShipmentIdentificationNumber: z.string().optional(),
+          ShipmentCharges: z
+            .object({
+              TotalCharges: z
+                .object({
+                  MonetaryValue: z.string().optional(),
+                  CurrencyCode: z.string().optional(),
+                })
+                .optional(),
+            })
+            .optional(),
+          PackageResults: oneOrMany(UpsPackageResultSchema).optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+const UPS_SHIP_PATH = "/api/shipments/v1/ship";
+/** "nonvalidate": UPS checks postal code/state only; street-level validation is a separate operation. */
+const UPS_SHIP_REQUEST_OPTION = "nonvalidate";
+
+/** UPS label image formats we can request. UPS has no PDF label option. */
+const UPS_LABEL_FORMATS: Partial<Record<LabelFormat, string>> = {
+  GIF: "GIF",
+  ZPL: "ZPL",
+};
+
+interface UpsParty extends UpsAddress {
+  Name?: string;
+  AttentionName?: string;
+  Phone?: { Number?: string };
+  EMailAddress?: string;
+}
+
+interface UpsShipPackage extends UpsPackage {
+  ReferenceNumber?: Array<{ Value?: string }>;
+}
+
+/** UPS Shipping API request body (simplified from UPS docs). */
+export interface UpsShipRequest {
+  ShipmentRequest?: {
+    Request?: { RequestOption?: string };
+    Shipment?: {
+      Description?: string;
+      Shipper?: UpsParty & { ShipperNumber?: string };
+      ShipTo?: UpsParty;
+      ShipFrom?: UpsParty;
+      PaymentInformation?: {
+        ShipmentCharge?: Array<{ Type?: string; BillShipper?: { AccountNumber?: string } }>;
+      };
+      Service?: { Code?: string };
+      Package?: UpsShipPackage[];
+    };
+    LabelSpecification?: {
+      LabelImageFormat?: { Code?: string };
+      LabelStockSize?: { Height?: string; Width?: string };
+    };
+  };
+}
+
+/** Map domain Party to UPS Shipper/ShipTo/ShipFrom format. */
+function toUpsParty(party: Party): UpsParty {
+  return {
+    Name: party.name,
+    AttentionName: party.attentionName ?? party.name,
+    Phone: party.phone ? { Number: party.phone } : undefined,
+    EMailAddress: party.email,
+    ...toUpsAddress(party.address),
+  };
+}
+
+function toUpsLabelFormat(format: LabelFormat): string {
+  const code = UPS_LABEL_FORMATS[format];
+  if (!code) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `UPS does not support ${format} labels`,
+      context: { supported: Object.keys(UPS_LABEL_FORMATS) },
+    });
+  }
+  return code;
+}
+
+/** Build UPS ShipmentRequest body from our domain ShipmentRequest. */
+export function buildUpsShipRequest(req: ShipmentRequest): UpsShipRequest {
+  const labelFormat = toUpsLabelFormat(req.labelFormat);
+  const referenceNumbers = req.referenceNumbers?.map((value) => ({ Value: value }));
+
+  return {
+    ShipmentRequest: {
+      Request: { RequestOption: UPS_SHIP_REQUEST_OPTION },
+      Shipment: {
+        Description: req.description,
+        Shipper: {
+          ...toUpsParty(req.shipper),
+          ShipperNumber: req.shipper.accountNumber,
+        },
+        ShipTo: toUpsParty(req.recipient),
+        ShipFrom: toUpsParty(req.shipFrom ?? req.shipper),
+        PaymentInformation: {
+          ShipmentCharge: [
+            { Type: "01", BillShipper: { AccountNumber: req.shipper.accountNumber } },
+          ],
+        },
+        Service: { Code: req.serviceCode },
+        Package: req.packages.map((pkg) => ({
+          ...toUpsPackage(pkg),
+          ReferenceNumber: referenceNumbers,
+        })),
+      },
+      LabelSpecification: {
+        LabelImageFormat: { Code: labelFormat },
+        LabelStockSize: { Height: "6", Width: "4" },
+      },
+    },
+  };
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/\r\n]*={0,2}$/;
+
+function decodeLabelImage(graphicImage: string, trackingNumber: string): Buffer {
+  if (!BASE64_PATTERN.test(graphicImage)) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `UPS ship response: label for ${trackingNumber} is not valid base64`,
+      context: { trackingNumber },
+    });
+  }
+  return Buffer.from(graphicImage, "base64");
+}
+
+/** Parse UPS ship response into our normalized LabelResponse. */
+export function parseUpsShipResponse(
+  body: unknown,
+  carrierId: string,
+  requestedFormat: LabelFormat
+): LabelResponse {
+  const parsed = UpsShipResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `UPS ship response invalid — ${message}`,
+      // Body omitted: it carries base64 label images.
+      context: { issues: parsed.error.flatten() },
+    });
+  }
+
+  const shipmentResponse = parsed.data.ShipmentResponse;
+  if (!shipmentResponse) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: "UPS ship response missing ShipmentResponse",
+      context: { body },
+    });
+  }
+
+  const status = shipmentResponse.Response?.ResponseStatus;
+  if (status?.Code && status.Code !== "1") {
+    throw new CarrierIntegrationError({
+      code: "CARRIER_ERROR",
+      message: status.Description ?? `UPS error: ${status.Code}`,
+      carrierCode: status.Code,
+      context: { body },
+    });
+  }
+
+  const results = shipmentResponse.ShipmentResults;
+  const packageResults = results?.PackageResults ?? [];
+  if (!results?.ShipmentIdentificationNumber || packageResults.length === 0) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: "UPS ship response missing shipment identification or package results",
+    });
+  }
+
+  const labels: PackageLabel[] = packageResults.map((p) => {
+    if (!p.ShippingLabel) {
+      throw new CarrierIntegrationError({
+        code: "MALFORMED_RESPONSE",
+        message: `UPS ship response: no label returned for ${p.TrackingNumber}`,
+        context: { trackingNumber: p.TrackingNumber },
+      });
+    }
+    const returnedFormat = labelFormatFromUps(p.ShippingLabel.ImageFormat?.Code);
+    return {
+      trackingNumber: p.TrackingNumber,
+      format: returnedFormat ?? requestedFormat,
+      image: decodeLabelImage(p.ShippingLabel.GraphicImage, p.TrackingNumber),
+    };
+  });
+
+  // The shipment is already bought, so an unreadable total is left out rather than failing it
+  const total = results.ShipmentCharges?.TotalCharges;
+  const totalCharge =
+    total?.MonetaryValue && total.CurrencyCode
+      ? parseMoney(total.MonetaryValue, total.CurrencyCode)
+      : undefined;
+
+  return {
+    carrier: carrierId,
+    shipmentId: results.ShipmentIdentificationNumber,
+    labels,
+    totalCharge,
+  };
+}
+
+function labelFormatFromUps(code: string | undefined): LabelFormat | undefined {
+  const entry = Object.entries(UPS_LABEL_FORMATS).find(([, upsCode]) => upsCode === code);
+  return entry?.[0] as LabelFormat | undefined;
+}
+
+export interface UpsShipClientOptions {
+  config: UpsConfig;
+  http: HttpClient;
+  auth: UpsTokenProvider;
+}
+
+/**
+ * Client for UPS Shipping API. Authenticates via sendUpsRequest().
+ */
+export class UpsShipClient {
+  private readonly config: UpsConfig;
+  private readonly http: HttpClient;
+  private readonly auth: UpsTokenProvider;
+
+  constructor(options: UpsShipClientOptions) {
+    this.config = options.config;
+    this.http = options.http;
+    this.auth = options.auth;
+  }
+
+  async createShipment(req: ShipmentRequest): Promise<LabelResponse> {
+    // Build first so unsupported label formats fail before we fetch a token.
+    const requestBody = buildUpsShipRequest(req);
+    const url = `${this.config.apiBaseUrl}${UPS_SHIP_PATH}`;
+
+    const res = await sendUpsRequest(
+      this.http,
+      this.auth,
+      {
+        method: "POST",
+        url,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody),
+        timeoutMs: this.config.requestTimeoutMs,
+      },
+      "ship"
+    );
+
+    return parseUpsShipResponse(res.body, "ups", req.labelFormat);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * UPS Track API: look up tracking numbers, normalize status and activity timeline.
+ * Request/response shapes follow UPS docs (Tracking API, "details" endpoint).
+ */
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { HttpClient } from "../../http-client.js";
+import type {
+  TrackingError,
+  TrackingEvent,
+  TrackingLocation,
+  TrackingRequest,
+  TrackingResponse,
+  TrackingResult,
+  TrackingStatus,
+} from "../../domain.js";
+import { CarrierIntegrationError, isCarrierIntegrationError } from "../../errors.js";
+import type { UpsConfig } from "../../config.js";
+import { oneOrMany, toIsoDate } from "./ups-shared.js";
+import { sendUpsRequest, type UpsTokenProvider } from "./ups-request.js";
+
+/** Runtime validation for UPS track API response. */
+const UpsActivitySchema = z.object({
+  location: z
+    .object({
+      address: z
+        .object({
+          city: z.string().optional(),
+          stateProvince: z.string().optional(),
+          postalCode: z.string().optional(),
+          countryCode: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  status: z
+    .object({
+      type: z.string().optional(),
+      description: z.string().optional(),
+      code: z.string().optional(),
+    })
+    .optional(),
+  date: z.string().optional(),
+  time: z.string().optional(),
+  gmtOffset: z.string().optional(),
+});
+
+const UpsTrackPackageSchema = z.object({
+  trackingNumber: z.string().min(1, "trackingNumber is required"),
+  deliveryDate: z.array(z.object({ type: z.string().optional(), date: z.string().optional() })).optional(),
+  currentStatus: z
+    .object({ description: z.string().optional(), code: z.string().optional() })
+    .optional(),
+  activity: oneOrMany(UpsActivitySchema).optional(),
+});
+
+const UpsTrackResponseSchema = z.object({
+  trackResponse: z
+    .object({
+      shipment: oneOrMany(
+        z.object({
+          package: oneOrMany(UpsTrackPackageSchema).optional(),
+          warnings: z
+            .array(z.object({ code: z.string().optional(), message: z.string().optional() }))
+            .optional(),
+        })
+      ).optional(),
+    })
+    .optional(),
+});
+
+type UpsActivity = z.infer<typeof UpsActivitySchema>;
+
+const UPS_TRACK_PATH = "/api/track/v1/details";
+const UPS_TRANSACTION_SRC = "carrier-integration";
+
+/** UPS activity status type -> normalized status. */
+const UPS_STATUS_TYPES: Record<string, TrackingStatus> = {
+  M: "label_created",
+  P: "in_transit",
+  I: "in_transit",
+  DO: "in_transit",
+  DD: "in_transit",
+  W: "in_transit",
+  O: "out_for_delivery",
+  D: "delivered",
+  X: "exception",
+  RS: "returned",
+};
+
+/** UPS "I" activities with these codes are out-for-delivery scans. */
+const UPS_OUT_FOR_DELIVERY_CODES = new Set(["OT", "OF"]);
+
+function toTrackingStatus(status: UpsActivity["status"]): TrackingStatus {
+  if (status?.type === "I" && status.code && UPS_OUT_FOR_DELIVERY_CODES.has(status.code)) {
+    return "out_for_delivery";
+  }
+  return (status?.type && UPS_STATUS_TYPES[status.type]) || "unknown";
+}
+
+/** UPS times are HHMMSS local to the scan; gmtOffset (e.g. "-05:00") is optional. */
+function toIsoTimestamp(activity: UpsActivity): string | undefined {
+  const date = toIsoDate(activity.date);
+  if (!date) return undefined;
+  const time = activity.time && /^\d{6}$/.test(activity.time) ? activity.time : "000000";
+  const offset = activity.gmtOffset && /^[+-]\d{2}:\d{2}$/.test(activity.gmtOffset)
+    ? activity.gmtOffset
+    : "";
+  return `${date}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}${offset}`;
+}
+
+/**
+ * Order two event timestamps: by instant when both carry a UTC offset, else by
+ * local time, since a scan without gmtOffset cannot be placed on the UTC line.
+ */
+function compareTimestamps(a: TrackingEvent, b: TrackingEvent): number {
+  if (a.timestamp.length > 19 && b.timestamp.length > 19) {
+    return Date.parse(a.timestamp) - Date.parse(b.timestamp);
+  }
+  return a.timestamp.slice(0, 19).localeCompare(b.timestamp.slice(0, 19));
+}
+
+function toTrackingLocation(activity: UpsActivity): TrackingLocation | undefined {
+  const address = activity.location?.address;
+  if (!address) return undefined;
+  return {
+    city: address.city || undefined,
+    stateProvinceCode: address.stateProvince || undefined,
+    postalCode: address.postalCode || undefined,
+    countryCode: address.countryCode || undefined,
+  };
+}
+
+function toTrackingResult(
+  pkg: z.infer<typeof UpsTrackPackageSchema>,
+  carrierId: string
+): TrackingResult {
+  const events: TrackingEvent[] = [];
+  for (const activity of pkg.activity ?? []) {
+    const timestamp = toIsoTimestamp(activity);
+    if (!timestamp) continue;
+    events.push({
+      timestamp,
+      status: toTrackingStatus(activity.status),
+      description: activity.status?.description?.trim() ?? "",
+      location: toTrackingLocation(activity),
+      carrierStatusCode: activity.status?.code,
+    });
+  }
+  // UPS lists activity newest first; reversing keeps same-time scans in UPS order.
+  events.reverse().sort(compareTimestamps);
+
+  const latest = events[events.length - 1];
+  const status = latest?.status ?? "unknown";
+  const deliveryDates = new Map(
+    (pkg.deliveryDate ?? []).map((d) => [d.type, toIsoDate(d.date)])
+  );
+  const delivered = status === "delivered";
+
+  return {
+    carrier: carrierId,
+    trackingNumber: pkg.trackingNumber,
+    status,
+    statusDescription: pkg.currentStatus?.description ?? latest?.description,
+    events,
+    // RDD (rescheduled) supersedes SDD (scheduled).
+    estimatedDelivery: delivered
+      ? undefined
+      : deliveryDates.get("RDD") ?? deliveryDates.get("SDD"),
+    deliveredAt: delivered ? latest.timestamp : undefined,
+  };
+}
+
+/** Parse UPS track response into normalized TrackingResults (one per package). */
+export function parseUpsTrackResponse(
+  body: unknown,
+  carrierId: string
+): TrackingResult[] {
+  const parsed = UpsTrackResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `UPS track response invalid — ${message}`,
+      context: { body, issues: parsed.error.flatten() },
+    });
+  }
+
+  const shipments = parsed.data.trackResponse?.shipment;
+  if (!shipments) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: "UPS track response missing trackResponse.shipment",
+      context: { body },
+    });
+  }
+
+  const results: TrackingResult[] = [];
+  for (const shipment of shipments) {
+    const packages = shipment.package ?? [];
+    if (packages.length === 0 && shipment.warnings?.length) {
+      const warning = shipment.warnings[0];
+      throw new CarrierIntegrationError({
+        code: "CARRIER_ERROR",
+        message: warning.message ?? `UPS tracking warning: ${warning.code}`,
+        carrierCode: warning.code,
+        context: { body },
+      });
+    }
+    results.push(...packages.map((p) => toTrackingResult(p, carrierId)));
+  }
+  return results;
+}
+
+export interface UpsTrackClientOptions {
+  config: UpsConfig;
+  http: HttpClient;
+  auth: UpsTokenProvider;
+}
+
+/**
+ * Client for UPS Track API. Authenticates via sendUpsRequest().
+ */
+export class UpsTrackClient {
+  private readonly config: UpsConfig;
+  private readonly http: HttpClient;
+  private readonly auth: UpsTokenProvider;
+
+  constructor(options: UpsTrackClientOptions) {
+    this.config = options.config;
+    this.http = options.http;
+    this.auth = options.auth;
+  }
+
+  /**
+   * UPS tracks one inquiry number per call, so numbers are looked up in turn.
+   * A number UPS rejects (CARRIER_ERROR, e.g. not found) is reported in
+   * `errors` without discarding the others; when every number is rejected,
+   * the first rejection is thrown. Other failures abort the whole request.
+   */
+  async track(req: TrackingRequest): Promise<TrackingResponse> {
+    const results: TrackingResult[] = [];
+    const errors: TrackingError[] = [];
+    let firstRejection: CarrierIntegrationError | undefined;
+    for (const trackingNumber of req.trackingNumbers) {
+      try {
+        results.push(...(await this.trackOne(trackingNumber)));
+      } catch (err) {
+        if (!isCarrierIntegrationError(err) || err.code !== "CARRIER_ERROR") throw err;
+        firstRejection ??= err;
+        errors.push({
+          trackingNumber,
+          error: { code: err.code, message: err.message, carrierCode: err.carrierCode },
+        });
+      }
+    }
+    if (results.length === 0 && firstRejection) throw firstRejection;
+    return errors.length > 0 ? { results, errors } : { results };
+  }
+
+  private async trackOne(trackingNumber: string): Promise<TrackingResult[]> {
+    const url = `${this.config.apiBaseUrl}${UPS_TRACK_PATH}/${encodeURIComponent(trackingNumber)}`;
+    const query = new URLSearchParams({ locale: "en_US", returnSignature: "false" }).toString();
+
+    const res = await sendUpsRequest(
+      this.http,
+      this.auth,
+      {
+        method: "GET",
+        url: `${url}?${query}`,
+        headers: {
+          // UPS requires a per-request transaction id (max 32 chars).
+          transId: randomUUID().replace(/-/g, ""),
+          transactionSrc: UPS_TRANSACTION_SRC,
+        },
+        timeoutMs: this.config.requestTimeoutMs,
+      },
+      "track"
+    );
+
+    return parseUpsTrackResponse(res.body, "ups");
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * USPS carrier integration: implements "rate" operation for domestic parcels
+ * (Ground Advantage, Priority Mail, Priority Mail Express).
+ */
+
+import type { CarrierIntegration, CarrierOperation } from "../types.js";
+import type { OperationInput, OperationResult } from "../types.js";
+import { isRateInput } from "../types.js";
+import { UspsRateClient } from "./usps-rate.js";
+import { UspsOAuthClient } from "../../auth/usps-oauth.js";
+import type { TokenStore } from "../../auth/token-store.js";
+import type { Instrumentation } from "../../instrumentation.js";
+import type { UspsConfig } from "../../config.js";
+import type { HttpClient } from "../../http-client.js";
+import { USPS_PACKAGE_RULES } from "../../package-math.js";
+import { CarrierIntegrationError } from "../../errors.js";
+import {
+  resolveRetryPolicy,
+  withOperationRetry,
+  type RetryPolicy,
+} from "../../retry.js";
+
+const SUPPORTED_OPERATIONS = ["rate"] as const;
+
+export interface UspsCarrierOptions {
+  config: UspsConfig;
+  http: HttpClient;
+  /**
+   * Retry transient failures (429, 5xx, network errors, timeouts). Omit to
+   * never retry; pass {} for DEFAULT_RETRY_POLICY.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Where OAuth tokens are kept. Defaults to process memory; use a shared
+   * store (e.g. FileTokenStore) so workers reuse one token.
+   */
+  tokenStore?: TokenStore;
+  /** Counts and traces OAuth token requests; pass the service's instrumentation */
+  instrumentation?: Instrumentation;
+}
+
+/**
+ * USPS carrier: rate shopping via Prices API. Auth is handled internally
+ * via OAuth client; callers just call execute({ operation: "rate", input }).
+ */
+export class UspsCarrier implements CarrierIntegration {
+  readonly carrierId = "usps";
+  readonly supportedOperations: readonly CarrierOperation[] = SUPPORTED_OPERATIONS;
+  readonly packageRules = USPS_PACKAGE_RULES;
+
+  private readonly rateClient: UspsRateClient;
+  private readonly retryPolicy: RetryPolicy | undefined;
+  private readonly oauth: UspsOAuthClient;
+
+  constructor(options: UspsCarrierOptions) {
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.oauth = new UspsOAuthClient(
+      options.config,
+      options.http,
+      options.tokenStore,
+      options.instrumentation
+    );
+    this.rateClient = new UspsRateClient({
+      config: options.config,
+      http: options.http,
+      getToken: () => this.oauth.getValidToken(),
+      clearToken: (rejected) => this.oauth.clearCache(rejected),
+    });
+  }
+
+  async execute(input: OperationInput): Promise<OperationResult> {
+    return withOperationRetry(this.retryPolicy, input.operation, () => this.dispatch(input));
+  }
+
+  private async dispatch(input: OperationInput): Promise<OperationResult> {
+    if (isRateInput(input)) {
+      const result = await this.rateClient.getRates(input.input);
+      return { operation: "rate", result };
+    }
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `USPS does not support operation: ${input.operation}`,
+      context: { carrierId: this.carrierId, supported: [...this.supportedOperations] },
+    });
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * USPS Domestic Prices API (v3): price each package per mail class and
+ * normalize into quotes. Request/response shapes follow USPS docs
+ * ("base-rates/search"); one call prices one piece for one mail class.
+ */
+
+import { z } from "zod";
+import {
+  parseRetryAfterMs,
+  sendAuthorizedRequest,
+  type BearerTokenSource,
+  type HttpClient,
+} from "../../http-client.js";
+import type { Money, Package, RateQuote, RateRequest, RateResponse } from "../../domain.js";
+import { CarrierIntegrationError, isCarrierIntegrationError } from "../../errors.js";
+import type { UspsConfig } from "../../config.js";
+import { assertRateOptionsSupported } from "../rate-options.js";
+import { CM_PER_IN, LBS_PER_KG } from "../../package-math.js";
+import { addMoney, parseMoney, zeroMoney } from "../../money.js";
+
+/** Runtime validation for USPS base-rates response. */
+const UspsBaseRatesResponseSchema = z.object({
+  totalBasePrice: z.number({ required_error: "totalBasePrice is required" }),
+  rates: z
+    .array(z.object({ description: z.string().optional(), mailClass: z.string().optional() }))
+    .optional(),
+});
+
+const USPS_BASE_RATES_PATH = "/prices/v3/base-rates/search";
+
+interface UspsMailClass {
+  serviceName: string;
+  /**
+   * USPS published service standard (upper bound, business days). The Prices
+   * API does not return transit times.
+   */
+  transitDays: number;
+}
+
+/** Mail classes we quote, cheapest/slowest first. Keys are USPS mailClass values. */
+const USPS_MAIL_CLASSES: Record<string, UspsMailClass> = {
+  USPS_GROUND_ADVANTAGE: { serviceName: "Ground Advantage", transitDays: 5 },
+  PRIORITY_MAIL: { serviceName: "Priority Mail", transitDays: 3 },
+  PRIORITY_MAIL_EXPRESS: { serviceName: "Priority Mail Express", transitDays: 2 },
+};
+
+/** USPS base-rates request body (simplified from USPS docs). */
+export interface UspsBaseRatesRequest {
+  originZIPCode: string;
+  destinationZIPCode: string;
+  /** Pounds */
+  weight: number;
+  /** Inches */
+  length?: number;
+  width?: number;
+  height?: number;
+  mailClass: string;
+  processingCategory: string;
+  rateIndicator: string;
+  destinationEntryFacilityType: string;
+  priceType: string;
+}
+
+/** USPS ZIP fields take the 5-digit ZIP only. */
+function toZip5(postalCode: string): string {
+  return postalCode.trim().slice(0, 5);
+}
+
+function toInches(value: number | undefined, unit: Package["dimensionUnit"]): number | undefined {
+  if (value == null) return undefined;
+  return unit === "CM" ? round2(value / CM_PER_IN) : value;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Build one USPS base-rates request per package for the given mail class. */
+export function buildUspsBaseRatesRequests(
+  req: RateRequest,
+  mailClass: string,
+  priceType: UspsConfig["priceType"]
+): UspsBaseRatesRequest[] {
+  return req.packages.map((pkg) => ({
+    originZIPCode: toZip5(req.origin.postalCode),
+    destinationZIPCode: toZip5(req.destination.postalCode),
+    weight: pkg.weightUnit === "KGS" ? round2(pkg.weight * LBS_PER_KG) : pkg.weight,
+    length: toInches(pkg.length, pkg.dimensionUnit),
+    width: toInches(pkg.width, pkg.dimensionUnit),
+    height: toInches(pkg.height, pkg.dimensionUnit),
+    mailClass,
+    processingCategory: "MACHINABLE",
+    // SP: single piece
+    rateIndicator: "SP",
+    destinationEntryFacilityType: "NONE",
+    priceType,
+  }));
+}
+
+/**
+ * Mail classes to price for a request; validates that the request is domestic
+ * and asks for no extra services, which base rates do not include. USPS has no
+ * residential surcharge, so the residential flag is accepted. Domestic base
+ * rates take no customs, so cross-border requests are rejected here rather
+ * than priced without them.
+ */
+export function uspsMailClassesFor(req: RateRequest): string[] {
+  assertRateOptionsSupported("USPS", req, ["residential"]);
+  if (req.origin.countryCode !== "US" || req.destination.countryCode !== "US") {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: "USPS rates are only available for domestic (US to US) shipments",
+      context: { origin: req.origin.countryCode, destination: req.destination.countryCode },
+    });
+  }
+  if (req.serviceCode == null) return Object.keys(USPS_MAIL_CLASSES);
+  if (!USPS_MAIL_CLASSES[req.serviceCode]) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `Unknown USPS service code: ${req.serviceCode}`,
+      context: { supported: Object.keys(USPS_MAIL_CLASSES) },
+    });
+  }
+  return [req.serviceCode];
+}
+
+/** Parse one USPS base-rates response into the piece price (USD). */
+export function parseUspsBaseRatesResponse(body: unknown): Money {
+  const parsed = UspsBaseRatesResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `USPS rate response invalid — ${message}`,
+      context: { body, issues: parsed.error.flatten() },
+    });
+  }
+  const price = parseMoney(parsed.data.totalBasePrice, "USD");
+  if (!price) {
+    throw new CarrierIntegrationError({
+      code: "MALFORMED_RESPONSE",
+      message: `USPS rate response has an invalid totalBasePrice: ${parsed.data.totalBasePrice}`,
+      context: { body },
+    });
+  }
+  return price;
+}
+
+function toRateQuote(mailClass: string, totalCharge: Money, carrierId: string): RateQuote {
+  const info = USPS_MAIL_CLASSES[mailClass];
+  return {
+    carrier: carrierId,
+    serviceCode: mailClass,
+    serviceName: info.serviceName,
+    totalCharge,
+    transitDays: info.transitDays,
+    carrierServiceId: mailClass,
+  };
+}
+
+export interface UspsRateClientOptions {
+  config: UspsConfig;
+  http: HttpClient;
+  getToken: () => Promise<string>;
+  /** Drop a token USPS rejected with 401 so the request is replayed with a new one */
+  clearToken: (rejected: string) => Promise<void>;
+}
+
+/**
+ * Client for USPS Prices API. Uses getToken() and clearToken() for auth (from
+ * UspsOAuthClient).
+ */
+export class UspsRateClient {
+  private readonly config: UspsConfig;
+  private readonly http: HttpClient;
+  private readonly tokens: BearerTokenSource;
+
+  constructor(options: UspsRateClientOptions) {
+    this.config = options.config;
+    this.http = options.http;
+    this.tokens = { getToken: options.getToken, clearToken: options.clearToken };
+  }
+
+  /**
+   * Price every package for each mail class and sum per class. A mail class
+   * USPS rejects for this shipment (e.g. over its weight limit) is left out;
+   * the request only fails if no mail class can be priced.
+   */
+  async getRates(req: RateRequest): Promise<RateResponse> {
+    const mailClasses = uspsMailClassesFor(req);
+    const quotes: RateQuote[] = [];
+    let firstRejection: CarrierIntegrationError | undefined;
+
+    for (const mailClass of mailClasses) {
+      try {
+        let total = zeroMoney("USD");
+        for (const body of buildUspsBaseRatesRequests(req, mailClass, this.config.priceType)) {
+          total = addMoney(total, await this.priceOnePiece(body));
+        }
+        quotes.push(toRateQuote(mailClass, total, "usps"));
+      } catch (err) {
+        if (!isMailClassRejection(err)) throw err;
+        firstRejection ??= err;
+      }
+    }
+
+    if (quotes.length === 0 && firstRejection) throw firstRejection;
+    return { quotes };
+  }
+
+  private async priceOnePiece(requestBody: UspsBaseRatesRequest): Promise<Money> {
+    const res = await sendAuthorizedRequest<unknown>(
+      this.http,
+      this.tokens,
+      {
+        method: "POST",
+        url: `${this.config.apiBaseUrl}${USPS_BASE_RATES_PATH}`,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+        timeoutMs: this.config.requestTimeoutMs,
+      },
+      "USPS rate request"
+    );
+
+    if (res.status === 401) {
+      throw new CarrierIntegrationError({
+        code: "AUTH_FAILED",
+        message: "USPS rate request unauthorized (401) with a freshly issued token",
+        statusCode: 401,
+        context: { body: res.body },
+      });
+    }
+
+    if (res.status === 429) {
+      throw new CarrierIntegrationError({
+        code: "RATE_LIMITED",
+        message: "USPS rate limited (429)",
+        statusCode: 429,
+        context: { retryAfterMs: parseRetryAfterMs(res.headers) },
+      });
+    }
+
+    if (res.status >= 400) {
+      const error = tryGetUspsError(res.body);
+      throw new CarrierIntegrationError({
+        code: "CARRIER_ERROR",
+        message: error?.message ?? `USPS rate request failed: HTTP ${res.status}`,
+        statusCode: res.status,
+        carrierCode: error?.code,
+        context: {
+          body: res.body,
+          mailClass: requestBody.mailClass,
+          retryAfterMs: parseRetryAfterMs(res.headers),
+        },
+      });
+    }
+
+    return parseUspsBaseRatesResponse(res.body);
+  }
+}
+
+/** USPS answers 400 when a mail class can't carry the piece; other failures abort the quote. */
+function isMailClassRejection(err: unknown): err is CarrierIntegrationError {
+  return (
+    isCarrierIntegrationError(err) && err.code === "CARRIER_ERROR" && err.statusCode === 400
+  );
+}
+
+/** USPS error bodies look like { error: { code, message, errors: [{ code, detail }] } }. */
+function tryGetUspsError(body: unknown): { code?: string; message?: string } | undefined {
+  if (body && typeof body === "object") {
+    const error = (body as {
+      error?: { code?: unknown; message?: unknown; errors?: Array<{ code?: unknown; detail?: unknown }> };
+    }).error;
+    if (error) {
+      const first = error.errors?.[0];
+      const code = first?.code ?? error.code;
+      const message = first?.detail ?? error.message;
+      return {
+        code: typeof code === "string" ? code : undefined,
+        message: typeof message === "string" ? message : undefined,
+      };
+    }
+  }
+  return undefined;
+}
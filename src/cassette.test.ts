@@ -0,0 +1,165 @@
+/**
+ * Cassette tests: record UPS traffic from the stub client into a temp file,
+ * then replay it through a fresh service without the stub.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createRecordingHttpClient,
+  createReplayHttpClient,
+  loadCassette,
+  type Cassette,
+} from "./test-utils/cassette.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import { CarrierIntegrationService } from "./service.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { getUpsConfig } from "./config.js";
+import type { HttpClient } from "./http-client.js";
+import type { RateRequest } from "./domain.js";
+
+const UPS_OAUTH_SUCCESS = { access_token: "test_token_abc123", expires_in: 3600 };
+
+const UPS_RATE_SUCCESS = {
+  RateResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Name: "Ground" },
+        TotalCharges: { MonetaryValue: "12.50", CurrencyCode: "USD" },
+        GuaranteedDelivery: { BusinessDaysInTransit: "3" },
+      },
+    ],
+  },
+};
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: { line1: "123 Origin St", city: "Atlanta", postalCode: "30301", countryCode: "US" },
+  destination: { line1: "456 Dest Ave", city: "New York", postalCode: "10001", countryCode: "US" },
+  packages: [{ weight: 5, weightUnit: "LBS", dimensionUnit: "IN" }],
+};
+
+const config = {
+  ...getUpsConfig(),
+  clientId: "test_client",
+  clientSecret: "test_secret",
+  apiBaseUrl: "https://api.example.com",
+  oauthTokenUrl: "https://auth.example.com/token",
+};
+
+function upsService(http: HttpClient) {
+  return new CarrierIntegrationService({ carriers: [new UpsCarrier({ config, http })] });
+}
+
+describe("HTTP cassettes", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cassette-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records scrubbed interactions and replays them offline", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    const path = join(dir, "ups", "rate-ground.json");
+    const recorder = createRecordingHttpClient(stub, path);
+
+    const recorded = await upsService(recorder).getRates("ups", SAMPLE_RATE_REQUEST);
+    await recorder.save();
+
+    const file = await readFile(path, "utf-8");
+    expect(file).not.toContain("test_token_abc123");
+    expect(file).not.toContain(Buffer.from("test_client:test_secret").toString("base64"));
+    const cassette = await loadCassette(path);
+    expect(cassette.interactions).toHaveLength(2);
+    expect(cassette.interactions[0].request.headers).toMatchObject({
+      Authorization: "Basic [REDACTED]",
+    });
+    expect(cassette.interactions[0].response.body).toEqual({
+      access_token: "[REDACTED]",
+      expires_in: 3600,
+    });
+
+    const replay = createReplayHttpClient(cassette);
+    const replayed = await upsService(replay).getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(replayed.quotes).toEqual(recorded.quotes);
+    replay.assertAllPlayed();
+  });
+
+  it("matches on method, URL and normalized body, each recording once", async () => {
+    const cassette: Cassette = {
+      version: 1,
+      interactions: [
+        {
+          request: {
+            method: "POST",
+            url: "https://api.example.com/rate?b=2&a=1",
+            headers: {},
+            body: { shipment: { weight: 5, unit: "LBS" } },
+          },
+          response: { status: 200, headers: {}, body: { ok: 1 } },
+        },
+        {
+          request: {
+            method: "POST",
+            url: "https://auth.example.com/token",
+            headers: {},
+            body: "grant_type=client_credentials&client_secret=%5BREDACTED%5D",
+          },
+          response: { status: 200, headers: {}, body: { access_token: "[REDACTED]" } },
+        },
+      ],
+    };
+    const replay = createReplayHttpClient(cassette);
+
+    const rate = await replay.request({
+      method: "POST",
+      url: "https://api.example.com/rate?a=1&b=2",
+      body: '{ "shipment": { "unit": "LBS", "weight": 5 } }',
+    });
+    const token = await replay.request({
+      method: "POST",
+      url: "https://auth.example.com/token",
+      body: "client_secret=real-secret&grant_type=client_credentials",
+    });
+
+    expect(rate.body).toEqual({ ok: 1 });
+    expect(token.status).toBe(200);
+    expect(replay.unplayed()).toEqual([]);
+    await expect(
+      replay.request({ method: "POST", url: "https://api.example.com/rate?a=1&b=2", body: "{}" })
+    ).rejects.toThrow("already played");
+  });
+
+  it("fails clearly when a request has no recording", async () => {
+    const cassette: Cassette = {
+      version: 1,
+      interactions: [
+        {
+          request: { method: "POST", url: "https://api.example.com/rate", headers: {}, body: { weight: 5 } },
+          response: { status: 200, headers: {}, body: {} },
+        },
+      ],
+    };
+    const replay = createReplayHttpClient(cassette);
+
+    await expect(
+      replay.request({ method: "GET", url: "https://api.example.com/track/1Z" })
+    ).rejects.toThrow(
+      "Cassette: no recorded response for GET https://api.example.com/track/1Z\n" +
+        "Recorded endpoints: POST https://api.example.com/rate"
+    );
+    await expect(
+      replay.request({ method: "POST", url: "https://api.example.com/rate", body: '{"weight":6}' })
+    ).rejects.toThrow('Request body:  {"weight":6}\nRecorded body: {"weight":5}');
+    expect(() => replay.assertAllPlayed()).toThrow("1 recorded request(s) were never made");
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Circuit breaker tests: state transitions with an injected clock, and the
+ * service failing fast for one carrier while others keep quoting.
+ */
+
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { CarrierIntegrationService } from "./service.js";
+import { CarrierIntegrationError } from "./errors.js";
+import type { RateRequest } from "./domain.js";
+import type { CarrierIntegration } from "./carriers/types.js";
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: {
+    line1: "123 Origin St",
+    city: "Atlanta",
+    stateProvinceCode: "GA",
+    postalCode: "30301",
+    countryCode: "US",
+  },
+  destination: {
+    line1: "456 Dest Ave",
+    city: "New York",
+    stateProvinceCode: "NY",
+    postalCode: "10001",
+    countryCode: "US",
+  },
+  packages: [{ weight: 5, weightUnit: "LBS", dimensionUnit: "IN" }],
+};
+
+const timeout = () =>
+  new CarrierIntegrationError({ code: "TIMEOUT", message: "UPS rate request: timed out" });
+const badRequest = () =>
+  new CarrierIntegrationError({ code: "CARRIER_ERROR", message: "bad request", statusCode: 400 });
+
+const ok = async () => "ok";
+const fail = (err: Error) => async () => {
+  throw err;
+};
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and fails fast until the cooldown", async () => {
+    let clock = 0;
+    const breaker = new CircuitBreaker("ups", {
+      consecutiveFailureThreshold: 3,
+      cooldownMs: 10_000,
+      now: () => clock,
+    });
+
+    for (let i = 0; i < 3; i++) await breaker.execute(fail(timeout())).catch(() => {});
+    expect(breaker.getSnapshot()).toMatchObject({ state: "open", consecutiveFailures: 3 });
+
+    let called = false;
+    clock = 4_000;
+    const err = await breaker
+      .execute(async () => {
+        called = true;
+      })
+      .catch((e) => e);
+    expect(called).toBe(false);
+    expect(err).toMatchObject({
+      code: "CARRIER_UNAVAILABLE",
+      context: { carrierId: "ups", retryAfterMs: 6_000 },
+    });
+  });
+
+  it("half-opens after the cooldown; a successful trial closes the circuit", async () => {
+    let clock = 0;
+    const breaker = new CircuitBreaker("ups", {
+      consecutiveFailureThreshold: 1,
+      cooldownMs: 1_000,
+      now: () => clock,
+    });
+    await breaker.execute(fail(timeout())).catch(() => {});
+
+    clock = 1_000;
+    expect(breaker.getSnapshot().state).toBe("half_open");
+    await expect(breaker.execute(ok)).resolves.toBe("ok");
+    expect(breaker.getSnapshot()).toEqual({
+      state: "closed",
+      consecutiveFailures: 0,
+      failureRate: 0,
+      recentCalls: 0,
+    });
+  });
+
+  it("a failed trial reopens the circuit for another cooldown", async () => {
+    let clock = 0;
+    const breaker = new CircuitBreaker("ups", {
+      consecutiveFailureThreshold: 1,
+      cooldownMs: 1_000,
+      now: () => clock,
+    });
+    await breaker.execute(fail(timeout())).catch(() => {});
+
+    clock = 1_500;
+    await breaker.execute(fail(timeout())).catch(() => {});
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: "open",
+      openedAt: new Date(1_500).toISOString(),
+      retryAt: new Date(2_500).toISOString(),
+    });
+  });
+
+  it("lets only one trial call through while half-open", async () => {
+    let clock = 0;
+    const breaker = new CircuitBreaker("ups", {
+      consecutiveFailureThreshold: 1,
+      cooldownMs: 1_000,
+      now: () => clock,
+    });
+    await breaker.execute(fail(timeout())).catch(() => {});
+    clock = 1_000;
+
+    let finishTrial!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (finishTrial = resolve)));
+    await expect(breaker.execute(ok)).rejects.toMatchObject({ code: "CARRIER_UNAVAILABLE" });
+    finishTrial();
+    await trial;
+    await expect(breaker.execute(ok)).resolves.toBe("ok");
+  });
+
+  it("opens on failure rate once the window has enough calls", async () => {
+    const breaker = new CircuitBreaker("ups", {
+      consecutiveFailureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumCalls: 4,
+      windowSize: 4,
+    });
+
+    await breaker.execute(fail(timeout())).catch(() => {});
+    await breaker.execute(ok);
+    await breaker.execute(fail(timeout())).catch(() => {});
+    expect(breaker.getSnapshot().state).toBe("closed");
+    await breaker.execute(ok);
+    await breaker.execute(fail(timeout())).catch(() => {});
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: "open", failureRate: 0.5, recentCalls: 4 });
+  });
+
+  it("does not count carrier 4xx as a failure", async () => {
+    const breaker = new CircuitBreaker("ups", { consecutiveFailureThreshold: 2 });
+    for (let i = 0; i < 5; i++) await breaker.execute(fail(badRequest())).catch(() => {});
+    expect(breaker.getSnapshot()).toMatchObject({ state: "closed", failureRate: 0 });
+  });
+});
+
+describe("CarrierIntegrationService circuit breaker", () => {
+  function carrier(carrierId: string, execute: CarrierIntegration["execute"]): CarrierIntegration {
+    return { carrierId, supportedOperations: ["rate"], execute };
+  }
+
+  it("reports an open carrier as CARRIER_UNAVAILABLE in getRatesFromAll without calling it", async () => {
+    let upsCalls = 0;
+    const ups = carrier("ups", async () => {
+      upsCalls++;
+      throw timeout();
+    });
+    const fedex = carrier("fedex", async () => ({
+      operation: "rate",
+      result: {
+        quotes: [
+          { carrier: "fedex", serviceCode: "FEDEX_GROUND", serviceName: "Ground", totalCharge: { minorUnits: 1100, currencyCode: "USD" } },
+        ],
+      },
+    }));
+    const service = new CarrierIntegrationService({
+      carriers: [ups, fedex],
+      circuitBreaker: { consecutiveFailureThreshold: 2 },
+    });
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST).catch(() => {});
+    await service.getRates("ups", SAMPLE_RATE_REQUEST).catch(() => {});
+    const result = await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+
+    expect(upsCalls).toBe(2);
+    expect(result.quotes.map((q) => q.carrier)).toEqual(["fedex"]);
+    expect(result.errors).toEqual([
+      { carrierId: "ups", error: expect.objectContaining({ code: "CARRIER_UNAVAILABLE" }) },
+    ]);
+    expect(service.getCircuitStates()).toMatchObject({
+      ups: { state: "open", consecutiveFailures: 2 },
+      fedex: { state: "closed" },
+    });
+  });
+
+  it("has no breakers unless configured", async () => {
+    const service = new CarrierIntegrationService({
+      carriers: [carrier("ups", async () => Promise.reject(timeout()))],
+    });
+    for (let i = 0; i < 10; i++) {
+      await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+        code: "TIMEOUT",
+      });
+    }
+    expect(service.getCircuitStates()).toEqual({});
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Per-carrier circuit breaker. After repeated carrier failures the circuit
+ * opens and calls fail fast with CARRIER_UNAVAILABLE instead of each waiting
+ * out a timeout; after a cooldown one trial call decides whether it closes.
+ */
+
+import {
+  CarrierIntegrationError,
+  isCarrierIntegrationError,
+  type ErrorCode,
+} from "./errors.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** Open after this many failures in a row */
+  consecutiveFailureThreshold: number;
+  /** Open when at least this share (0–1) of the calls in the window failed */
+  failureRateThreshold: number;
+  /** Calls needed in the window before failureRateThreshold applies */
+  minimumCalls: number;
+  /** Number of most recent calls the failure rate is computed over */
+  windowSize: number;
+  /** How long the circuit stays open before a trial call is let through */
+  cooldownMs: number;
+  /** Test seam */
+  now?: () => number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  consecutiveFailureThreshold: 5,
+  failureRateThreshold: 0.5,
+  minimumCalls: 10,
+  windowSize: 20,
+  cooldownMs: 30_000,
+};
+
+/** Point-in-time view of a breaker, for dashboards and health checks. */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failure share of the calls in the window; 0 when there are none */
+  failureRate: number;
+  /** Calls in the window */
+  recentCalls: number;
+  /** When the circuit last opened (ISO 8601); absent while closed */
+  openedAt?: string;
+  /** When an open circuit lets a trial call through (ISO 8601) */
+  retryAt?: string;
+}
+
+/**
+ * Failures that say the carrier is unhealthy: outages, timeouts, 5xx and rate
+ * limiting. Rejected input, auth problems and carrier 4xx are answers from a
+ * working carrier and count as successes.
+ */
+const CARRIER_FAILURE_CODES: ReadonlySet<ErrorCode> = new Set([
+  "RATE_LIMITED",
+  "NETWORK_ERROR",
+  "TIMEOUT",
+  "MALFORMED_RESPONSE",
+]);
+
+export function isCarrierFailure(err: unknown): boolean {
+  if (!isCarrierIntegrationError(err)) return true;
+  if (CARRIER_FAILURE_CODES.has(err.code)) return true;
+  return err.statusCode != null && err.statusCode >= 500;
+}
+
+export class CircuitBreaker {
+  private readonly carrierId: string;
+  private readonly options: CircuitBreakerOptions;
+  private readonly now: () => number;
+  private state: CircuitState = "closed";
+  /** true = failure, oldest first */
+  private window: boolean[] = [];
+  private consecutiveFailures = 0;
+  private openedAtMs: number | undefined;
+  private trialInFlight = false;
+
+  constructor(carrierId: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.carrierId = carrierId;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    this.now = this.options.now ?? Date.now;
+  }
+
+  /**
+   * Run fn unless the circuit is open. While half-open only one trial call is
+   * let through; concurrent calls fail fast until it settles.
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.admit();
+    const isTrial = this.state === "half_open";
+    if (isTrial) this.trialInFlight = true;
+    try {
+      const result = await fn();
+      this.record(false);
+      return result;
+    } catch (err) {
+      this.record(isCarrierFailure(err));
+      throw err;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+    const failures = this.window.filter(Boolean).length;
+    const snapshot: CircuitBreakerSnapshot = {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureRate: this.window.length ? failures / this.window.length : 0,
+      recentCalls: this.window.length,
+    };
+    if (this.openedAtMs != null) {
+      snapshot.openedAt = new Date(this.openedAtMs).toISOString();
+      snapshot.retryAt = new Date(this.retryAtMs()).toISOString();
+    }
+    return snapshot;
+  }
+
+  private admit(): void {
+    this.refreshState();
+    if (this.state === "closed") return;
+    if (this.state === "half_open" && !this.trialInFlight) return;
+
+    const retryAfterMs = Math.max(0, this.retryAtMs() - this.now());
+    throw new CarrierIntegrationError({
+      code: "CARRIER_UNAVAILABLE",
+      message: `Carrier ${this.carrierId} is unavailable (circuit ${this.state}); try again later`,
+      context: { carrierId: this.carrierId, retryAfterMs, circuit: this.getSnapshot() },
+    });
+  }
+
+  /** An open circuit becomes half-open once the cooldown has passed. */
+  private refreshState(): void {
+    if (this.state === "open" && this.now() >= this.retryAtMs()) {
+      this.state = "half_open";
+    }
+  }
+
+  private retryAtMs(): number {
+    return (this.openedAtMs ?? this.now()) + this.options.cooldownMs;
+  }
+
+  private record(failed: boolean): void {
+    if (this.state === "half_open") {
+      if (failed) {
+        this.consecutiveFailures += 1;
+        this.open();
+      } else {
+        this.close();
+      }
+      return;
+    }
+
+    this.window.push(failed);
+    if (this.window.length > this.options.windowSize) this.window.shift();
+    this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+    if (this.state === "closed" && failed && this.shouldOpen()) this.open();
+  }
+
+  private shouldOpen(): boolean {
+    const { consecutiveFailureThreshold, failureRateThreshold, minimumCalls } = this.options;
+    if (this.consecutiveFailures >= consecutiveFailureThreshold) return true;
+    if (this.window.length < minimumCalls) return false;
+    const failures = this.window.filter(Boolean).length;
+    return failures / this.window.length >= failureRateThreshold;
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAtMs = this.now();
+  }
+
+  private close(): void {
+    this.state = "closed";
+    this.window = [];
+    this.consecutiveFailures = 0;
+    this.openedAtMs = undefined;
+  }
+}
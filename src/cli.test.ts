@@ -0,0 +1,152 @@
+/**
+ * CLI tests: runCli() with UPS configured through env vars, stubbed HTTP and
+ * captured stdout/stderr.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli, CLI_EXIT_CODES } from "./cli.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import type { RateRequest, RateResponse } from "./domain.js";
+import type { ErrorBody } from "./server.js";
+
+const UPS_OAUTH_SUCCESS = { access_token: "test_token_abc123", expires_in: 3600 };
+
+const UPS_RATE_SUCCESS = {
+  RateResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Name: "Ground" },
+        TotalCharges: { MonetaryValue: "12.50", CurrencyCode: "USD" },
+        GuaranteedDelivery: { BusinessDaysInTransit: "3" },
+      },
+    ],
+  },
+};
+
+const ADDRESS_FLAGS = [
+  "--from-line1", "123 Origin St", "--from-city", "Atlanta", "--from-state", "GA", "--from-postal", "30301",
+  "--to-line1", "456 Dest Ave", "--to-city", "New York", "--to-state", "NY", "--to-postal", "10001",
+];
+
+describe("CLI", () => {
+  let stub: ReturnType<typeof createStubHttpClient>;
+  let stdout: string;
+  let stderr: string;
+
+  function run(...argv: string[]) {
+    return runCli(argv, {
+      http: stub,
+      stdout: (text) => void (stdout += text),
+      stderr: (text) => void (stderr += text),
+    });
+  }
+
+  beforeEach(() => {
+    stub = createStubHttpClient();
+    stdout = "";
+    stderr = "";
+    vi.stubEnv("UPS_CLIENT_ID", "test_client");
+    vi.stubEnv("UPS_CLIENT_SECRET", "test_secret");
+    vi.stubEnv("FEDEX_CLIENT_ID", "");
+    vi.stubEnv("USPS_CLIENT_ID", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rates builds the request from flags and prints a table", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    const code = await run("rates", "--carrier", "ups", ...ADDRESS_FLAGS, "--package", "5:10x8x6");
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      "CARRIER  SERVICE  CODE  PRICE      DAYS\n" + "ups      Ground   03    12.50 USD  3\n"
+    );
+    const rateBody = JSON.parse(stub.getRequests()[1].body ?? "{}");
+    expect(rateBody.RateRequest.Shipment.Package[0]).toMatchObject({
+      Dimensions: { Length: "10", Width: "8", Height: "6" },
+    });
+  });
+
+  it("rates reads a JSON file and prints JSON for every configured carrier", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cli-test-"));
+    const request: RateRequest = {
+      origin: { line1: "1 A St", city: "Atlanta", postalCode: "30301", countryCode: "US" },
+      destination: { line1: "2 B Ave", city: "New York", postalCode: "10001", countryCode: "US" },
+      packages: [{ weight: 2, weightUnit: "KGS", dimensionUnit: "CM" }],
+    };
+    await writeFile(join(dir, "request.json"), JSON.stringify(request));
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    try {
+      const code = await run("rates", "--file", join(dir, "request.json"), "--json");
+
+      expect(code).toBe(0);
+      const body = JSON.parse(stdout) as RateResponse & { errors: unknown[] };
+      expect(body.quotes).toMatchObject([{ carrier: "ups", totalCharge: { minorUnits: 1250, currencyCode: "USD" } }]);
+      expect(body.errors).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("prints the error code and exits with its code on invalid input", async () => {
+    const code = await run("rates", "--carrier", "ups", ...ADDRESS_FLAGS, "--package", "heavy");
+
+    expect(code).toBe(CLI_EXIT_CODES.VALIDATION_ERROR);
+    expect(stderr).toMatch(/^error: VALIDATION_ERROR: /);
+    expect(stub.getRequests()).toHaveLength(0);
+  });
+
+  it("prints errors as JSON with --json and rejects unknown options", async () => {
+    stub.stubNextReject(new Error("ECONNRESET"));
+
+    const code = await run("rates", "--carrier", "ups", ...ADDRESS_FLAGS, "--package", "5", "--json");
+
+    expect(code).toBe(CLI_EXIT_CODES.NETWORK_ERROR);
+    expect((JSON.parse(stdout) as ErrorBody).error.code).toBe("NETWORK_ERROR");
+    expect(await run("rates", "--weight", "5")).toBe(CLI_EXIT_CODES.VALIDATION_ERROR);
+  });
+
+  it("rates applies --timeout to a single carrier too", async () => {
+    const code = await runCli(["rates", "--carrier", "ups", ...ADDRESS_FLAGS, "--package", "5", "--timeout", "20"], {
+      http: { request: () => new Promise(() => {}) },
+      stdout: (text) => void (stdout += text),
+      stderr: (text) => void (stderr += text),
+    });
+
+    expect(code).toBe(CLI_EXIT_CODES.TIMEOUT);
+    expect(stderr).toBe("error: TIMEOUT: Carrier ups did not respond within 20ms\n");
+  });
+
+  it("carriers lists only carriers with credentials", async () => {
+    expect(await run("carriers", "--json")).toBe(0);
+
+    expect(JSON.parse(stdout)).toEqual({
+      carriers: [
+        { carrierId: "ups", supportedOperations: ["rate", "label", "tracking", "address_validation"] },
+      ],
+    });
+  });
+
+  it("auth check reports each carrier and exits with AUTH_FAILED on bad credentials", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    expect(await run("auth", "check")).toBe(0);
+    expect(stdout).toBe("CARRIER  AUTH\nups      ok\n");
+
+    stdout = "";
+    stub.stubNext({ status: 401, body: { error: "invalid_client" } });
+    const code = await run("auth", "check", "--carrier", "ups");
+
+    expect(code).toBe(CLI_EXIT_CODES.AUTH_FAILED);
+    expect(stdout).toMatch(/^ups\s+AUTH_FAILED \(HTTP 401\): /m);
+  });
+});
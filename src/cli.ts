@@ -0,0 +1,425 @@
+/**
+ * Command-line interface: quote rates, list configured carriers and check
+ * credentials from the terminal. Carriers are configured from the same
+ * environment variables as the library (see env.example).
+ *
+ * Exit codes are distinct per ErrorCode (CLI_EXIT_CODES) so scripts can tell
+ * a bad request from an auth problem or an outage.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { CarrierIntegrationService, type MultiCarrierRateResponse } from "./service.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { FedexCarrier } from "./carriers/fedex/fedex-carrier.js";
+import { UspsCarrier } from "./carriers/usps/usps-carrier.js";
+import { UpsOAuthClient } from "./auth/ups-oauth.js";
+import { FedexOAuthClient } from "./auth/fedex-oauth.js";
+import { UspsOAuthClient } from "./auth/usps-oauth.js";
+import type { CarrierIntegration } from "./carriers/types.js";
+import {
+  getFedexConfig,
+  getUpsConfig,
+  getUspsConfig,
+  validateFedexConfig,
+  validateUpsConfig,
+  validateUspsConfig,
+} from "./config.js";
+import { createFetchHttpClient, type HttpClient } from "./http-client.js";
+import type { RateQuote, RateResponse } from "./domain.js";
+import {
+  CarrierIntegrationError,
+  isCarrierIntegrationError,
+  type ErrorCode,
+} from "./errors.js";
+import { toErrorBody, withClientErrors, type ErrorBody } from "./server.js";
+import { createJsonLogger } from "./logger.js";
+import { createLoggingHttpClient } from "./logging-http-client.js";
+import { toDecimalString } from "./money.js";
+
+export interface CliDeps {
+  /** Defaults to the fetch-based client */
+  http?: HttpClient;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/** Process exit code per error code; 0 is success. */
+export const CLI_EXIT_CODES: Record<ErrorCode, number> = {
+  UNKNOWN: 1,
+  VALIDATION_ERROR: 2,
+  AUTH_FAILED: 3,
+  AUTH_TOKEN_EXPIRED: 4,
+  RATE_LIMITED: 5,
+  NETWORK_ERROR: 6,
+  TIMEOUT: 7,
+  CARRIER_ERROR: 8,
+  MALFORMED_RESPONSE: 9,
+  CARRIER_UNAVAILABLE: 10,
+  CONFIG_ERROR: 11,
+};
+
+const USAGE = `Usage: carrier-integration <command> [options]
+
+Commands:
+  rates        Quote rates from one carrier (--carrier) or every configured carrier
+  carriers     List configured carriers and their operations
+  auth check   Fetch an OAuth token from each configured carrier
+
+Rate options:
+  --file <path>                 Read the RateRequest JSON from a file
+  --from-line1, --from-city, --from-state, --from-postal, --from-country
+  --to-line1, --to-city, --to-state, --to-postal, --to-country
+                                Origin and destination (country defaults to US)
+  --package <weight[:LxWxH]>    Package weight and optional dimensions; repeatable
+  --weight-unit <LBS|KGS>       Unit for every --package weight (default LBS)
+  --dim-unit <IN|CM>            Unit for every --package dimension (default IN)
+  --service <code>              Restrict to one carrier service code
+  --ship-date <YYYY-MM-DD>      Ship date; adds estimated delivery dates where supported
+  --carrier <id>                Carrier to quote or check (default: all configured)
+  --timeout <ms>                Per-carrier time limit for rates
+
+Output:
+  --json                        Print JSON instead of a table
+  --verbose                     Log carrier requests and responses to stderr (secrets redacted)
+  --help                        Show this help
+`;
+
+interface AuthCheckResult {
+  carrierId: string;
+  ok: boolean;
+  error?: ErrorBody["error"];
+}
+
+interface ConfiguredCarrier {
+  carrier: CarrierIntegration;
+  /** Request a fresh OAuth token; throws on bad credentials */
+  checkAuth: () => Promise<void>;
+}
+
+/** Run the CLI with argv (without node and script path) and return the exit code. */
+export async function runCli(argv: string[], deps: CliDeps): Promise<number> {
+  let json = false;
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        file: { type: "string" },
+        "from-line1": { type: "string" },
+        "from-city": { type: "string" },
+        "from-state": { type: "string" },
+        "from-postal": { type: "string" },
+        "from-country": { type: "string", default: "US" },
+        "to-line1": { type: "string" },
+        "to-city": { type: "string" },
+        "to-state": { type: "string" },
+        "to-postal": { type: "string" },
+        "to-country": { type: "string", default: "US" },
+        package: { type: "string", multiple: true },
+        "weight-unit": { type: "string", default: "LBS" },
+        "dim-unit": { type: "string", default: "IN" },
+        service: { type: "string" },
+        "ship-date": { type: "string" },
+        carrier: { type: "string" },
+        timeout: { type: "string" },
+        json: { type: "boolean", default: false },
+        verbose: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    });
+    json = values.json ?? false;
+
+    const command = positionals.join(" ");
+    if (values.help || command === "") {
+      (values.help ? deps.stdout : deps.stderr)(USAGE);
+      return values.help ? 0 : CLI_EXIT_CODES.VALIDATION_ERROR;
+    }
+
+    const baseHttp = deps.http ?? createFetchHttpClient();
+    const http = values.verbose
+      ? createLoggingHttpClient(baseHttp, {
+          logger: createJsonLogger({ level: "debug", write: (line) => deps.stderr(`${line}\n`) }),
+        })
+      : baseHttp;
+    const configured = configuredCarriers(http);
+
+    switch (command) {
+      case "rates": {
+        const request = values.file
+          ? await readRequestFile(values.file)
+          : rateRequestFromFlags(values);
+        const service = new CarrierIntegrationService({
+          carriers: [...configured.values()].map((c) => c.carrier),
+        });
+        return await quoteRates(service, request, values.carrier, values.timeout, json, deps);
+      }
+      case "carriers":
+        return listCarriers(configured, json, deps);
+      case "auth check":
+        return await checkAuth(configured, values.carrier, json, deps);
+      default:
+        throw usageError(`Unknown command: ${command}`);
+    }
+  } catch (err) {
+    return reportError(toCliError(err), json, deps);
+  }
+}
+
+/** Carriers whose credentials are present in the environment. */
+function configuredCarriers(http: HttpClient): Map<string, ConfiguredCarrier> {
+  const carriers = new Map<string, ConfiguredCarrier>();
+
+  const ups = getUpsConfig();
+  if (isValid(() => validateUpsConfig(ups))) {
+    const oauth = new UpsOAuthClient(ups, http);
+    carriers.set("ups", {
+      carrier: new UpsCarrier({ config: ups, http }),
+      checkAuth: async () => void (await oauth.getValidToken()),
+    });
+  }
+
+  const fedex = getFedexConfig();
+  if (isValid(() => validateFedexConfig(fedex))) {
+    const oauth = new FedexOAuthClient(fedex, http);
+    carriers.set("fedex", {
+      carrier: new FedexCarrier({ config: fedex, http }),
+      checkAuth: async () => void (await oauth.getValidToken()),
+    });
+  }
+
+  const usps = getUspsConfig();
+  if (isValid(() => validateUspsConfig(usps))) {
+    const oauth = new UspsOAuthClient(usps, http);
+    carriers.set("usps", {
+      carrier: new UspsCarrier({ config: usps, http }),
+      checkAuth: async () => void (await oauth.getValidToken()),
+    });
+  }
+
+  return carriers;
+}
+
+function isValid(validate: () => void): boolean {
+  try {
+    validate();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function quoteRates(
+  service: CarrierIntegrationService,
+  request: unknown,
+  carrierId: string | undefined,
+  timeout: string | undefined,
+  json: boolean,
+  deps: CliDeps
+): Promise<number> {
+  const timeoutMs = timeout ? parseTimeoutMs(timeout) : undefined;
+  if (carrierId) {
+    const response = await service.getRates(carrierId, request, { timeoutMs });
+    deps.stdout(json ? toJson(response) : formatQuotes(response.quotes));
+    return 0;
+  }
+
+  if (service.getCarriersWithRates().length === 0) {
+    throw noCarriersError();
+  }
+  const response = await service.getRatesFromAll(request, { timeoutMs });
+  if (json) {
+    deps.stdout(toJson(withClientErrors(response)));
+  } else {
+    deps.stdout(formatQuotes(response.quotes));
+    for (const { carrierId: failed, error } of response.errors) {
+      deps.stderr(`${failed}: ${formatError(error)}\n`);
+    }
+  }
+  // Partial results are a success; fail only when no carrier could quote.
+  const firstError = response.errors[0]?.error;
+  return response.quotes.length === 0 && firstError ? CLI_EXIT_CODES[firstError.code] : 0;
+}
+
+function listCarriers(
+  configured: Map<string, ConfiguredCarrier>,
+  json: boolean,
+  deps: CliDeps
+): number {
+  const carriers = [...configured.values()].map(({ carrier }) => ({
+    carrierId: carrier.carrierId,
+    supportedOperations: [...carrier.supportedOperations],
+  }));
+  if (json) {
+    deps.stdout(toJson({ carriers }));
+  } else if (carriers.length === 0) {
+    deps.stdout("No carriers configured; set credentials in .env (see env.example).\n");
+  } else {
+    deps.stdout(
+      formatTable(
+        ["CARRIER", "OPERATIONS"],
+        carriers.map((c) => [c.carrierId, c.supportedOperations.join(", ")])
+      )
+    );
+  }
+  return 0;
+}
+
+async function checkAuth(
+  configured: Map<string, ConfiguredCarrier>,
+  carrierId: string | undefined,
+  json: boolean,
+  deps: CliDeps
+): Promise<number> {
+  const ids = carrierId ? [carrierId] : [...configured.keys()];
+  if (ids.length === 0) throw noCarriersError();
+
+  const results: AuthCheckResult[] = [];
+  for (const id of ids) {
+    const entry = configured.get(id);
+    if (!entry) {
+      throw usageError(`Carrier ${id} is not configured`, { configured: [...configured.keys()] });
+    }
+    try {
+      await entry.checkAuth();
+      results.push({ carrierId: id, ok: true });
+    } catch (err) {
+      results.push({ carrierId: id, ok: false, error: toErrorBody(toCliError(err)).error });
+    }
+  }
+
+  if (json) {
+    deps.stdout(toJson({ results }));
+  } else {
+    deps.stdout(
+      formatTable(
+        ["CARRIER", "AUTH"],
+        results.map((r) => [r.carrierId, r.error ? formatError(r.error) : "ok"])
+      )
+    );
+  }
+  const failed = results.find((r) => !r.ok);
+  return failed?.error ? CLI_EXIT_CODES[failed.error.code] : 0;
+}
+
+type RateFlags = Record<string, string | string[] | boolean | undefined>;
+
+/** Build a raw RateRequest from flags; the service validates it. */
+function rateRequestFromFlags(values: RateFlags): unknown {
+  const flag = (name: string) => values[name] as string | undefined;
+  const address = (prefix: "from" | "to") => ({
+    line1: flag(`${prefix}-line1`),
+    city: flag(`${prefix}-city`),
+    stateProvinceCode: flag(`${prefix}-state`),
+    postalCode: flag(`${prefix}-postal`),
+    countryCode: flag(`${prefix}-country`),
+  });
+  const packages = ((values.package as string[] | undefined) ?? []).map((spec) =>
+    parsePackage(spec, flag("weight-unit"), flag("dim-unit"))
+  );
+  return {
+    origin: address("from"),
+    destination: address("to"),
+    packages,
+    serviceCode: flag("service"),
+    shipDate: flag("ship-date"),
+  };
+}
+
+/** "5" or "5:10x8x6"; malformed numbers become NaN and fail validation. */
+function parsePackage(spec: string, weightUnit: string | undefined, dimensionUnit: string | undefined) {
+  const [weight, dims] = spec.split(":");
+  const [length, width, height] = dims ? dims.split("x").map(Number) : [];
+  return { weight: Number(weight), weightUnit, length, width, height, dimensionUnit };
+}
+
+function parseTimeoutMs(value: string): number {
+  const timeoutMs = Number(value);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw usageError("--timeout must be a positive integer (milliseconds)");
+  }
+  return timeoutMs;
+}
+
+async function readRequestFile(path: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch (err) {
+    throw usageError(`Cannot read ${path}: ${(err as Error).message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw usageError(`${path} is not valid JSON`);
+  }
+}
+
+/** ARRIVES appears only when some quote has an estimated delivery date. */
+function formatQuotes(quotes: RateQuote[]): string {
+  if (quotes.length === 0) return "No quotes.\n";
+  const arrivals = quotes.some((q) => q.estimatedDelivery);
+  const arrives = (q: RateQuote) =>
+    q.estimatedDelivery
+      ? [q.estimatedDelivery, q.deliveryByTime, q.guaranteed ? "(guaranteed)" : ""].filter(Boolean).join(" ")
+      : "-";
+  return formatTable(
+    ["CARRIER", "SERVICE", "CODE", "PRICE", "DAYS", ...(arrivals ? ["ARRIVES"] : [])],
+    quotes.map((q) => [
+      q.carrier,
+      q.serviceName,
+      q.serviceCode,
+      `${toDecimalString(q.totalCharge)} ${q.totalCharge.currencyCode}`,
+      q.transitDays != null ? String(q.transitDays) : "-",
+      ...(arrivals ? [arrives(q)] : []),
+    ])
+  );
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+  return [line(headers), ...rows.map(line)].join("\n") + "\n";
+}
+
+function formatError(error: ErrorBody["error"]): string {
+  const details = [
+    error.statusCode != null ? `HTTP ${error.statusCode}` : undefined,
+    error.carrierCode ? `carrier code ${error.carrierCode}` : undefined,
+  ].filter(Boolean);
+  const suffix = details.length ? ` (${details.join(", ")})` : "";
+  return `${error.code}${suffix}: ${error.message}`;
+}
+
+function reportError(err: CarrierIntegrationError, json: boolean, deps: CliDeps): number {
+  if (json) deps.stdout(toJson(toErrorBody(err)));
+  else deps.stderr(`error: ${formatError(err)}\n`);
+  return CLI_EXIT_CODES[err.code];
+}
+
+function toCliError(err: unknown): CarrierIntegrationError {
+  if (isCarrierIntegrationError(err)) return err;
+  // parseArgs rejects unknown or malformed options with ERR_PARSE_ARGS_* codes.
+  const code = (err as { code?: unknown })?.code;
+  if (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS")) {
+    return usageError((err as Error).message);
+  }
+  return new CarrierIntegrationError({
+    code: "UNKNOWN",
+    message: err instanceof Error ? err.message : String(err),
+    cause: err,
+  });
+}
+
+function usageError(message: string, context?: Record<string, unknown>): CarrierIntegrationError {
+  return new CarrierIntegrationError({ code: "VALIDATION_ERROR", message, context });
+}
+
+function noCarriersError(): CarrierIntegrationError {
+  return usageError("No carriers configured; set credentials in .env (see env.example)");
+}
+
+function toJson(value: RateResponse | MultiCarrierRateResponse | object): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
@@ -52,3 +52,85 @@ export function validateUpsConfig(config: UpsConfig): void {
     );
   }
 }
+
+export interface FedexConfig {
+  clientId: string;
+  clientSecret: string;
+  /** FedEx account number; required by the Rate API and used for account (discounted) rates */
+  accountNumber: string;
+  apiBaseUrl: string;
+  oauthTokenUrl: string;
+  requestTimeoutMs: number;
+  oauthTimeoutMs: number;
+  /** Refresh token this many seconds before expiry */
+  oauthRefreshBufferSeconds: number;
+}
+
+export function getFedexConfig(): FedexConfig {
+  const apiBaseUrl = env("FEDEX_API_BASE_URL") ?? "https://apis.fedex.com";
+  const oauthTokenUrl = env("FEDEX_OAUTH_TOKEN_URL") ?? `${apiBaseUrl}/oauth/token`;
+
+  return {
+    clientId: env("FEDEX_CLIENT_ID") ?? "",
+    clientSecret: env("FEDEX_CLIENT_SECRET") ?? "",
+    accountNumber: env("FEDEX_ACCOUNT_NUMBER") ?? "",
+    apiBaseUrl,
+    oauthTokenUrl,
+    requestTimeoutMs: envNumber("HTTP_TIMEOUT_MS", 15_000),
+    oauthTimeoutMs: envNumber("OAUTH_TIMEOUT_MS", 10_000),
+    oauthRefreshBufferSeconds: envNumber("OAUTH_REFRESH_BUFFER_SECONDS", 60),
+  };
+}
+
+/** Validate that FedEx credentials and account are present (for runtime use). */
+export function validateFedexConfig(config: FedexConfig): void {
+  if (
+    !config.clientId?.trim() ||
+    !config.clientSecret?.trim() ||
+    !config.accountNumber?.trim()
+  ) {
+    throw new Error(
+      "FEDEX_CLIENT_ID, FEDEX_CLIENT_SECRET and FEDEX_ACCOUNT_NUMBER must be set for FedEx carrier. " +
+        "See env.example for required variables."
+    );
+  }
+}
+
+export interface UspsConfig {
+  clientId: string;
+  clientSecret: string;
+  apiBaseUrl: string;
+  oauthTokenUrl: string;
+  /** RETAIL (counter prices) or COMMERCIAL (discounted, for eligible shippers) */
+  priceType: "RETAIL" | "COMMERCIAL";
+  requestTimeoutMs: number;
+  oauthTimeoutMs: number;
+  /** Refresh token this many seconds before expiry */
+  oauthRefreshBufferSeconds: number;
+}
+
+export function getUspsConfig(): UspsConfig {
+  const apiBaseUrl = env("USPS_API_BASE_URL") ?? "https://apis.usps.com";
+  const oauthTokenUrl = env("USPS_OAUTH_TOKEN_URL") ?? `${apiBaseUrl}/oauth2/v3/token`;
+
+  return {
+    clientId: env("USPS_CLIENT_ID") ?? "",
+    clientSecret: env("USPS_CLIENT_SECRET") ?? "",
+    apiBaseUrl,
+    oauthTokenUrl,
+    priceType: env("USPS_PRICE_TYPE") === "COMMERCIAL" ? "COMMERCIAL" : "RETAIL",
+    requestTimeoutMs: envNumber("HTTP_TIMEOUT_MS", 15_000),
+    oauthTimeoutMs: envNumber("OAUTH_TIMEOUT_MS", 10_000),
+    oauthRefreshBufferSeconds: envNumber("OAUTH_REFRESH_BUFFER_SECONDS", 60),
+  };
+}
+
+/** Validate that USPS credentials are present (for runtime use). */
+export function validateUspsConfig(config: UspsConfig): void {
+  if (!config.clientId?.trim() || !config.clientSecret?.trim()) {
+    throw new Error(
+      "USPS_CLIENT_ID and USPS_CLIENT_SECRET must be set for USPS carrier. " +
+        "See env.example for required variables."
+    );
+  }
+}
@@ -17,6 +17,38 @@ export const AddressSchema = z.object({
 });
 export type Address = z.infer<typeof AddressSchema>;
 
+// --- Service options (accessorials) ---
+export const CurrencyAmountSchema = z.object({
+  amount: z.number().positive(),
+  currencyCode: z.string().length(3, "Currency code must be 3 letters (ISO 4217)"),
+});
+export type CurrencyAmount = z.infer<typeof CurrencyAmountSchema>;
+
+/** Proof of delivery, weakest first; the signature levels need someone to sign */
+export const SignatureOptionSchema = z.enum([
+  "delivery_confirmation",
+  "signature_required",
+  "adult_signature",
+]);
+export type SignatureOption = z.infer<typeof SignatureOptionSchema>;
+
+export const PackageOptionsSchema = z.object({
+  /** Value declared for carrier liability (insurance) */
+  declaredValue: CurrencyAmountSchema.optional(),
+  /** Amount the carrier collects from the recipient on delivery */
+  cod: CurrencyAmountSchema.optional(),
+});
+export type PackageOptions = z.infer<typeof PackageOptionsSchema>;
+
+export const ShipmentOptionsSchema = z.object({
+  /** Destination is a residence; carriers add a residential surcharge */
+  residential: z.boolean().optional(),
+  /** Applies to every package in the shipment */
+  signature: SignatureOptionSchema.optional(),
+  saturdayDelivery: z.boolean().optional(),
+});
+export type ShipmentOptions = z.infer<typeof ShipmentOptionsSchema>;
+
 // --- Package ---
 export const PackageSchema = z.object({
   weight: z.number().positive("Weight must be positive"),
@@ -25,36 +57,349 @@ export const PackageSchema = z.object({
   width: z.number().positive().optional(),
   height: z.number().positive().optional(),
   dimensionUnit: z.enum(["IN", "CM"]).default("IN"),
+  options: PackageOptionsSchema.optional(),
 });
 export type Package = z.infer<typeof PackageSchema>;
 
+// --- Customs (cross-border shipments) ---
+export const CommoditySchema = z.object({
+  description: z.string().min(1, "Commodity description is required").max(35),
+  /** Harmonized System tariff code, 6 to 10 digits without dots */
+  hsCode: z.string().regex(/^\d{6,10}$/, "HS code must be 6 to 10 digits"),
+  quantity: z.number().int().positive(),
+  /** Value of one unit, in the customs currencyCode */
+  unitValue: z.number().positive(),
+  countryOfOrigin: z.string().length(2, "Country of origin must be 2 characters (ISO 3166-1 alpha-2)"),
+});
+export type Commodity = z.infer<typeof CommoditySchema>;
+
+/** Incoterms 2020; DDP means the shipper pays duties and taxes */
+export const IncotermSchema = z.enum([
+  "EXW",
+  "FCA",
+  "CPT",
+  "CIP",
+  "DAP",
+  "DPU",
+  "DDP",
+  "FAS",
+  "FOB",
+  "CFR",
+  "CIF",
+]);
+export type Incoterm = z.infer<typeof IncotermSchema>;
+
+/**
+ * Customs for a cross-border rate request. Commodity lines are validated here
+ * for every carrier, but UPS rating only takes their summed invoice total: the
+ * HS codes and countries of origin are not sent, and the incoterm only decides
+ * whether landed cost is billed to the shipper or the recipient. FedEx gets
+ * each line in customsClearanceDetail; USPS quotes domestic shipments only.
+ */
+export const CustomsSchema = z.discriminatedUnion("contents", [
+  /** Correspondence and papers without commercial value */
+  z.object({ contents: z.literal("documents") }),
+  z.object({
+    contents: z.literal("merchandise"),
+    commodities: z.array(CommoditySchema).min(1, "At least one commodity is required"),
+    currencyCode: z.string().length(3, "Currency code must be 3 letters (ISO 4217)"),
+    incoterm: IncotermSchema,
+  }),
+]);
+export type Customs = z.infer<typeof CustomsSchema>;
+
 // --- Rate request (carrier-agnostic) ---
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
 export const RateRequestSchema = z.object({
   origin: AddressSchema,
   destination: AddressSchema,
   packages: z.array(PackageSchema).min(1, "At least one package is required"),
-  /** Optional: restrict to a specific service level (e.g. "03" for Ground, "07" for Express) */
-  serviceCode: z.string().max(10).optional(),
+  /**
+   * Optional: restrict to a specific service level, in the carrier's own codes
+   * (e.g. UPS "03" for Ground, FedEx "FEDEX_GROUND", USPS "PRIORITY_MAIL")
+   */
+  serviceCode: z.string().max(40).optional(),
+  /** Shipper's account with the carrier; UPS returns negotiated rates for it alongside published ones */
+  shipperAccountNumber: z.string().min(1).max(20).optional(),
+  /** Date the shipment is handed over (YYYY-MM-DD); setting it asks for time in transit and delivery dates */
+  shipDate: isoDate.optional(),
+  /** Carrier pickup date when later than shipDate (YYYY-MM-DD); transit is counted from it */
+  pickupDate: isoDate.optional(),
+  /** Accessorials to price in; carriers reject options they cannot quote */
+  options: ShipmentOptionsSchema.optional(),
+  /** Required when origin and destination countries differ */
+  customs: CustomsSchema.optional(),
+  /** Convert every quote to this currency (ISO 4217) so quotes compare across currencies */
+  targetCurrency: z.string().length(3, "Currency code must be 3 letters (ISO 4217)").toUpperCase().optional(),
+}).superRefine((req, ctx) => {
+  const crossBorder = req.origin.countryCode.toUpperCase() !== req.destination.countryCode.toUpperCase();
+  if (crossBorder && !req.customs) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["customs"],
+      message: 'Customs information is required for international shipments (use { contents: "documents" } for papers)',
+    });
+  }
 });
 export type RateRequest = z.infer<typeof RateRequestSchema>;
 
 // --- Normalized rate quote (what we return to callers) ---
+/**
+ * An exact amount: integer minor units (cents for USD, yen for JPY) plus the
+ * ISO 4217 currency. Add, compare and format with the helpers in money.ts.
+ */
+export const MoneySchema = z.object({
+  minorUnits: z.number().int(),
+  currencyCode: z.string().length(3),
+});
+export type Money = z.infer<typeof MoneySchema>;
+
+/** One line of a quote's itemized charges (base rate, a surcharge, an option fee). */
+export const ChargeLineSchema = z.object({
+  /** Carrier charge code (e.g. UPS "375" for fuel), or BASE / SERVICE_OPTIONS */
+  code: z.string(),
+  description: z.string(),
+  amount: MoneySchema,
+});
+export type ChargeLine = z.infer<typeof ChargeLineSchema>;
+
+/** Duties and taxes on top of the shipping charge, and who the carrier bills for them. */
+export const LandedCostSchema = z.object({
+  charges: z.array(ChargeLineSchema),
+  total: MoneySchema,
+  /** From the incoterm: DDP bills the shipper, every other term the recipient */
+  billedTo: z.enum(["shipper", "recipient"]).optional(),
+});
+export type LandedCost = z.infer<typeof LandedCostSchema>;
+
+/** How a quote was converted to the request's targetCurrency, for audit. */
+export const CurrencyConversionSchema = z.object({
+  /** totalCharge as the carrier quoted it */
+  originalTotalCharge: MoneySchema,
+  /** Target currency units per one unit of the original currency; every amount in that currency used it */
+  rate: z.number().positive(),
+  /** When the rate was published, if the FX provider says */
+  rateAsOf: z.string().optional(),
+});
+export type CurrencyConversion = z.infer<typeof CurrencyConversionSchema>;
+
 export const RateQuoteSchema = z.object({
   carrier: z.string(),
   serviceCode: z.string(),
   serviceName: z.string(),
-  totalCharge: z.number(),
-  currencyCode: z.string(),
+  /** What the shipper pays: the negotiated total when there is one, else the published total */
+  totalCharge: MoneySchema,
+  /** Published (list) total, when the carrier reports it separately */
+  publishedCharge: MoneySchema.optional(),
+  /** Account-specific (negotiated) total, when the carrier returned one */
+  negotiatedCharge: MoneySchema.optional(),
+  /** Published charges line by line, when the carrier itemizes them */
+  charges: z.array(ChargeLineSchema).optional(),
+  /** Estimated duties and taxes for cross-border shipments, when the carrier provides them */
+  landedCost: LandedCostSchema.optional(),
   /** Estimated transit days if provided by carrier */
   transitDays: z.number().optional(),
+  /** Estimated delivery date (YYYY-MM-DD), when the request carried a ship or pickup date */
+  estimatedDelivery: z.string().optional(),
+  /** Delivery commitment time on that date (HH:MM, local to the destination) */
+  deliveryByTime: z.string().optional(),
+  /** True when the carrier guarantees the delivery date, false when it is only an estimate */
+  guaranteed: z.boolean().optional(),
   /** Carrier-specific raw identifier for this service (e.g. UPS service code) */
   carrierServiceId: z.string().optional(),
+  /** Set when the amounts were converted to the request's targetCurrency */
+  conversion: CurrencyConversionSchema.optional(),
 });
 export type RateQuote = z.infer<typeof RateQuoteSchema>;
 
+/** How a rate response relates to the service's quote cache. */
+export const RateCacheInfoSchema = z.object({
+  /** True when the quotes were served from the cache without calling the carrier */
+  hit: z.boolean(),
+  /** When the carrier produced these quotes (ISO 8601) */
+  cachedAt: z.string(),
+});
+export type RateCacheInfo = z.infer<typeof RateCacheInfoSchema>;
+
+/** Surcharge triggers from a package's size and weight */
+export const PackageHandlingSchema = z.enum(["additional_handling", "large_package"]);
+export type PackageHandling = z.infer<typeof PackageHandlingSchema>;
+
+/** How the carrier will weigh and handle one package. */
+export const PackageMeasurementSchema = z.object({
+  /** Greater of actual and dimensional weight, rounded up as carriers bill (whole LBS, half KGS) */
+  billableWeight: z.number(),
+  /** Size-based weight, when the package has dimensions the carrier prices by */
+  dimensionalWeight: z.number().optional(),
+  /** The package's own weight unit */
+  weightUnit: z.enum(["LBS", "KGS"]),
+  handling: z.array(PackageHandlingSchema),
+});
+export type PackageMeasurement = z.infer<typeof PackageMeasurementSchema>;
+
 export const RateResponseSchema = z.object({
   quotes: z.array(RateQuoteSchema),
-  /** Request id or correlation id for support */
+  /** Per package, in request order, for carriers that publish package rules */
+  packages: z.array(PackageMeasurementSchema).optional(),
+  /** Correlation id for support; the service sets it to the id on this call's log entries */
   requestId: z.string().optional(),
+  /** The carrier's own id for the request (e.g. FedEx transactionId), when it returns one */
+  carrierRequestId: z.string().optional(),
+  /** Set only when the service is configured with a quote cache */
+  cache: RateCacheInfoSchema.optional(),
 });
 export type RateResponse = z.infer<typeof RateResponseSchema>;
+
+// --- Shipment / label request (carrier-agnostic) ---
+export const LabelFormatSchema = z.enum(["PDF", "ZPL", "GIF"]);
+export type LabelFormat = z.infer<typeof LabelFormatSchema>;
+
+export const PartySchema = z.object({
+  name: z.string().min(1, "Name is required").max(35),
+  /** Contact person, if different from name */
+  attentionName: z.string().max(35).optional(),
+  phone: z.string().max(15).optional(),
+  email: z.string().email().optional(),
+  address: AddressSchema,
+});
+export type Party = z.infer<typeof PartySchema>;
+
+export const ShipperSchema = PartySchema.extend({
+  /** Carrier account the shipment is billed to */
+  accountNumber: z.string().min(1, "Shipper account number is required"),
+});
+export type Shipper = z.infer<typeof ShipperSchema>;
+
+export const ShipmentRequestSchema = z.object({
+  shipper: ShipperSchema,
+  recipient: PartySchema,
+  /** Pickup location when it differs from the shipper address */
+  shipFrom: PartySchema.optional(),
+  /** Service level to ship with (e.g. "03" for UPS Ground); usually taken from a RateQuote */
+  serviceCode: z.string().min(1, "Service code is required").max(40),
+  packages: z.array(PackageSchema).min(1, "At least one package is required"),
+  /** Printed on the label and carried through to invoices (carriers accept at most two) */
+  referenceNumbers: z.array(z.string().min(1).max(35)).max(2).optional(),
+  labelFormat: LabelFormatSchema.default("GIF"),
+  description: z.string().max(50).optional(),
+});
+export type ShipmentRequest = z.infer<typeof ShipmentRequestSchema>;
+
+// --- Normalized label response ---
+export const PackageLabelSchema = z.object({
+  trackingNumber: z.string(),
+  format: LabelFormatSchema,
+  /** Decoded label image, ready to write to disk or send to a printer */
+  image: z.instanceof(Buffer),
+});
+export type PackageLabel = z.infer<typeof PackageLabelSchema>;
+
+export const LabelResponseSchema = z.object({
+  carrier: z.string(),
+  /** Carrier shipment identifier (UPS: ShipmentIdentificationNumber) */
+  shipmentId: z.string(),
+  /** One label per package, in request order */
+  labels: z.array(PackageLabelSchema),
+  /** Shipment total as billed, when the carrier returned a readable one */
+  totalCharge: MoneySchema.optional(),
+});
+export type LabelResponse = z.infer<typeof LabelResponseSchema>;
+
+// --- Tracking request (carrier-agnostic) ---
+export const TrackingRequestSchema = z.object({
+  trackingNumbers: z
+    .array(z.string().trim().min(1, "Tracking number is required").max(35))
+    .min(1, "At least one tracking number is required")
+    .max(25, "At most 25 tracking numbers per request"),
+});
+export type TrackingRequest = z.infer<typeof TrackingRequestSchema>;
+
+// --- Normalized tracking result ---
+export const TrackingStatusSchema = z.enum([
+  "label_created",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "exception",
+  "returned",
+  // Carrier reported a status we do not map
+  "unknown",
+]);
+export type TrackingStatus = z.infer<typeof TrackingStatusSchema>;
+
+export const TrackingLocationSchema = z.object({
+  city: z.string().optional(),
+  stateProvinceCode: z.string().optional(),
+  postalCode: z.string().optional(),
+  countryCode: z.string().optional(),
+});
+export type TrackingLocation = z.infer<typeof TrackingLocationSchema>;
+
+export const TrackingEventSchema = z.object({
+  /** ISO 8601 local time at the scan location, with UTC offset when the carrier provides it */
+  timestamp: z.string(),
+  status: TrackingStatusSchema,
+  description: z.string(),
+  location: TrackingLocationSchema.optional(),
+  /** Carrier-specific raw status code */
+  carrierStatusCode: z.string().optional(),
+});
+export type TrackingEvent = z.infer<typeof TrackingEventSchema>;
+
+export const TrackingResultSchema = z.object({
+  carrier: z.string(),
+  trackingNumber: z.string(),
+  /** Status of the most recent event */
+  status: TrackingStatusSchema,
+  statusDescription: z.string().optional(),
+  /** Oldest first */
+  events: z.array(TrackingEventSchema),
+  /** Scheduled or rescheduled delivery date (YYYY-MM-DD) if not yet delivered */
+  estimatedDelivery: z.string().optional(),
+  /** Delivery time (ISO 8601) once delivered */
+  deliveredAt: z.string().optional(),
+});
+export type TrackingResult = z.infer<typeof TrackingResultSchema>;
+
+/** A tracking number the carrier rejected; the other numbers still have results */
+export const TrackingErrorSchema = z.object({
+  trackingNumber: z.string(),
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    /** Carrier's own error code, e.g. UPS "TW0001" for an unknown number */
+    carrierCode: z.string().optional(),
+  }),
+});
+export type TrackingError = z.infer<typeof TrackingErrorSchema>;
+
+export const TrackingResponseSchema = z.object({
+  results: z.array(TrackingResultSchema),
+  /** One entry per tracking number the carrier rejected; absent when none was */
+  errors: z.array(TrackingErrorSchema).optional(),
+});
+export type TrackingResponse = z.infer<typeof TrackingResponseSchema>;
+
+// --- Address validation (carrier-agnostic) ---
+export const AddressValidationRequestSchema = z.object({
+  address: AddressSchema,
+});
+export type AddressValidationRequest = z.infer<typeof AddressValidationRequestSchema>;
+
+export const AddressVerdictSchema = z.enum(["valid", "ambiguous", "invalid"]);
+export type AddressVerdict = z.infer<typeof AddressVerdictSchema>;
+
+export const AddressClassificationSchema = z.enum(["residential", "commercial", "unknown"]);
+export type AddressClassification = z.infer<typeof AddressClassificationSchema>;
+
+export const AddressValidationResultSchema = z.object({
+  carrier: z.string(),
+  /** valid: one exact match; ambiguous: several candidates; invalid: no match */
+  verdict: AddressVerdictSchema,
+  /** Residential vs. commercial, for the best candidate (or the input when there is none) */
+  classification: AddressClassificationSchema,
+  /** Corrected/standardized addresses, best match first */
+  candidates: z.array(AddressSchema),
+});
+export type AddressValidationResult = z.infer<typeof AddressValidationResultSchema>;
@@ -12,6 +12,10 @@ export type ErrorCode =
   | "TIMEOUT"
   | "CARRIER_ERROR"
   | "MALFORMED_RESPONSE"
+  /** Circuit breaker is open for the carrier; the call was not attempted */
+  | "CARRIER_UNAVAILABLE"
+  /** The service itself is misconfigured (e.g. an unreadable FX rate file) */
+  | "CONFIG_ERROR"
   | "UNKNOWN";
 
 export interface CarrierIntegrationErrorDetails {
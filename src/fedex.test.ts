@@ -0,0 +1,243 @@
+/**
+ * Integration tests: service + FedEx carrier + stubbed HTTP.
+ * Uses the FedEx fixtures in test-utils (no live API).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { CarrierIntegrationService } from "./service.js";
+import { FedexCarrier } from "./carriers/fedex/fedex-carrier.js";
+import { buildFedexRateRequest, parseFedexRateResponse } from "./carriers/fedex/fedex-rate.js";
+import { getFedexConfig } from "./config.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import {
+  FEDEX_OAUTH_INVALID_CLIENT,
+  FEDEX_OAUTH_SUCCESS,
+  FEDEX_RATE_ACCOUNT_MISMATCH,
+  FEDEX_RATE_SUCCESS,
+} from "./test-utils/fedex-fixtures.js";
+import type { RateRequest } from "./domain.js";
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: {
+    line1: "123 Origin St",
+    city: "Memphis",
+    stateProvinceCode: "TN",
+    postalCode: "38116",
+    countryCode: "US",
+  },
+  destination: {
+    line1: "456 Dest Ave",
+    city: "New York",
+    stateProvinceCode: "NY",
+    postalCode: "10001",
+    countryCode: "US",
+  },
+  packages: [
+    { weight: 5, weightUnit: "LBS", length: 10.5, width: 8, height: 6, dimensionUnit: "IN" },
+  ],
+};
+
+const config = {
+  ...getFedexConfig(),
+  clientId: "fedex_client",
+  clientSecret: "fedex_secret",
+  accountNumber: "740561073",
+  apiBaseUrl: "https://fedex.example.com",
+  oauthTokenUrl: "https://fedex.example.com/oauth/token",
+};
+
+describe("FedexCarrier via CarrierIntegrationService", () => {
+  let stubHttp: ReturnType<typeof createStubHttpClient>;
+  let service: CarrierIntegrationService;
+
+  beforeEach(() => {
+    stubHttp = createStubHttpClient();
+    service = new CarrierIntegrationService({
+      carriers: [new FedexCarrier({ config, http: stubHttp })],
+    });
+  });
+
+  it("authenticates, builds the FedEx request and returns normalized quotes", async () => {
+    stubHttp.stubNext(FEDEX_OAUTH_SUCCESS);
+    stubHttp.stubNext(FEDEX_RATE_SUCCESS);
+
+    const result = await service.getRates("fedex", SAMPLE_RATE_REQUEST);
+
+    expect(result.carrierRequestId).toBe("624deea6-b709-470c-8c39-4b5511281492");
+    expect(result.quotes).toEqual([
+      {
+        carrier: "fedex",
+        serviceCode: "FEDEX_GROUND",
+        serviceName: "FedEx Ground®",
+        totalCharge: { minorUnits: 1187, currencyCode: "USD" },
+        publishedCharge: { minorUnits: 1520, currencyCode: "USD" },
+        negotiatedCharge: { minorUnits: 1187, currencyCode: "USD" },
+        transitDays: 3,
+        carrierServiceId: "FEDEX_GROUND",
+      },
+      {
+        carrier: "fedex",
+        serviceCode: "FEDEX_2_DAY",
+        serviceName: "FedEx 2Day®",
+        totalCharge: { minorUnits: 3378, currencyCode: "USD" },
+        publishedCharge: { minorUnits: 3378, currencyCode: "USD" },
+        transitDays: 2,
+        carrierServiceId: "FEDEX_2_DAY",
+      },
+    ]);
+
+    const [tokenReq, rateReq] = stubHttp.getRequests();
+    expect(tokenReq.url).toBe("https://fedex.example.com/oauth/token");
+    expect(tokenReq.body).toContain("client_id=fedex_client");
+    expect(rateReq.url).toBe("https://fedex.example.com/rate/v1/rates/quotes");
+    const body = JSON.parse(rateReq.body ?? "{}");
+    expect(body.accountNumber).toEqual({ value: "740561073" });
+    expect(body.requestedShipment.requestedPackageLineItems[0].dimensions.length).toBe(11);
+  });
+
+  it("reuses the cached token on the second call", async () => {
+    stubHttp.stubNext(FEDEX_OAUTH_SUCCESS);
+    stubHttp.stubNext(FEDEX_RATE_SUCCESS);
+    stubHttp.stubNext(FEDEX_RATE_SUCCESS);
+
+    await service.getRates("fedex", SAMPLE_RATE_REQUEST);
+    await service.getRates("fedex", SAMPLE_RATE_REQUEST);
+
+    expect(stubHttp.getRequests().filter((r) => r.url.includes("oauth"))).toHaveLength(1);
+  });
+
+  it("replaces a token FedEx rejects with 401 and replays the request once", async () => {
+    stubHttp.stubNext(FEDEX_OAUTH_SUCCESS);
+    stubHttp.stubNext({ status: 401, body: { errors: [{ code: "NOT.AUTHORIZED.ERROR" }] } });
+    stubHttp.stubNext(FEDEX_OAUTH_SUCCESS);
+    stubHttp.stubNext(FEDEX_RATE_SUCCESS);
+
+    const result = await service.getRates("fedex", SAMPLE_RATE_REQUEST);
+
+    expect(result.quotes).toHaveLength(2);
+    expect(stubHttp.getRequests().filter((r) => r.url.includes("oauth"))).toHaveLength(2);
+  });
+
+  it("maps invalid client credentials to AUTH_FAILED", async () => {
+    stubHttp.stubNext(FEDEX_OAUTH_INVALID_CLIENT);
+
+    await expect(service.getRates("fedex", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "AUTH_FAILED",
+      statusCode: 401,
+    });
+  });
+
+  it("maps FedEx error bodies to CARRIER_ERROR with the FedEx code and message", async () => {
+    stubHttp.stubNext(FEDEX_OAUTH_SUCCESS);
+    stubHttp.stubNext(FEDEX_RATE_ACCOUNT_MISMATCH);
+
+    await expect(service.getRates("fedex", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+      statusCode: 400,
+      carrierCode: "ACCOUNT.NUMBER.MISMATCH",
+      message: expect.stringContaining("account number"),
+    });
+  });
+
+  it("rejects operations FedEx does not implement", async () => {
+    await expect(
+      service.track("fedex", { trackingNumbers: ["123456789012"] })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+  });
+});
+
+describe("FedEx request builder and response parser", () => {
+  it("buildFedexRateRequest maps units and requests account rates", () => {
+    const built = buildFedexRateRequest(
+      {
+        ...SAMPLE_RATE_REQUEST,
+        serviceCode: "FEDEX_GROUND",
+        packages: [{ weight: 2, weightUnit: "KGS", dimensionUnit: "CM" }],
+      },
+      "123"
+    );
+    expect(built.requestedShipment?.serviceType).toBe("FEDEX_GROUND");
+    expect(built.requestedShipment?.rateRequestType).toContain("ACCOUNT");
+    expect(built.requestedShipment?.requestedPackageLineItems?.[0]).toEqual({
+      weight: { units: "KG", value: 2 },
+    });
+  });
+
+  it("buildFedexRateRequest maps customs to customsClearanceDetail", () => {
+    const toCanada: RateRequest = {
+      ...SAMPLE_RATE_REQUEST,
+      destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+    };
+    const merchandise = buildFedexRateRequest(
+      {
+        ...toCanada,
+        customs: {
+          contents: "merchandise",
+          commodities: [
+            { description: "Pin", hsCode: "731940", quantity: 3, unitValue: 0.1, countryOfOrigin: "CN" },
+          ],
+          currencyCode: "USD",
+          incoterm: "DDP",
+        },
+      },
+      "123"
+    ).requestedShipment;
+    expect(merchandise?.customsClearanceDetail).toEqual({
+      dutiesPayment: { paymentType: "SENDER" },
+      commodities: [
+        {
+          description: "Pin",
+          harmonizedCode: "731940",
+          countryOfManufacture: "CN",
+          quantity: 3,
+          quantityUnits: "PCS",
+          unitPrice: { amount: 0.1, currency: "USD" },
+          customsValue: { amount: 0.3, currency: "USD" },
+        },
+      ],
+    });
+
+    const documents = buildFedexRateRequest({ ...toCanada, customs: { contents: "documents" } }, "123");
+    expect(documents.requestedShipment).toMatchObject({ documentShipment: true });
+    expect(documents.requestedShipment?.customsClearanceDetail).toBeUndefined();
+  });
+
+  it("buildFedexRateRequest flags residential recipients and rejects other service options", () => {
+    const built = buildFedexRateRequest({ ...SAMPLE_RATE_REQUEST, options: { residential: true } }, "123");
+    expect(built.requestedShipment?.recipient?.address?.residential).toBe(true);
+
+    expect(() =>
+      buildFedexRateRequest(
+        { ...SAMPLE_RATE_REQUEST, options: { residential: true, saturdayDelivery: true } },
+        "123"
+      )
+    ).toThrow(
+      expect.objectContaining({
+        code: "VALIDATION_ERROR",
+        message: "FedEx cannot quote service options: saturdayDelivery",
+      })
+    );
+  });
+
+  it("parseFedexRateResponse falls back to list rates and skips unpriced services", () => {
+    const result = parseFedexRateResponse(
+      {
+        output: {
+          rateReplyDetails: [
+            { serviceType: "PRIORITY_OVERNIGHT", ratedShipmentDetails: [{ rateType: "LIST", totalNetCharge: 80.1 }] },
+            { serviceType: "FIRST_OVERNIGHT", ratedShipmentDetails: [] },
+          ],
+        },
+      },
+      "fedex"
+    );
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0]).toMatchObject({ serviceCode: "PRIORITY_OVERNIGHT", totalCharge: { minorUnits: 8010, currencyCode: "USD" } });
+  });
+
+  it("parseFedexRateResponse throws MALFORMED_RESPONSE without output", () => {
+    expect(() => parseFedexRateResponse({ transactionId: "x" }, "fedex")).toThrow(
+      expect.objectContaining({ code: "MALFORMED_RESPONSE" })
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Currency conversion tests: static and file-loaded rate tables, quote
+ * conversion, and the service converting quotes to a request's targetCurrency.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { convertQuotes, FileFxRateProvider, StaticFxRateProvider } from "./fx.js";
+import { convertMoney } from "./money.js";
+import { CarrierIntegrationService } from "./service.js";
+import type { CarrierIntegration } from "./carriers/types.js";
+import type { RateQuote, RateRequest } from "./domain.js";
+
+const RATES = new StaticFxRateProvider({
+  base: "USD",
+  rates: { CAD: 1.25, EUR: 0.8, JPY: 150 },
+  asOf: "2026-10-19",
+});
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+  destination: { line1: "456 Dest Ave", city: "New York", postalCode: "10001", countryCode: "US" },
+  packages: [{ weight: 2, weightUnit: "KGS", dimensionUnit: "CM" }],
+  customs: { contents: "documents" },
+};
+
+function quote(carrier: string, minorUnits: number, currencyCode: string): RateQuote {
+  return { carrier, serviceCode: "STD", serviceName: "Standard", totalCharge: { minorUnits, currencyCode } };
+}
+
+describe("StaticFxRateProvider", () => {
+  it("quotes base pairs, inverse pairs and crosses through the base", async () => {
+    expect(await RATES.getRate("USD", "EUR")).toEqual({ rate: 0.8, asOf: "2026-10-19" });
+    expect(await RATES.getRate("CAD", "USD")).toEqual({ rate: 0.8, asOf: "2026-10-19" });
+    expect((await RATES.getRate("EUR", "CAD"))?.rate).toBeCloseTo(1.5625, 10);
+    expect(await RATES.getRate("GBP", "USD")).toBeUndefined();
+  });
+});
+
+describe("FileFxRateProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "fx-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads the table and reloads it when the file changes", async () => {
+    const path = join(dir, "rates.json");
+    await writeFile(path, JSON.stringify({ base: "USD", rates: { EUR: 0.8 } }));
+    const provider = new FileFxRateProvider(path);
+    expect(await provider.getRate("USD", "EUR")).toEqual({ rate: 0.8 });
+
+    await writeFile(path, JSON.stringify({ base: "USD", rates: { EUR: 0.9 }, asOf: "2026-10-20" }));
+    const later = new Date(Date.now() + 60_000);
+    await utimes(path, later, later);
+    expect(await provider.getRate("USD", "EUR")).toEqual({ rate: 0.9, asOf: "2026-10-20" });
+  });
+
+  it("rejects invalid tables", async () => {
+    const path = join(dir, "rates.json");
+    await writeFile(path, JSON.stringify({ base: "usd", rates: { EUR: -1 } }));
+    await expect(new FileFxRateProvider(path).getRate("USD", "EUR")).rejects.toThrow(
+      /FX rate file .* is invalid: base: .*; rates\.EUR: /
+    );
+  });
+
+  it("throws CONFIG_ERROR with the path for a missing or unparseable file", async () => {
+    const missing = join(dir, "missing.json");
+    await expect(new FileFxRateProvider(missing).getRate("USD", "EUR")).rejects.toMatchObject({
+      code: "CONFIG_ERROR",
+      context: { path: missing },
+    });
+
+    const garbled = join(dir, "rates.json");
+    await writeFile(garbled, "{ base: USD");
+    await expect(new FileFxRateProvider(garbled).getRate("USD", "EUR")).rejects.toMatchObject({
+      code: "CONFIG_ERROR",
+      message: `FX rate file ${garbled} is not valid JSON`,
+      context: { path: garbled },
+    });
+  });
+});
+
+describe("convertQuotes", () => {
+  it("converts every amount and records the original total and rate", async () => {
+    const cad: RateQuote = {
+      ...quote("ups", 3120, "CAD"),
+      publishedCharge: { minorUnits: 3120, currencyCode: "CAD" },
+      landedCost: {
+        charges: [{ code: "DUTY", description: "Import Duty", amount: { minorUnits: 410, currencyCode: "CAD" } }],
+        total: { minorUnits: 410, currencyCode: "CAD" },
+        billedTo: "recipient",
+      },
+    };
+    const usd = quote("fedex", 2000, "USD");
+
+    const [converted, unchanged] = await convertQuotes([cad, usd], "USD", RATES);
+
+    expect(converted).toEqual({
+      ...cad,
+      totalCharge: { minorUnits: 2496, currencyCode: "USD" },
+      publishedCharge: { minorUnits: 2496, currencyCode: "USD" },
+      landedCost: {
+        charges: [{ code: "DUTY", description: "Import Duty", amount: { minorUnits: 328, currencyCode: "USD" } }],
+        total: { minorUnits: 328, currencyCode: "USD" },
+        billedTo: "recipient",
+      },
+      conversion: { originalTotalCharge: cad.totalCharge, rate: 0.8, rateAsOf: "2026-10-19" },
+    });
+    expect(unchanged).toBe(usd);
+  });
+
+  it("rounds to the target currency's minor unit", () => {
+    expect(convertMoney({ minorUnits: 1000, currencyCode: "USD" }, "JPY", 150)).toEqual({
+      minorUnits: 1500,
+      currencyCode: "JPY",
+    });
+    expect(convertMoney({ minorUnits: 1500, currencyCode: "JPY" }, "USD", 1 / 150)).toEqual({
+      minorUnits: 1000,
+      currencyCode: "USD",
+    });
+    expect(convertMoney({ minorUnits: 125, currencyCode: "EUR" }, "USD", 1.1)).toEqual({
+      minorUnits: 138,
+      currencyCode: "USD",
+    });
+  });
+
+  it("throws VALIDATION_ERROR when the provider has no rate", async () => {
+    await expect(convertQuotes([quote("ups", 1000, "GBP")], "USD", RATES)).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      message: "No exchange rate from GBP to USD",
+    });
+  });
+});
+
+describe("CarrierIntegrationService with targetCurrency", () => {
+  function fakeCarrier(carrierId: string, quotes: RateQuote[]): CarrierIntegration {
+    return {
+      carrierId,
+      supportedOperations: ["rate"],
+      async execute() {
+        return { operation: "rate", result: { quotes } };
+      },
+    };
+  }
+
+  it("converts every carrier's quotes so they sort by price across currencies", async () => {
+    const service = new CarrierIntegrationService({
+      carriers: [fakeCarrier("ups", [quote("ups", 3000, "CAD")]), fakeCarrier("fedex", [quote("fedex", 2500, "USD")])],
+      fxRateProvider: RATES,
+    });
+
+    const result = await service.getRatesFromAll({ ...SAMPLE_RATE_REQUEST, targetCurrency: "usd" });
+
+    expect(result.errors).toEqual([]);
+    expect(result.quotes.map((q) => [q.carrier, q.totalCharge, q.conversion?.originalTotalCharge])).toEqual([
+      ["ups", { minorUnits: 2400, currencyCode: "USD" }, { minorUnits: 3000, currencyCode: "CAD" }],
+      ["fedex", { minorUnits: 2500, currencyCode: "USD" }, undefined],
+    ]);
+  });
+
+  it("rejects a targetCurrency without an FX provider before calling carriers", async () => {
+    let calls = 0;
+    const carrier = fakeCarrier("ups", []);
+    const service = new CarrierIntegrationService({
+      carriers: [{ ...carrier, execute: (op) => (calls++, carrier.execute(op)) }],
+    });
+
+    await expect(service.getRates("ups", { ...SAMPLE_RATE_REQUEST, targetCurrency: "EUR" })).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      message: "targetCurrency needs an fxRateProvider on the service",
+    });
+    await expect(service.getRatesFromAll({ ...SAMPLE_RATE_REQUEST, targetCurrency: "EUR" })).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+    });
+    expect(calls).toBe(0);
+  });
+});
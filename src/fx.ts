@@ -0,0 +1,174 @@
+/**
+ * Currency conversion for rate quotes. Carriers quote in the shipper's or the
+ * destination's currency; with a targetCurrency on the request, the service
+ * converts every quote through an FxRateProvider so quotes can be compared,
+ * and records the original total and the rate on each converted quote.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import { z } from "zod";
+import type { Money, RateQuote } from "./domain.js";
+import { CarrierIntegrationError } from "./errors.js";
+import { convertMoney } from "./money.js";
+
+export interface FxRate {
+  /** Units of the target currency per one unit of the source currency */
+  rate: number;
+  /** When the rate was published (e.g. ISO 8601 date) */
+  asOf?: string;
+}
+
+/**
+ * Source of exchange rates. Implement it over a rates API or a database
+ * table; StaticFxRateProvider and FileFxRateProvider cover fixed tables.
+ */
+export interface FxRateProvider {
+  /** Rate from one ISO 4217 currency to another; undefined when unknown */
+  getRate(from: string, to: string): Promise<FxRate | undefined>;
+}
+
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, "Currency code must be 3 uppercase letters (ISO 4217)");
+
+/** Rates against one base currency: `rates.EUR` is how many EUR one `base` buys. */
+export const FxRateTableSchema = z.object({
+  base: currencyCode,
+  rates: z.record(currencyCode, z.number().positive()),
+  asOf: z.string().optional(),
+});
+export type FxRateTable = z.infer<typeof FxRateTableSchema>;
+
+/** Fixed rates from a table; pairs without the base currency cross through it. */
+export class StaticFxRateProvider implements FxRateProvider {
+  private readonly table: FxRateTable;
+
+  constructor(table: FxRateTable) {
+    this.table = FxRateTableSchema.parse(table);
+  }
+
+  async getRate(from: string, to: string): Promise<FxRate | undefined> {
+    if (from === to) return { rate: 1, asOf: this.table.asOf };
+    const perBase = (code: string) => (code === this.table.base ? 1 : this.table.rates[code]);
+    const fromPerBase = perBase(from);
+    const toPerBase = perBase(to);
+    if (fromPerBase == null || toPerBase == null) return undefined;
+    return { rate: toPerBase / fromPerBase, asOf: this.table.asOf };
+  }
+}
+
+/**
+ * Rates from a JSON file shaped like FxRateTable, e.g. written daily by a
+ * job. The file is read on first use and again whenever its modification
+ * time changes, so new rates apply without a restart. A missing or invalid
+ * file throws CONFIG_ERROR: quoting with no rates is a configuration error.
+ */
+export class FileFxRateProvider implements FxRateProvider {
+  private readonly path: string;
+  private loaded: { mtimeMs: number; provider: StaticFxRateProvider } | undefined;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async getRate(from: string, to: string): Promise<FxRate | undefined> {
+    return (await this.load()).getRate(from, to);
+  }
+
+  private async load(): Promise<StaticFxRateProvider> {
+    let mtimeMs: number;
+    let raw: string;
+    try {
+      ({ mtimeMs } = await stat(this.path));
+      if (this.loaded?.mtimeMs === mtimeMs) return this.loaded.provider;
+      raw = await readFile(this.path, "utf-8");
+    } catch (err) {
+      throw this.configError(`FX rate file ${this.path} cannot be read`, err);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (err) {
+      throw this.configError(`FX rate file ${this.path} is not valid JSON`, err);
+    }
+    const table = FxRateTableSchema.safeParse(parsed);
+    if (!table.success) {
+      const issues = table.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+      throw this.configError(`FX rate file ${this.path} is invalid: ${issues}`, undefined, {
+        issues: table.error.flatten(),
+      });
+    }
+    this.loaded = { mtimeMs, provider: new StaticFxRateProvider(table.data) };
+    return this.loaded.provider;
+  }
+
+  private configError(message: string, cause?: unknown, context?: Record<string, unknown>) {
+    return new CarrierIntegrationError({
+      code: "CONFIG_ERROR",
+      message,
+      context: { path: this.path, ...context },
+      cause,
+    });
+  }
+}
+
+/**
+ * Convert every amount in `quotes` to `targetCurrency`, one provider lookup
+ * per source currency. Quotes already in the target are returned as is;
+ * `conversion` is set on quotes whose total was converted.
+ * Throws VALIDATION_ERROR when the provider has no rate for a currency.
+ */
+export async function convertQuotes(
+  quotes: RateQuote[],
+  targetCurrency: string,
+  provider: FxRateProvider
+): Promise<RateQuote[]> {
+  const rates = new Map<string, FxRate>();
+  for (const currency of new Set(quotes.flatMap((q) => quoteAmounts(q).map((m) => m.currencyCode)))) {
+    if (currency === targetCurrency) continue;
+    const rate = await provider.getRate(currency, targetCurrency);
+    if (!rate) {
+      throw new CarrierIntegrationError({
+        code: "VALIDATION_ERROR",
+        message: `No exchange rate from ${currency} to ${targetCurrency}`,
+        context: { from: currency, to: targetCurrency },
+      });
+    }
+    rates.set(currency, rate);
+  }
+
+  const convert = (money: Money): Money => {
+    const fx = rates.get(money.currencyCode);
+    return fx ? convertMoney(money, targetCurrency, fx.rate) : money;
+  };
+  return quotes.map((quote) => {
+    if (!quoteAmounts(quote).some((m) => rates.has(m.currencyCode))) return quote;
+    const fx = rates.get(quote.totalCharge.currencyCode);
+    const converted: RateQuote = {
+      ...quote,
+      totalCharge: convert(quote.totalCharge),
+      publishedCharge: quote.publishedCharge && convert(quote.publishedCharge),
+      negotiatedCharge: quote.negotiatedCharge && convert(quote.negotiatedCharge),
+      charges: quote.charges?.map((line) => ({ ...line, amount: convert(line.amount) })),
+      landedCost: quote.landedCost && {
+        ...quote.landedCost,
+        charges: quote.landedCost.charges.map((line) => ({ ...line, amount: convert(line.amount) })),
+        total: convert(quote.landedCost.total),
+      },
+    };
+    if (fx) converted.conversion = { originalTotalCharge: quote.totalCharge, rate: fx.rate, rateAsOf: fx.asOf };
+    return converted;
+  });
+}
+
+/** Every Money in a quote; keep in step with the fields convertQuotes maps. */
+function quoteAmounts(quote: RateQuote): Money[] {
+  return [
+    quote.totalCharge,
+    ...(quote.publishedCharge ? [quote.publishedCharge] : []),
+    ...(quote.negotiatedCharge ? [quote.negotiatedCharge] : []),
+    ...(quote.charges ?? []).map((line) => line.amount),
+    ...(quote.landedCost
+      ? [quote.landedCost.total, ...quote.landedCost.charges.map((line) => line.amount)]
+      : []),
+  ];
+}
@@ -2,32 +2,30 @@
  * HTTP client interface. Allows stubbing in tests with realistic payloads.
  */
 
+import { CarrierIntegrationError } from "./errors.js";
+
 export interface HttpResponse<T = unknown> {
   status: number;
   headers: Record<string, string>;
   body: T;
 }
 
+export interface HttpRequestOptions {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+}
+
 export interface HttpClient {
-  request<T = unknown>(options: {
-    method: string;
-    url: string;
-    headers?: Record<string, string>;
-    body?: string;
-    timeoutMs?: number;
-  }): Promise<HttpResponse<T>>;
+  request<T = unknown>(options: HttpRequestOptions): Promise<HttpResponse<T>>;
 }
 
 /** Default implementation using global fetch (Node 18+). */
 export function createFetchHttpClient(): HttpClient {
   return {
-    async request<T>(options: {
-      method: string;
-      url: string;
-      headers?: Record<string, string>;
-      body?: string;
-      timeoutMs?: number;
-    }): Promise<HttpResponse<T>> {
+    async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
       const controller = new AbortController();
       const timeoutId =
         options.timeoutMs != null
@@ -56,7 +54,12 @@ export function createFetchHttpClient(): HttpClient {
           try {
             body = JSON.parse(text) as T;
           } catch {
-            throw new Error(`Malformed JSON in response: ${text.slice(0, 200)}`);
+            throw new CarrierIntegrationError({
+              code: "MALFORMED_RESPONSE",
+              message: `Malformed JSON in response: ${text.slice(0, 200)}`,
+              statusCode: res.status,
+              context: { url: options.url },
+            });
           }
         } else {
           body = (await res.text()) as unknown as T;
@@ -70,3 +73,82 @@ export function createFetchHttpClient(): HttpClient {
     },
   };
 }
+
+/**
+ * Send a request and turn transport failures (connection errors, aborts from
+ * the timeout) into NETWORK_ERROR / TIMEOUT. `label` prefixes the message,
+ * e.g. "UPS rate request".
+ */
+export async function sendRequest<T = unknown>(
+  http: HttpClient,
+  options: HttpRequestOptions,
+  label: string
+): Promise<HttpResponse<T>> {
+  try {
+    return await http.request<T>(options);
+  } catch (err) {
+    if (err instanceof CarrierIntegrationError) throw err;
+    const message = err instanceof Error ? err.message : "Unknown network error";
+    const isTimeout =
+      err instanceof Error &&
+      (err.name === "AbortError" || err.name === "TimeoutError" || message.includes("abort"));
+    throw new CarrierIntegrationError({
+      code: isTimeout ? "TIMEOUT" : "NETWORK_ERROR",
+      message: `${label}: ${message}`,
+      cause: err,
+      context: { url: options.url },
+    });
+  }
+}
+
+/** Bearer token source for sendAuthorizedRequest(), usually an OAuth client's cache. */
+export interface BearerTokenSource {
+  getToken(): Promise<string>;
+  /** Drop `rejected` if it is still the cached token, so the next getToken() fetches a new one. */
+  clearToken(rejected: string): Promise<void>;
+}
+
+/**
+ * sendRequest() with `Authorization: Bearer <token>`. On 401 the rejected
+ * token is cleared and the request replayed once with a fresh token;
+ * concurrent requests rejected with the same token clear it only once. A 401
+ * in the returned response means a freshly issued token was rejected too.
+ */
+export async function sendAuthorizedRequest<T = unknown>(
+  http: HttpClient,
+  tokens: BearerTokenSource,
+  options: HttpRequestOptions,
+  label: string
+): Promise<HttpResponse<T>> {
+  let token = "";
+  const send = async () => {
+    token = await tokens.getToken();
+    return sendRequest<T>(
+      http,
+      { ...options, headers: { ...options.headers, Authorization: `Bearer ${token}` } },
+      label
+    );
+  };
+
+  const res = await send();
+  if (res.status !== 401) return res;
+  await tokens.clearToken(token);
+  return send();
+}
+
+/**
+ * Read a Retry-After header (delta-seconds or HTTP-date) as milliseconds.
+ * Header names are matched case-insensitively.
+ */
+export function parseRetryAfterMs(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): number | undefined {
+  const entry = Object.entries(headers).find(([k]) => k.toLowerCase() === "retry-after");
+  const value = entry?.[1]?.trim();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
@@ -1,16 +1,121 @@
 /**
  * Carrier Integration Service — public API.
- * Build the service with your HTTP client and carriers; use getRates() for rate shopping.
+ * Build the service with your HTTP client and carriers; use getRates() for rate shopping
+ * createLabel() to buy labels, track() for shipment status and validateAddress()
+ * to check addresses before quoting.
  */
 
 export { CarrierIntegrationService } from "./service.js";
-export type { CarrierServiceOptions } from "./service.js";
+export type {
+  CarrierServiceOptions,
+  RatesFromAllOptions,
+  RatesOptions,
+  InvalidateRatesOptions,
+  CarrierRateError,
+  MultiCarrierRateResponse,
+} from "./service.js";
+export { createServer, createRequestHandler, toErrorBody, ERROR_HTTP_STATUS } from "./server.js";
+export type { ServerOptions, ErrorBody } from "./server.js";
+export { buildJsonSchemas, buildOpenApiDocument, API_VERSION } from "./openapi.js";
+export { runCli, CLI_EXIT_CODES } from "./cli.js";
+export {
+  createJsonLogger,
+  noopLogger,
+  getCorrelationId,
+  withCorrelationId,
+} from "./logger.js";
+export type { Logger, LogLevel, LogFields, JsonLoggerOptions } from "./logger.js";
+export {
+  createLoggingHttpClient,
+  redactHeaders,
+  redactBody,
+  REDACTED,
+} from "./logging-http-client.js";
+export type { LoggingHttpClientOptions } from "./logging-http-client.js";
+export {
+  noopInstrumentation,
+  composeInstrumentation,
+  traceSpan,
+} from "./instrumentation.js";
+export type {
+  Instrumentation,
+  Span,
+  SpanAttributes,
+  CallOutcome,
+  CarrierCallEvent,
+  HttpRequestEvent,
+  TokenRefreshEvent,
+} from "./instrumentation.js";
+export { createInstrumentedHttpClient } from "./instrumented-http-client.js";
+export type { InstrumentedHttpClientOptions } from "./instrumented-http-client.js";
+export {
+  PrometheusExporter,
+  PROMETHEUS_CONTENT_TYPE,
+  DEFAULT_LATENCY_BUCKETS,
+} from "./prometheus.js";
+export type { PrometheusExporterOptions } from "./prometheus.js";
+export type { CliDeps } from "./cli.js";
 export { UpsCarrier } from "./carriers/ups/ups-carrier.js";
 export type { UpsCarrierOptions } from "./carriers/ups/ups-carrier.js";
-export { getUpsConfig, validateUpsConfig } from "./config.js";
-export type { UpsConfig } from "./config.js";
-export { createFetchHttpClient } from "./http-client.js";
-export type { HttpClient } from "./http-client.js";
+export { FedexCarrier } from "./carriers/fedex/fedex-carrier.js";
+export type { FedexCarrierOptions } from "./carriers/fedex/fedex-carrier.js";
+export { UspsCarrier } from "./carriers/usps/usps-carrier.js";
+export type { UspsCarrierOptions } from "./carriers/usps/usps-carrier.js";
+export { InMemoryTokenStore, FileTokenStore } from "./auth/token-store.js";
+export type { TokenStore, StoredToken } from "./auth/token-store.js";
+export {
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  isCarrierFailure,
+} from "./circuit-breaker.js";
+export type {
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+} from "./circuit-breaker.js";
+export { InMemoryCacheStore, rateCacheKey } from "./quote-cache.js";
+export type { CacheStore, CachedRates, QuoteCacheOptions } from "./quote-cache.js";
+export {
+  measurePackage,
+  measurePackages,
+  toPounds,
+  toInches,
+  UPS_PACKAGE_RULES,
+  FEDEX_PACKAGE_RULES,
+  USPS_PACKAGE_RULES,
+} from "./package-math.js";
+export type { CarrierPackageRules, HandlingThresholds } from "./package-math.js";
+export {
+  parseMoney,
+  addMoney,
+  sumMoney,
+  compareMoney,
+  zeroMoney,
+  currencyMinorDigits,
+  toDecimalString,
+  formatMoney,
+  convertMoney,
+} from "./money.js";
+export {
+  StaticFxRateProvider,
+  FileFxRateProvider,
+  FxRateTableSchema,
+  convertQuotes,
+} from "./fx.js";
+export type { FxRate, FxRateProvider, FxRateTable } from "./fx.js";
+export {
+  getUpsConfig,
+  validateUpsConfig,
+  getFedexConfig,
+  validateFedexConfig,
+  getUspsConfig,
+  validateUspsConfig,
+} from "./config.js";
+export type { UpsConfig, FedexConfig, UspsConfig } from "./config.js";
+export { createFetchHttpClient, parseRetryAfterMs } from "./http-client.js";
+export type { HttpClient, HttpRequestOptions, HttpResponse } from "./http-client.js";
+export { withRetry, isRetryableError, DEFAULT_RETRY_POLICY } from "./retry.js";
+export type { RetryPolicy, RetryAttempt } from "./retry.js";
 export {
   CarrierIntegrationError,
   isCarrierIntegrationError,
@@ -18,16 +123,78 @@ export {
 export type { ErrorCode, CarrierIntegrationErrorDetails } from "./errors.js";
 export type {
   Address,
+  CurrencyAmount,
+  SignatureOption,
+  PackageOptions,
+  ShipmentOptions,
   Package,
+  Commodity,
+  Incoterm,
+  Customs,
   RateRequest,
   RateResponse,
+  RateCacheInfo,
+  PackageHandling,
+  PackageMeasurement,
   RateQuote,
+  Money,
+  ChargeLine,
+  CurrencyConversion,
+  LandedCost,
+  LabelFormat,
+  Party,
+  Shipper,
+  ShipmentRequest,
+  PackageLabel,
+  LabelResponse,
+  TrackingRequest,
+  TrackingStatus,
+  TrackingLocation,
+  TrackingEvent,
+  TrackingResult,
+  TrackingError,
+  TrackingResponse,
+  AddressValidationRequest,
+  AddressVerdict,
+  AddressClassification,
+  AddressValidationResult,
 } from "./domain.js";
 export {
   AddressSchema,
+  CurrencyAmountSchema,
+  SignatureOptionSchema,
+  PackageOptionsSchema,
+  ShipmentOptionsSchema,
   PackageSchema,
+  CommoditySchema,
+  IncotermSchema,
+  CustomsSchema,
   RateRequestSchema,
   RateQuoteSchema,
+  MoneySchema,
+  ChargeLineSchema,
+  CurrencyConversionSchema,
+  LandedCostSchema,
   RateResponseSchema,
+  RateCacheInfoSchema,
+  PackageHandlingSchema,
+  PackageMeasurementSchema,
+  LabelFormatSchema,
+  PartySchema,
+  ShipperSchema,
+  ShipmentRequestSchema,
+  PackageLabelSchema,
+  LabelResponseSchema,
+  TrackingRequestSchema,
+  TrackingStatusSchema,
+  TrackingLocationSchema,
+  TrackingEventSchema,
+  TrackingResultSchema,
+  TrackingErrorSchema,
+  TrackingResponseSchema,
+  AddressValidationRequestSchema,
+  AddressVerdictSchema,
+  AddressClassificationSchema,
+  AddressValidationResultSchema,
 } from "./domain.js";
 export type { CarrierIntegration, CarrierOperation } from "./carriers/types.js";
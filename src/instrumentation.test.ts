@@ -0,0 +1,199 @@
+/**
+ * Instrumentation tests: UPS through the service with an instrumented stub
+ * HTTP client, checking Prometheus output and span nesting.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { PrometheusExporter } from "./prometheus.js";
+import { createInstrumentedHttpClient } from "./instrumented-http-client.js";
+import {
+  composeInstrumentation,
+  noopInstrumentation,
+  type Instrumentation,
+  type Span,
+  type SpanAttributes,
+} from "./instrumentation.js";
+import { CarrierIntegrationService } from "./service.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { getUpsConfig } from "./config.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import type { RateRequest } from "./domain.js";
+
+const UPS_OAUTH_SUCCESS = { access_token: "test_token_abc123", expires_in: 3600 };
+
+const UPS_RATE_SUCCESS = {
+  RateResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Name: "Ground" },
+        TotalCharges: { MonetaryValue: "12.50", CurrencyCode: "USD" },
+      },
+    ],
+  },
+};
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: { line1: "123 Origin St", city: "Atlanta", postalCode: "30301", countryCode: "US" },
+  destination: { line1: "456 Dest Ave", city: "New York", postalCode: "10001", countryCode: "US" },
+  packages: [{ weight: 5, weightUnit: "LBS", dimensionUnit: "IN" }],
+};
+
+const config = {
+  ...getUpsConfig(),
+  clientId: "test_client",
+  clientSecret: "test_secret",
+  apiBaseUrl: "https://api.example.com",
+  oauthTokenUrl: "https://auth.example.com/token",
+};
+
+interface RecordedSpan {
+  name: string;
+  attributes: SpanAttributes;
+  parent?: RecordedSpan;
+  error?: unknown;
+  ended: boolean;
+}
+
+/** Instrumentation that keeps every span it starts. */
+function createRecordingTracer(): Instrumentation & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const handles = new Map<Span, RecordedSpan>();
+  return {
+    ...noopInstrumentation,
+    spans,
+    startSpan(name, attributes, parent) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...attributes },
+        parent: parent && handles.get(parent),
+        ended: false,
+      };
+      const span: Span = {
+        setAttributes: (attrs) => Object.assign(recorded.attributes, attrs),
+        recordError: (error) => void (recorded.error = error),
+        end: () => void (recorded.ended = true),
+      };
+      spans.push(recorded);
+      handles.set(span, recorded);
+      return span;
+    },
+  };
+}
+
+function instrumentedService(
+  stub: ReturnType<typeof createStubHttpClient>,
+  instrumentation: Instrumentation
+) {
+  const http = createInstrumentedHttpClient(stub, { instrumentation });
+  return new CarrierIntegrationService({
+    carriers: [new UpsCarrier({ config, http, instrumentation })],
+    instrumentation,
+  });
+}
+
+describe("Instrumentation", () => {
+  let stub: ReturnType<typeof createStubHttpClient>;
+
+  beforeEach(() => {
+    stub = createStubHttpClient();
+  });
+
+  it("counts carrier calls, errors by code, HTTP requests and token refreshes", async () => {
+    const metrics = new PrometheusExporter();
+    const service = instrumentedService(stub, metrics);
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    stub.stubNext({ status: 400, body: { response: { errors: [{ code: "111210", message: "Bad zip" }] } } });
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+    });
+
+    const text = metrics.render();
+    expect(text).toContain("# TYPE carrier_integration_carrier_requests_total counter\n");
+    expect(text).toContain(
+      'carrier_integration_carrier_requests_total{carrier="ups",operation="rate",outcome="success"} 2\n'
+    );
+    expect(text).toContain(
+      'carrier_integration_carrier_errors_total{carrier="ups",operation="rate",code="CARRIER_ERROR"} 1\n'
+    );
+    expect(text).toContain(
+      'carrier_integration_http_requests_total{host="api.example.com",method="POST",status="400"} 1\n'
+    );
+    expect(text).toContain(
+      'carrier_integration_oauth_token_refreshes_total{carrier="ups",outcome="success"} 1\n'
+    );
+    expect(text).toContain("# TYPE carrier_integration_carrier_request_duration_seconds histogram\n");
+    expect(text).toMatch(
+      /carrier_integration_carrier_request_duration_seconds_bucket\{carrier="ups",operation="rate",le="\+Inf"\} 3\n/
+    );
+    expect(text).toMatch(
+      /carrier_integration_carrier_request_duration_seconds_count\{carrier="ups",operation="rate"\} 3\n/
+    );
+  });
+
+  it("nests spans service → carrier → OAuth/HTTP and records failures", async () => {
+    const tracer = createRecordingTracer();
+    const service = instrumentedService(stub, tracer);
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+
+    const path = (span: RecordedSpan): string =>
+      span.parent ? `${path(span.parent)} > ${span.name}` : span.name;
+    expect(tracer.spans.map(path)).toEqual([
+      "service.getRates",
+      "service.getRates > carrier.execute",
+      "service.getRates > carrier.execute > oauth.token",
+      "service.getRates > carrier.execute > oauth.token > http.request",
+      "service.getRates > carrier.execute > http.request",
+    ]);
+    expect(tracer.spans.every((s) => s.ended && s.error === undefined)).toBe(true);
+    const [serviceSpan, carrierSpan, , tokenHttp] = tracer.spans;
+    expect(serviceSpan.attributes).toMatchObject({ "carrier.id": "ups", "request.id": expect.any(String) });
+    expect(carrierSpan.attributes).toMatchObject({ "carrier.operation": "rate" });
+    expect(tokenHttp.attributes).toMatchObject({
+      "http.method": "POST",
+      "server.address": "auth.example.com",
+      "http.status_code": 200,
+    });
+
+    tracer.spans.length = 0;
+    stub.stubNextReject(new Error("ECONNRESET"));
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+
+    expect(tracer.spans.map((s) => s.name)).toEqual([
+      "service.getRates",
+      "carrier.execute",
+      "http.request",
+    ]);
+    expect(tracer.spans[1].error).toMatchObject({ code: "NETWORK_ERROR" });
+    expect(tracer.spans[2].error).toBeInstanceOf(Error);
+  });
+
+  it("composes metrics with a tracer and escapes label values", async () => {
+    const metrics = new PrometheusExporter({ prefix: "" });
+    const tracer = createRecordingTracer();
+    const both = composeInstrumentation(metrics, tracer);
+
+    both.recordCarrierCall({
+      carrierId: 'my"carrier\\',
+      operation: "tracking",
+      outcome: "error",
+      durationMs: 120,
+    });
+    both.startSpan("custom", {}, undefined).end();
+
+    expect(metrics.render()).toContain(
+      'carrier_errors_total{carrier="my\\"carrier\\\\",operation="tracking",code="UNKNOWN"} 1\n'
+    );
+    expect(tracer.spans).toMatchObject([{ name: "custom", ended: true }]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Metrics and tracing hooks. The service, carriers (OAuth token refreshes) and
+ * createInstrumentedHttpClient() report to an Instrumentation; adapt it to
+ * OpenTelemetry or StatsD, or use PrometheusExporter for metrics. The default
+ * noopInstrumentation skips span bookkeeping entirely.
+ *
+ * Spans nest service → carrier → HTTP: each startSpan() receives the span that
+ * is active in the calling async context as its parent.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { CarrierOperation } from "./carriers/types.js";
+import { isCarrierIntegrationError, type ErrorCode } from "./errors.js";
+
+export type CallOutcome = "success" | "error";
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface Span {
+  setAttributes(attributes: SpanAttributes): void;
+  /** Mark the span failed; `error` is usually a CarrierIntegrationError */
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+/** One CarrierIntegration.execute() call made by the service. */
+export interface CarrierCallEvent {
+  carrierId: string;
+  operation: CarrierOperation;
+  outcome: CallOutcome;
+  durationMs: number;
+  /** Set when outcome is "error" */
+  errorCode?: ErrorCode;
+}
+
+/** One request through an instrumented HttpClient. */
+export interface HttpRequestEvent {
+  method: string;
+  /** Host of the request URL, e.g. "onlinetools.ups.com" */
+  host: string;
+  /** Absent when no response arrived (network error, timeout) */
+  status?: number;
+  outcome: CallOutcome;
+  durationMs: number;
+}
+
+/** One OAuth token request (a cache miss or refresh, not a cached token). */
+export interface TokenRefreshEvent {
+  carrierId: string;
+  outcome: CallOutcome;
+  durationMs: number;
+  errorCode?: ErrorCode;
+}
+
+export interface Instrumentation {
+  startSpan(name: string, attributes: SpanAttributes, parent: Span | undefined): Span;
+  recordCarrierCall(event: CarrierCallEvent): void;
+  recordHttpRequest(event: HttpRequestEvent): void;
+  recordTokenRefresh(event: TokenRefreshEvent): void;
+}
+
+/** Span that records nothing, for instrumentations that do not trace. */
+export const noopSpan: Span = {
+  setAttributes() {},
+  recordError() {},
+  end() {},
+};
+
+/** Records nothing; the default everywhere instrumentation is optional. */
+export const noopInstrumentation: Instrumentation = {
+  startSpan: () => noopSpan,
+  recordCarrierCall() {},
+  recordHttpRequest() {},
+  recordTokenRefresh() {},
+};
+
+/** Fan out to several instrumentations, e.g. Prometheus metrics plus a tracer. */
+export function composeInstrumentation(...instrumentations: Instrumentation[]): Instrumentation {
+  return {
+    startSpan(name, attributes, parent) {
+      const spans = instrumentations.map((i) => i.startSpan(name, attributes, parent));
+      return {
+        setAttributes: (attrs) => spans.forEach((s) => s.setAttributes(attrs)),
+        recordError: (error) => spans.forEach((s) => s.recordError(error)),
+        end: () => spans.forEach((s) => s.end()),
+      };
+    },
+    recordCarrierCall: (event) => instrumentations.forEach((i) => i.recordCarrierCall(event)),
+    recordHttpRequest: (event) => instrumentations.forEach((i) => i.recordHttpRequest(event)),
+    recordTokenRefresh: (event) => instrumentations.forEach((i) => i.recordTokenRefresh(event)),
+  };
+}
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * Run `fn` inside a span that is the parent of spans started while it runs.
+ * Failures are recorded on the span and rethrown; the span always ends.
+ */
+export async function traceSpan<T>(
+  instrumentation: Instrumentation,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  if (instrumentation === noopInstrumentation) return fn(noopSpan);
+  const span = instrumentation.startSpan(name, attributes, activeSpan.getStore());
+  try {
+    return await activeSpan.run(span, () => fn(span));
+  } catch (err) {
+    span.recordError(err);
+    throw err;
+  } finally {
+    span.end();
+  }
+}
+
+/** Error code for metrics labels; unstructured errors count as UNKNOWN. */
+export function errorCodeOf(err: unknown): ErrorCode {
+  return isCarrierIntegrationError(err) ? err.code : "UNKNOWN";
+}
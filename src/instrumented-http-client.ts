@@ -0,0 +1,63 @@
+/**
+ * HttpClient decorator that reports each request to an Instrumentation: an
+ * "http.request" span (child of the active carrier span) and an
+ * HttpRequestEvent with host, status and latency.
+ */
+
+import type { HttpClient, HttpRequestOptions, HttpResponse } from "./http-client.js";
+import { traceSpan, type Instrumentation } from "./instrumentation.js";
+
+export interface InstrumentedHttpClientOptions {
+  instrumentation: Instrumentation;
+  now?: () => number;
+}
+
+/** Wrap `http` so every request is timed, counted and traced. */
+export function createInstrumentedHttpClient(
+  http: HttpClient,
+  options: InstrumentedHttpClientOptions
+): HttpClient {
+  const { instrumentation } = options;
+  const now = options.now ?? Date.now;
+
+  return {
+    request<T>(request: HttpRequestOptions): Promise<HttpResponse<T>> {
+      const host = hostOf(request.url);
+      const attributes = { "http.method": request.method, "server.address": host };
+      return traceSpan(instrumentation, "http.request", attributes, async (span) => {
+        const startedAt = now();
+        let response: HttpResponse<T>;
+        try {
+          response = await http.request<T>(request);
+        } catch (err) {
+          instrumentation.recordHttpRequest({
+            method: request.method,
+            host,
+            outcome: "error",
+            durationMs: now() - startedAt,
+          });
+          throw err;
+        }
+
+        const outcome = response.status >= 400 ? "error" : "success";
+        span.setAttributes({ "http.status_code": response.status });
+        instrumentation.recordHttpRequest({
+          method: request.method,
+          host,
+          status: response.status,
+          outcome,
+          durationMs: now() - startedAt,
+        });
+        return response;
+      });
+    },
+  };
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "unknown";
+  }
+}
@@ -4,6 +4,9 @@
  * using realistic UPS-style payloads (no live API).
  */
 
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, it, expect, beforeEach } from "vitest";
 import { CarrierIntegrationService } from "./service.js";
 import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
@@ -11,7 +14,13 @@ import { getUpsConfig } from "./config.js";
 import { createStubHttpClient } from "./test-utils/stub-http.js";
 import { CarrierIntegrationError, isCarrierIntegrationError } from "./errors.js";
 import { buildUpsRateRequest, parseUpsRateResponse } from "./carriers/ups/ups-rate.js";
-import type { RateRequest } from "./domain.js";
+import { buildUpsShipRequest, parseUpsShipResponse } from "./carriers/ups/ups-ship.js";
+import { parseUpsTrackResponse } from "./carriers/ups/ups-track.js";
+import { parseUpsXavResponse } from "./carriers/ups/ups-address-validation.js";
+import { parseRetryAfterMs, type HttpClient, type HttpRequestOptions, type HttpResponse } from "./http-client.js";
+import { FileTokenStore, InMemoryTokenStore } from "./auth/token-store.js";
+import type { RateRequest, RateResponse, ShipmentRequest } from "./domain.js";
+import type { CarrierIntegration } from "./carriers/types.js";
 
 // --- Realistic UPS OAuth response (from UPS docs) ---
 const UPS_OAUTH_SUCCESS = {
@@ -61,6 +70,110 @@ const SAMPLE_RATE_REQUEST: RateRequest = {
   ],
 };
 
+// --- Realistic UPS Shipping API success (single package, GIF label) ---
+const LABEL_IMAGE = Buffer.from("GIF89a-fake-label-bytes");
+const UPS_SHIP_SUCCESS = {
+  ShipmentResponse: {
+    Response: {
+      ResponseStatus: { Code: "1", Description: "Success" },
+    },
+    ShipmentResults: {
+      ShipmentCharges: {
+        TotalCharges: { CurrencyCode: "USD", MonetaryValue: "12.50" },
+      },
+      ShipmentIdentificationNumber: "1ZXXXXXXXXXXXXXXXX",
+      PackageResults: {
+        TrackingNumber: "1ZXXXXXXXXXXXXXXXX",
+        ShippingLabel: {
+          ImageFormat: { Code: "GIF", Description: "GIF" },
+          GraphicImage: LABEL_IMAGE.toString("base64"),
+        },
+      },
+    },
+  },
+};
+
+const SAMPLE_SHIPMENT_REQUEST: ShipmentRequest = {
+  shipper: {
+    name: "Origin Co",
+    phone: "4045550100",
+    accountNumber: "A1B2C3",
+    address: SAMPLE_RATE_REQUEST.origin,
+  },
+  recipient: {
+    name: "Jane Doe",
+    address: SAMPLE_RATE_REQUEST.destination,
+  },
+  serviceCode: "03",
+  packages: SAMPLE_RATE_REQUEST.packages,
+  referenceNumbers: ["ORDER-1001"],
+  labelFormat: "GIF",
+};
+
+// --- Realistic UPS Track API response (activity newest first, as UPS returns it) ---
+const UPS_TRACK_IN_TRANSIT = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: "1Z999AA10123456784",
+        package: [
+          {
+            trackingNumber: "1Z999AA10123456784",
+            deliveryDate: [{ type: "SDD", date: "20240312" }],
+            currentStatus: { description: "Out For Delivery Today", code: "OT" },
+            activity: [
+              {
+                location: {
+                  address: { city: "New York", stateProvince: "NY", postalCode: "10001", countryCode: "US" },
+                },
+                status: { type: "I", description: "Out For Delivery Today", code: "OT" },
+                date: "20240312",
+                time: "071500",
+                gmtOffset: "-04:00",
+              },
+              {
+                location: {
+                  address: { city: "Atlanta", stateProvince: "GA", countryCode: "US" },
+                },
+                status: { type: "I", description: "Departed from Facility", code: "DP" },
+                date: "20240310",
+                time: "221000",
+                gmtOffset: "-04:00",
+              },
+              {
+                location: { address: { countryCode: "US" } },
+                status: { type: "M", description: "Shipper created a label", code: "MP" },
+                date: "20240309",
+                time: "101500",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+// --- Realistic UPS Address Validation (XAV) response: one residential match ---
+const UPS_XAV_VALID = {
+  XAVResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    ValidAddressIndicator: "",
+    AddressClassification: { Code: "2", Description: "Residential" },
+    Candidate: {
+      AddressClassification: { Code: "2", Description: "Residential" },
+      AddressKeyFormat: {
+        AddressLine: "456 DEST AVE",
+        PoliticalDivision2: "NEW YORK",
+        PoliticalDivision1: "NY",
+        PostcodePrimaryLow: "10001",
+        PostcodeExtendedLow: "2062",
+        CountryCode: "US",
+      },
+    },
+  },
+};
+
 const config = {
   ...getUpsConfig(),
   clientId: "test_client",
@@ -91,13 +204,12 @@ describe("CarrierIntegrationService", () => {
         carrier: "ups",
         serviceCode: "03",
         serviceName: "Ground",
-        totalCharge: 12.5,
-        currencyCode: "USD",
+        totalCharge: { minorUnits: 1250, currencyCode: "USD" },
         transitDays: 3,
       });
       expect(result.quotes[1]).toMatchObject({
         serviceCode: "07",
-        totalCharge: 24.99,
+        totalCharge: { minorUnits: 2499, currencyCode: "USD" },
         transitDays: 1,
       });
 
@@ -141,6 +253,93 @@ describe("CarrierIntegrationService", () => {
       });
     });
 
+    it("requires customs for cross-border merchandise before any HTTP call", async () => {
+      const toCanada = {
+        ...SAMPLE_RATE_REQUEST,
+        destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+      };
+
+      await expect(service.getRates("ups", toCanada)).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+        message: expect.stringContaining("customs: Customs information is required"),
+      });
+      await expect(
+        service.getRates("ups", {
+          ...toCanada,
+          customs: { contents: "merchandise", commodities: [], currencyCode: "USD", incoterm: "DAP" },
+        })
+      ).rejects.toMatchObject({ message: expect.stringContaining("At least one commodity is required") });
+      await expect(
+        service.getRates("ups", {
+          ...toCanada,
+          customs: {
+            contents: "merchandise",
+            commodities: [
+              { description: "Mug", hsCode: "6912.00", quantity: 2, unitValue: 12, countryOfOrigin: "US" },
+            ],
+            currencyCode: "USD",
+            incoterm: "DAP",
+          },
+        })
+      ).rejects.toMatchObject({ message: expect.stringContaining("HS code must be 6 to 10 digits") });
+      expect(stubHttp.getRequests()).toHaveLength(0);
+    });
+
+    it("rejects service options UPS cannot combine before any HTTP call", async () => {
+      const toCanada = {
+        destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+        customs: { contents: "documents" as const },
+      };
+      const cod = { cod: { amount: 40, currencyCode: "USD" } };
+      const rejected = [
+        {
+          ...SAMPLE_RATE_REQUEST,
+          ...toCanada,
+          packages: [{ ...SAMPLE_RATE_REQUEST.packages[0], options: cod }],
+        },
+        {
+          ...SAMPLE_RATE_REQUEST,
+          options: { signature: "signature_required" as const },
+          packages: [{ ...SAMPLE_RATE_REQUEST.packages[0], options: cod }],
+        },
+        { ...SAMPLE_RATE_REQUEST, ...toCanada, options: { signature: "delivery_confirmation" as const } },
+        { ...SAMPLE_RATE_REQUEST, serviceCode: "03", options: { saturdayDelivery: true } },
+      ];
+
+      for (const request of rejected) {
+        await expect(service.getRates("ups", request)).rejects.toMatchObject({
+          code: "VALIDATION_ERROR",
+          message: expect.stringMatching(/^UPS /),
+        });
+      }
+      expect(stubHttp.getRequests()).toHaveLength(0);
+    });
+
+    it("reports billable weight per package and rejects packages over UPS limits before any HTTP call", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+      const bulky = { weight: 12, weightUnit: "LBS" as const, length: 50, width: 20, height: 20, dimensionUnit: "IN" as const };
+
+      const result = await service.getRates("ups", { ...SAMPLE_RATE_REQUEST, packages: [bulky] });
+      expect(result.packages).toEqual([
+        { billableWeight: 144, dimensionalWeight: 143.88, weightUnit: "LBS", handling: ["additional_handling"] },
+      ]);
+
+      stubHttp.reset();
+      await expect(
+        service.getRates("ups", {
+          ...SAMPLE_RATE_REQUEST,
+          packages: [SAMPLE_RATE_REQUEST.packages[0], { ...bulky, weight: 160, length: 110 }],
+        })
+      ).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+        message:
+          "UPS package limits exceeded: packages.1: weight 160 LBS exceeds 150 LBS; " +
+          "packages.1: length 110 IN exceeds 108 IN; packages.1: length + girth 190 IN exceeds 165 IN",
+      });
+      expect(stubHttp.getRequests()).toHaveLength(0);
+    });
+
     it("throws for unknown carrier", async () => {
       await expect(service.getRates("fedex", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
         code: "VALIDATION_ERROR",
@@ -148,6 +347,267 @@ describe("CarrierIntegrationService", () => {
       });
     });
   });
+
+  describe("createLabel", () => {
+    it("builds UPS ShipmentRequest and returns decoded labels", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({ status: 200, body: UPS_SHIP_SUCCESS });
+
+      const result = await service.createLabel("ups", SAMPLE_SHIPMENT_REQUEST);
+
+      expect(result).toMatchObject({
+        carrier: "ups",
+        shipmentId: "1ZXXXXXXXXXXXXXXXX",
+        totalCharge: { minorUnits: 1250, currencyCode: "USD" },
+      });
+      expect(result.labels).toHaveLength(1);
+      expect(result.labels[0].trackingNumber).toBe("1ZXXXXXXXXXXXXXXXX");
+      expect(result.labels[0].format).toBe("GIF");
+      expect(result.labels[0].image.equals(LABEL_IMAGE)).toBe(true);
+
+      const requests = stubHttp.getRequests();
+      expect(requests).toHaveLength(2);
+      expect(requests[1].url).toContain("/api/shipments/");
+      const shipBody = JSON.parse(requests[1].body ?? "{}");
+      const shipment = shipBody.ShipmentRequest?.Shipment;
+      expect(shipment?.Shipper?.ShipperNumber).toBe("A1B2C3");
+      expect(shipment?.PaymentInformation?.ShipmentCharge?.[0]?.BillShipper?.AccountNumber).toBe(
+        "A1B2C3"
+      );
+      expect(shipment?.ShipTo?.Name).toBe("Jane Doe");
+      expect(shipment?.Service?.Code).toBe("03");
+      expect(shipment?.Package?.[0]?.ReferenceNumber).toEqual([{ Value: "ORDER-1001" }]);
+      expect(shipBody.ShipmentRequest?.LabelSpecification?.LabelImageFormat?.Code).toBe("GIF");
+    });
+
+    it("rejects label formats UPS cannot produce before any HTTP call", async () => {
+      await expect(
+        service.createLabel("ups", { ...SAMPLE_SHIPMENT_REQUEST, labelFormat: "PDF" })
+      ).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+        message: expect.stringContaining("PDF"),
+      });
+      expect(stubHttp.getRequests()).toHaveLength(0);
+    });
+
+    it("validates input and throws VALIDATION_ERROR without shipper account", async () => {
+      await expect(
+        service.createLabel("ups", {
+          ...SAMPLE_SHIPMENT_REQUEST,
+          shipper: { ...SAMPLE_SHIPMENT_REQUEST.shipper, accountNumber: "" },
+        })
+      ).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+        message: expect.stringContaining("account number"),
+      });
+    });
+  });
+
+  describe("track", () => {
+    it("calls UPS Track API and returns a normalized, oldest-first timeline", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({ status: 200, body: UPS_TRACK_IN_TRANSIT });
+
+      const result = await service.track("ups", { trackingNumbers: ["1Z999AA10123456784"] });
+
+      expect(result.results).toHaveLength(1);
+      const tracking = result.results[0];
+      expect(tracking).toMatchObject({
+        carrier: "ups",
+        trackingNumber: "1Z999AA10123456784",
+        status: "out_for_delivery",
+        estimatedDelivery: "2024-03-12",
+      });
+      expect(tracking.deliveredAt).toBeUndefined();
+      expect(tracking.events.map((e) => e.status)).toEqual([
+        "label_created",
+        "in_transit",
+        "out_for_delivery",
+      ]);
+      expect(tracking.events[2]).toMatchObject({
+        timestamp: "2024-03-12T07:15:00-04:00",
+        location: { city: "New York", stateProvinceCode: "NY", postalCode: "10001" },
+      });
+
+      const requests = stubHttp.getRequests();
+      expect(requests[1].method).toBe("GET");
+      expect(requests[1].url).toContain("/api/track/v1/details/1Z999AA10123456784");
+    });
+
+    it("validates input and throws VALIDATION_ERROR for empty tracking numbers", async () => {
+      await expect(service.track("ups", { trackingNumbers: [] })).rejects.toMatchObject({
+        code: "VALIDATION_ERROR",
+      });
+    });
+
+    it("404 from Track API produces CARRIER_ERROR with UPS code", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({
+        status: 404,
+        body: { response: { errors: [{ code: "TW0001", message: "Tracking Information Not Found" }] } },
+      });
+
+      await expect(
+        service.track("ups", { trackingNumbers: ["1Z0000000000000000"] })
+      ).rejects.toMatchObject({ code: "CARRIER_ERROR", statusCode: 404, carrierCode: "TW0001" });
+    });
+
+    it("reports a rejected number in errors and keeps the other results", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({
+        status: 200,
+        body: {
+          trackResponse: {
+            shipment: [{ warnings: [{ code: "TW0001", message: "Tracking Information Not Found" }] }],
+          },
+        },
+      });
+      stubHttp.stubNext({ status: 200, body: UPS_TRACK_IN_TRANSIT });
+
+      const result = await service.track("ups", {
+        trackingNumbers: ["1Z0000000000000000", "1Z999AA10123456784"],
+      });
+
+      expect(result.results.map((r) => r.trackingNumber)).toEqual(["1Z999AA10123456784"]);
+      expect(result.errors).toEqual([
+        {
+          trackingNumber: "1Z0000000000000000",
+          error: { code: "CARRIER_ERROR", message: expect.any(String), carrierCode: "TW0001" },
+        },
+      ]);
+    });
+  });
+
+  describe("validateAddress", () => {
+    it("returns verdict, classification and corrected candidates", async () => {
+      stubHttp.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      stubHttp.stubNext({ status: 200, body: UPS_XAV_VALID });
+
+      const result = await service.validateAddress("ups", {
+        address: SAMPLE_RATE_REQUEST.destination,
+      });
+
+      expect(result).toMatchObject({
+        carrier: "ups",
+        verdict: "valid",
+        classification: "residential",
+      });
+      expect(result.candidates).toEqual([
+        {
+          line1: "456 DEST AVE",
+          city: "NEW YORK",
+          stateProvinceCode: "NY",
+          postalCode: "10001-2062",
+          countryCode: "US",
+        },
+      ]);
+
+      const requests = stubHttp.getRequests();
+      expect(requests[1].url).toContain("/api/addressvalidation/v1/3");
+      const xavBody = JSON.parse(requests[1].body ?? "{}");
+      expect(xavBody.XAVRequest?.AddressKeyFormat).toMatchObject({
+        AddressLine: ["456 Dest Ave"],
+        PoliticalDivision2: "New York",
+        PoliticalDivision1: "NY",
+        PostcodePrimaryLow: "10001",
+        CountryCode: "US",
+      });
+    });
+
+    it("rejects countries without street-level validation before any HTTP call", async () => {
+      await expect(
+        service.validateAddress("ups", {
+          address: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+        })
+      ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+      expect(stubHttp.getRequests()).toHaveLength(0);
+    });
+  });
+});
+
+describe("getRatesFromAll", () => {
+  /** Minimal in-memory carrier so multi-carrier behavior can be tested without a second API. */
+  function fakeCarrier(
+    carrierId: string,
+    respond: () => Promise<RateResponse>
+  ): CarrierIntegration {
+    return {
+      carrierId,
+      supportedOperations: ["rate"],
+      async execute() {
+        return { operation: "rate", result: await respond() };
+      },
+    };
+  }
+
+  it("merges quotes from every carrier, cheapest first", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    const other = fakeCarrier("other", async () => ({
+      quotes: [
+        { carrier: "other", serviceCode: "ECO", serviceName: "Economy", totalCharge: { minorUnits: 999, currencyCode: "USD" } },
+        { carrier: "other", serviceCode: "STD", serviceName: "Standard", totalCharge: { minorUnits: 1250, currencyCode: "USD" }, transitDays: 2 },
+      ],
+    }));
+    const service = new CarrierIntegrationService({
+      carriers: [new UpsCarrier({ config, http: stub }), other],
+    });
+
+    const result = await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+
+    expect(result.errors).toEqual([]);
+    expect(result.quotes.map((q) => `${q.carrier}:${q.serviceCode}`)).toEqual([
+      "other:ECO",
+      "other:STD",
+      "ups:03",
+      "ups:07",
+    ]);
+  });
+
+  it("reports failing carriers as serialized errors next to successful quotes", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 503, body: { message: "Service Unavailable" } });
+    const other = fakeCarrier("other", async () => ({
+      quotes: [{ carrier: "other", serviceCode: "STD", serviceName: "Standard", totalCharge: { minorUnits: 800, currencyCode: "USD" } }],
+    }));
+    const service = new CarrierIntegrationService({
+      carriers: [new UpsCarrier({ config, http: stub }), other],
+    });
+
+    const result = await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.errors).toEqual([
+      { carrierId: "ups", error: expect.objectContaining({ code: "CARRIER_ERROR", statusCode: 503 }) },
+    ]);
+    expect(result.errors[0].error).not.toBeInstanceOf(Error);
+  });
+
+  it("times out slow carriers and reports unknown carriers", async () => {
+    const slow = fakeCarrier("slow", () => new Promise<RateResponse>(() => {}));
+    const fast = fakeCarrier("fast", async () => ({ quotes: [] }));
+    const service = new CarrierIntegrationService({ carriers: [slow, fast] });
+
+    const result = await service.getRatesFromAll(SAMPLE_RATE_REQUEST, {
+      carriers: ["slow", "fast", "nope"],
+      timeoutMs: 20,
+    });
+
+    expect(result.quotes).toEqual([]);
+    expect(result.errors.map((e) => [e.carrierId, e.error.code])).toEqual([
+      ["slow", "TIMEOUT"],
+      ["nope", "VALIDATION_ERROR"],
+    ]);
+  });
+
+  it("throws VALIDATION_ERROR for an invalid request instead of per-carrier errors", async () => {
+    const service = new CarrierIntegrationService({ carriers: [] });
+    await expect(
+      service.getRatesFromAll({ ...SAMPLE_RATE_REQUEST, packages: [] })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+  });
 });
 
 describe("UPS request builder and response parser", () => {
@@ -162,10 +622,297 @@ describe("UPS request builder and response parser", () => {
   it("parseUpsRateResponse normalizes to RateResponse", () => {
     const result = parseUpsRateResponse(UPS_RATE_SUCCESS, "ups");
     expect(result.quotes).toHaveLength(2);
-    expect(result.quotes[0].totalCharge).toBe(12.5);
+    expect(result.quotes[0].totalCharge).toEqual({ minorUnits: 1250, currencyCode: "USD" });
     expect(result.quotes[0].carrierServiceId).toBe("03");
   });
 
+  it("buildUpsRateRequest asks for negotiated rates when given a shipper account", () => {
+    const plain = buildUpsRateRequest(SAMPLE_RATE_REQUEST).RateRequest?.Shipment;
+    expect(plain?.Shipper).toBeUndefined();
+    expect(plain?.ShipmentRatingOptions).toBeUndefined();
+
+    const shipment = buildUpsRateRequest({ ...SAMPLE_RATE_REQUEST, shipperAccountNumber: "A1B2C3" })
+      .RateRequest?.Shipment;
+    expect(shipment?.Shipper).toMatchObject({ ShipperNumber: "A1B2C3", Address: { City: "Atlanta" } });
+    expect(shipment?.ShipmentRatingOptions).toEqual({ NegotiatedRatesIndicator: "" });
+  });
+
+  it("parseUpsRateResponse itemizes charges and prefers the negotiated total", () => {
+    const usd = (MonetaryValue: string) => ({ CurrencyCode: "USD", MonetaryValue });
+    const cents = (minorUnits: number) => ({ minorUnits, currencyCode: "USD" });
+    const result = parseUpsRateResponse(
+      {
+        RateResponse: {
+          Response: { ResponseStatus: { Code: "1" } },
+          RatedShipment: {
+            Service: { Code: "03" },
+            BaseServiceCharge: usd("10.00"),
+            TransportationCharges: usd("16.25"),
+            ServiceOptionsCharges: usd("1.50"),
+            ItemizedCharges: { Code: "270", ...usd("4.00") },
+            TotalCharges: usd("17.75"),
+            NegotiatedRateCharges: { TotalCharge: usd("14.10") },
+            RatedPackage: [
+              { ItemizedCharges: [{ Code: "375", ...usd("1.10") }, { Code: "376", ...usd("0.00") }] },
+              { ItemizedCharges: { Code: "375", ...usd("1.15") } },
+            ],
+          },
+        },
+      },
+      "ups"
+    );
+
+    expect(result.quotes).toEqual([
+      expect.objectContaining({
+        serviceName: "Ground",
+        totalCharge: cents(1410),
+        publishedCharge: cents(1775),
+        negotiatedCharge: cents(1410),
+        charges: [
+          { code: "BASE", description: "Base Service Charge", amount: cents(1000) },
+          { code: "270", description: "Residential Surcharge", amount: cents(400) },
+          { code: "375", description: "Fuel Surcharge", amount: cents(225) },
+          { code: "376", description: "Delivery Area Surcharge", amount: cents(0) },
+          { code: "SERVICE_OPTIONS", description: "Service Options", amount: cents(150) },
+        ],
+      }),
+    ]);
+    const published = parseUpsRateResponse(UPS_RATE_SUCCESS, "ups").quotes[0];
+    expect(published).toMatchObject({ totalCharge: cents(1250), publishedCharge: cents(1250) });
+    expect(published.negotiatedCharge).toBeUndefined();
+    expect(published.charges).toBeUndefined();
+  });
+
+  it("buildUpsRateRequest maps service options to UPS indicators and package options", () => {
+    const shipment = buildUpsRateRequest({
+      ...SAMPLE_RATE_REQUEST,
+      options: { residential: true, signature: "adult_signature", saturdayDelivery: true },
+      packages: [
+        { ...SAMPLE_RATE_REQUEST.packages[0], options: { declaredValue: { amount: 250, currencyCode: "USD" } } },
+      ],
+    }).RateRequest?.Shipment;
+
+    expect(shipment?.ShipTo?.Address?.ResidentialAddressIndicator).toBe("");
+    expect(shipment?.ShipmentServiceOptions).toEqual({ SaturdayDeliveryIndicator: "" });
+    expect(shipment?.Package?.[0]?.PackageServiceOptions).toEqual({
+      DeclaredValue: { CurrencyCode: "USD", MonetaryValue: "250.00" },
+      DeliveryConfirmation: { DCISType: "3" },
+    });
+
+    const cod = buildUpsRateRequest({
+      ...SAMPLE_RATE_REQUEST,
+      packages: [{ ...SAMPLE_RATE_REQUEST.packages[0], options: { cod: { amount: 40.5, currencyCode: "USD" } } }],
+    }).RateRequest?.Shipment?.Package?.[0];
+    expect(cod?.PackageServiceOptions).toEqual({
+      COD: { CODFundsCode: "0", CODAmount: { CurrencyCode: "USD", MonetaryValue: "40.50" } },
+    });
+  });
+
+  it("buildUpsRateRequest puts signatures on the shipment for international shipments", () => {
+    const shipment = buildUpsRateRequest({
+      ...SAMPLE_RATE_REQUEST,
+      destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+      options: { signature: "signature_required" },
+    }).RateRequest?.Shipment;
+
+    expect(shipment?.ShipmentServiceOptions).toEqual({ DeliveryConfirmation: { DCISType: "1" } });
+    expect(shipment?.Package?.[0]?.PackageServiceOptions).toBeUndefined();
+    expect(shipment?.ShipTo?.Address?.ResidentialAddressIndicator).toBeUndefined();
+  });
+
+  it("buildUpsRateRequest sends the invoice total and asks for taxes on cross-border shipments", () => {
+    const toCanada = {
+      ...SAMPLE_RATE_REQUEST,
+      destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+    };
+    const shipment = buildUpsRateRequest({
+      ...toCanada,
+      customs: {
+        contents: "merchandise",
+        commodities: [
+          { description: "Mug", hsCode: "691200", quantity: 2, unitValue: 12.5, countryOfOrigin: "US" },
+          { description: "Tea", hsCode: "0902300000", quantity: 3, unitValue: 8, countryOfOrigin: "IN" },
+        ],
+        currencyCode: "USD",
+        incoterm: "DDP",
+      },
+    }).RateRequest?.Shipment;
+    expect(shipment?.InvoiceLineTotal).toEqual({ CurrencyCode: "USD", MonetaryValue: "49.00" });
+    expect(shipment?.ShipmentRatingOptions).toEqual({ TaxInformationIndicator: "" });
+    expect(shipment?.DocumentsOnlyIndicator).toBeUndefined();
+
+    const documents = buildUpsRateRequest({ ...toCanada, customs: { contents: "documents" } }).RateRequest
+      ?.Shipment;
+    expect(documents?.DocumentsOnlyIndicator).toBe("");
+    expect(documents?.InvoiceLineTotal).toBeUndefined();
+  });
+
+  it("sums the UPS invoice total exactly in the currency's minor unit", () => {
+    const shipment = buildUpsRateRequest({
+      ...SAMPLE_RATE_REQUEST,
+      destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+      customs: {
+        contents: "merchandise",
+        commodities: [
+          { description: "Pin", hsCode: "731940", quantity: 3, unitValue: 0.1, countryOfOrigin: "US" },
+          { description: "Clip", hsCode: "731940", quantity: 1, unitValue: 0.2, countryOfOrigin: "US" },
+          { description: "Bag", hsCode: "420292", quantity: 1, unitValue: 150, countryOfOrigin: "US" },
+        ],
+        currencyCode: "jpy",
+        incoterm: "DAP",
+      },
+    }).RateRequest?.Shipment;
+    expect(shipment?.InvoiceLineTotal).toEqual({ CurrencyCode: "JPY", MonetaryValue: "150" });
+  });
+
+  it("parseUpsRateResponse reports duties and taxes as landed cost, billed per the incoterm", () => {
+    const body = {
+      RateResponse: {
+        RatedShipment: {
+          Service: { Code: "11" },
+          TotalCharges: { MonetaryValue: "31.20", CurrencyCode: "CAD" },
+          TaxCharges: [
+            { Type: "DUTY", MonetaryValue: "4.10" },
+            { Type: "HST", MonetaryValue: "6.90" },
+          ],
+        },
+      },
+    };
+    const customs = {
+      contents: "merchandise" as const,
+      commodities: [{ description: "Mug", hsCode: "691200", quantity: 2, unitValue: 12.5, countryOfOrigin: "US" }],
+      currencyCode: "USD",
+      incoterm: "DAP" as const,
+    };
+
+    const [quote] = parseUpsRateResponse(body, "ups", customs).quotes;
+    expect(quote.landedCost).toEqual({
+      charges: [
+        { code: "DUTY", description: "Import Duty", amount: { minorUnits: 410, currencyCode: "CAD" } },
+        { code: "HST", description: "Harmonized Sales Tax", amount: { minorUnits: 690, currencyCode: "CAD" } },
+      ],
+      total: { minorUnits: 1100, currencyCode: "CAD" },
+      billedTo: "recipient",
+    });
+    expect(
+      parseUpsRateResponse(body, "ups", { ...customs, incoterm: "DDP" }).quotes[0].landedCost?.billedTo
+    ).toBe("shipper");
+    expect(parseUpsRateResponse(UPS_RATE_SUCCESS, "ups").quotes[0].landedCost).toBeUndefined();
+  });
+
+  it("buildUpsRateRequest switches to Shoptimeintransit when given a ship or pickup date", () => {
+    const plain = buildUpsRateRequest(SAMPLE_RATE_REQUEST).RateRequest;
+    expect(plain?.Request?.RequestOption).toEqual(["Shop"]);
+    expect(plain?.Shipment?.DeliveryTimeInformation).toBeUndefined();
+
+    const shipment = buildUpsRateRequest({
+      ...SAMPLE_RATE_REQUEST,
+      shipDate: "2026-03-05",
+      pickupDate: "2026-03-06",
+      packages: [
+        { weight: 5, weightUnit: "LBS", dimensionUnit: "IN" },
+        { weight: 2, weightUnit: "KGS", dimensionUnit: "CM" },
+      ],
+    }).RateRequest;
+    expect(shipment?.Request?.RequestOption).toEqual(["Shoptimeintransit"]);
+    expect(shipment?.Shipment?.DeliveryTimeInformation).toEqual({
+      PackageBillType: "03",
+      Pickup: { Date: "20260306" },
+    });
+    expect(shipment?.Shipment?.ShipmentTotalWeight).toEqual({
+      UnitOfMeasurement: { Code: "LBS" },
+      Weight: "9.4",
+    });
+  });
+
+  it("parseUpsRateResponse reads arrival dates, delivery-by times and guarantees", () => {
+    const result = parseUpsRateResponse(
+      {
+        RateResponse: {
+          RatedShipment: [
+            {
+              Service: { Code: "01" },
+              TotalCharges: { MonetaryValue: "53.00" },
+              TimeInTransit: {
+                ServiceSummary: {
+                  GuaranteedIndicator: "",
+                  EstimatedArrival: {
+                    Arrival: { Date: "20260309", Time: "103000" },
+                    BusinessDaysInTransit: "1",
+                  },
+                },
+              },
+            },
+            {
+              Service: { Code: "03" },
+              TotalCharges: { MonetaryValue: "12.45" },
+              TimeInTransit: {
+                ServiceSummary: {
+                  EstimatedArrival: {
+                    Arrival: { Date: "20260312", Time: "230000" },
+                    BusinessDaysInTransit: "4",
+                  },
+                },
+              },
+            },
+            {
+              Service: { Code: "02" },
+              TotalCharges: { MonetaryValue: "33.90" },
+              GuaranteedDelivery: { BusinessDaysInTransit: "2", DeliveryByTime: "11:00 P.M." },
+            },
+          ],
+        },
+      },
+      "ups"
+    );
+
+    expect(result.quotes).toMatchObject([
+      {
+        serviceCode: "01",
+        transitDays: 1,
+        estimatedDelivery: "2026-03-09",
+        deliveryByTime: "10:30",
+        guaranteed: true,
+      },
+      {
+        serviceCode: "03",
+        transitDays: 4,
+        estimatedDelivery: "2026-03-12",
+        deliveryByTime: "23:00",
+        guaranteed: false,
+      },
+      { serviceCode: "02", transitDays: 2, deliveryByTime: "23:00", guaranteed: true },
+    ]);
+    expect(result.quotes[2].estimatedDelivery).toBeUndefined();
+  });
+
+  it("parseUpsRateResponse rejects unreadable or missing totals instead of quoting zero", () => {
+    const shipment = (charges: Record<string, unknown>) => ({
+      RateResponse: { RatedShipment: { Service: { Code: "03" }, ...charges } },
+    });
+
+    expect(() =>
+      parseUpsRateResponse(shipment({ TotalCharges: { CurrencyCode: "USD", MonetaryValue: "12,50" } }), "ups")
+    ).toThrow(
+      expect.objectContaining({
+        code: "MALFORMED_RESPONSE",
+        message: 'UPS rate response has an invalid TotalCharges amount: "12,50"',
+      })
+    );
+    expect(() =>
+      parseUpsRateResponse(
+        shipment({
+          TotalCharges: { CurrencyCode: "USD", MonetaryValue: "12.50" },
+          ItemizedCharges: { Code: "375", MonetaryValue: "N/A" },
+        }),
+        "ups"
+      )
+    ).toThrow(expect.objectContaining({ code: "MALFORMED_RESPONSE" }));
+    expect(() => parseUpsRateResponse(shipment({}), "ups")).toThrow(
+      expect.objectContaining({ code: "MALFORMED_RESPONSE", message: "UPS rate response has no total charge for service 03" })
+    );
+  });
+
   it("parseUpsRateResponse throws on malformed response", () => {
     expect(() => parseUpsRateResponse(null, "ups")).toThrow(CarrierIntegrationError);
     expect(() => parseUpsRateResponse({}, "ups")).toThrow(CarrierIntegrationError);
@@ -173,6 +920,156 @@ describe("UPS request builder and response parser", () => {
   });
 });
 
+describe("UPS ship request builder and response parser", () => {
+  it("buildUpsShipRequest bills the shipper account and uses it as ShipFrom by default", () => {
+    const built = buildUpsShipRequest({ ...SAMPLE_SHIPMENT_REQUEST, labelFormat: "ZPL" });
+    const shipment = built.ShipmentRequest?.Shipment;
+    expect(shipment?.ShipFrom?.Address?.City).toBe("Atlanta");
+    expect(shipment?.ShipTo?.Address?.PostalCode).toBe("10001");
+    expect(built.ShipmentRequest?.LabelSpecification?.LabelImageFormat?.Code).toBe("ZPL");
+  });
+
+  it("parseUpsShipResponse accepts PackageResults as an array", () => {
+    const body = structuredClone(UPS_SHIP_SUCCESS) as {
+      ShipmentResponse: { ShipmentResults: { PackageResults: unknown } };
+    };
+    const single = body.ShipmentResponse.ShipmentResults.PackageResults;
+    body.ShipmentResponse.ShipmentResults.PackageResults = [single, single];
+
+    const result = parseUpsShipResponse(body, "ups", "GIF");
+    expect(result.labels).toHaveLength(2);
+  });
+
+  it("parseUpsShipResponse throws MALFORMED_RESPONSE for undecodable labels", () => {
+    const body = structuredClone(UPS_SHIP_SUCCESS);
+    body.ShipmentResponse.ShipmentResults.PackageResults.ShippingLabel.GraphicImage = "not base64!";
+
+    expect(() => parseUpsShipResponse(body, "ups", "GIF")).toThrow(
+      expect.objectContaining({ code: "MALFORMED_RESPONSE" })
+    );
+  });
+});
+
+describe("UPS track response parser", () => {
+  it("reports delivered packages with deliveredAt and no estimate", () => {
+    const body = {
+      trackResponse: {
+        shipment: [
+          {
+            package: [
+              {
+                trackingNumber: "1Z999AA10123456784",
+                deliveryDate: [{ type: "DEL", date: "20240312" }],
+                activity: [
+                  { status: { type: "D", description: "DELIVERED" }, date: "20240312", time: "143000" },
+                  { status: { type: "I", description: "Out For Delivery Today", code: "OT" }, date: "20240312", time: "071500" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const [result] = parseUpsTrackResponse(body, "ups");
+    expect(result.status).toBe("delivered");
+    expect(result.deliveredAt).toBe("2024-03-12T14:30:00");
+    expect(result.estimatedDelivery).toBeUndefined();
+  });
+
+  it("orders events by instant across time zones and keeps UPS order for ties", () => {
+    const body = {
+      trackResponse: {
+        shipment: [
+          {
+            package: [
+              {
+                trackingNumber: "1Z999AA10123456784",
+                activity: [
+                  { status: { type: "I", description: "Arrived in Chicago" }, date: "20240310", time: "080000", gmtOffset: "-05:00" },
+                  { status: { type: "I", description: "Loaded" }, date: "20240310", time: "090000", gmtOffset: "-04:00" },
+                  { status: { type: "I", description: "Departed from New York" }, date: "20240310", time: "090000", gmtOffset: "-04:00" },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const [result] = parseUpsTrackResponse(body, "ups");
+    expect(result.events.map((e) => e.description)).toEqual([
+      "Departed from New York",
+      "Loaded",
+      "Arrived in Chicago",
+    ]);
+  });
+
+  it("maps unknown status types to unknown and tolerates missing activity", () => {
+    const body = {
+      trackResponse: {
+        shipment: [{ package: [{ trackingNumber: "1Z1", activity: [{ status: { type: "NA" }, date: "20240101" }] }] }],
+      },
+    };
+    expect(parseUpsTrackResponse(body, "ups")[0].status).toBe("unknown");
+
+    const empty = { trackResponse: { shipment: [{ package: [{ trackingNumber: "1Z2" }] }] } };
+    expect(parseUpsTrackResponse(empty, "ups")[0]).toMatchObject({ status: "unknown", events: [] });
+  });
+
+  it("throws CARRIER_ERROR when UPS returns only a warning", () => {
+    const body = {
+      trackResponse: {
+        shipment: [{ warnings: [{ code: "TW0001", message: "Tracking Information Not Found" }] }],
+      },
+    };
+    expect(() => parseUpsTrackResponse(body, "ups")).toThrow(
+      expect.objectContaining({ code: "CARRIER_ERROR", carrierCode: "TW0001" })
+    );
+  });
+});
+
+describe("UPS address validation response parser", () => {
+  it("reports ambiguous addresses with every candidate", () => {
+    const result = parseUpsXavResponse(
+      {
+        XAVResponse: {
+          AmbiguousAddressIndicator: "",
+          Candidate: [
+            { AddressClassification: { Code: "1" }, AddressKeyFormat: { AddressLine: ["100 MAIN ST STE 1"], PoliticalDivision2: "ATLANTA", PostcodePrimaryLow: "30301", CountryCode: "US" } },
+            { AddressClassification: { Code: "1" }, AddressKeyFormat: { AddressLine: ["100 MAIN ST STE 2"], PoliticalDivision2: "ATLANTA", PostcodePrimaryLow: "30301", CountryCode: "US" } },
+          ],
+        },
+      },
+      "ups"
+    );
+    expect(result.verdict).toBe("ambiguous");
+    expect(result.classification).toBe("commercial");
+    expect(result.candidates.map((c) => c.line1)).toEqual(["100 MAIN ST STE 1", "100 MAIN ST STE 2"]);
+  });
+
+  it("drops candidates missing a field the Address schema requires", () => {
+    const result = parseUpsXavResponse(
+      {
+        XAVResponse: {
+          AmbiguousAddressIndicator: "",
+          Candidate: [
+            { AddressKeyFormat: { AddressLine: ["100 MAIN ST STE 1"], PostcodePrimaryLow: "30301", CountryCode: "US" } },
+            { AddressKeyFormat: { AddressLine: ["100 MAIN ST STE 2"], PoliticalDivision2: "ATLANTA", PostcodePrimaryLow: "30301", CountryCode: "US" } },
+          ],
+        },
+      },
+      "ups"
+    );
+    expect(result.candidates.map((c) => c.line1)).toEqual(["100 MAIN ST STE 2"]);
+  });
+
+  it("reports invalid addresses with no candidates", () => {
+    const result = parseUpsXavResponse({ XAVResponse: { NoCandidatesIndicator: "" } }, "ups");
+    expect(result).toMatchObject({ verdict: "invalid", classification: "unknown", candidates: [] });
+  });
+});
+
 describe("Auth token lifecycle", () => {
   it("acquires token on first use", async () => {
     const stub = createStubHttpClient();
@@ -214,6 +1111,60 @@ describe("Auth token lifecycle", () => {
       statusCode: 429,
     });
   });
+
+  it("parallel requests on a cold cache share one token request", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    for (let i = 0; i < 3; i++) stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    const ups = new UpsCarrier({ config, http: stub });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => service.getRates("ups", SAMPLE_RATE_REQUEST))
+    );
+    expect(results.every((r) => r.quotes.length === 2)).toBe(true);
+    const tokenRequests = stub.getRequests().filter((r) => r.url === config.oauthTokenUrl);
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  it("a shared FileTokenStore lets a new process reuse the stored token", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "token-store-"));
+    try {
+      const path = join(dir, "tokens.json");
+      const first = createStubHttpClient();
+      first.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+      first.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+      const worker1 = new UpsCarrier({ config, http: first, tokenStore: new FileTokenStore(path) });
+      await new CarrierIntegrationService({ carriers: [worker1] }).getRates("ups", SAMPLE_RATE_REQUEST);
+
+      const second = createStubHttpClient();
+      second.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+      const worker2 = new UpsCarrier({ config, http: second, tokenStore: new FileTokenStore(path) });
+      await new CarrierIntegrationService({ carriers: [worker2] }).getRates("ups", SAMPLE_RATE_REQUEST);
+
+      expect(second.getRequests().map((r) => r.url)).not.toContain(config.oauthTokenUrl);
+      const stored = JSON.parse(await readFile(path, "utf-8"));
+      expect(stored[`ups:${config.clientId}`]).toMatchObject({
+        accessToken: UPS_OAUTH_SUCCESS.access_token,
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("requests a new token when the stored one has expired", async () => {
+    const store = new InMemoryTokenStore();
+    await store.set(`ups:${config.clientId}`, { accessToken: "stale", expiresAtMs: Date.now() });
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+
+    const { UpsOAuthClient } = await import("./auth/ups-oauth.js");
+    const client = new UpsOAuthClient(config, stub, store);
+
+    expect(await client.getValidToken()).toBe(UPS_OAUTH_SUCCESS.access_token);
+    expect(stub.getRequests()).toHaveLength(1);
+  });
 });
 
 describe("Error handling: rate API", () => {
@@ -235,18 +1186,83 @@ describe("Error handling: rate API", () => {
     });
   });
 
-  it("401 from rate API produces AUTH_TOKEN_EXPIRED", async () => {
+  it("401 from rate API refreshes the token and replays the request once", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 401, body: {} });
+    stub.stubNext({ status: 200, body: { ...UPS_OAUTH_SUCCESS, access_token: "fresh-token" } });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    const ups = new UpsCarrier({ config, http: stub });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const result = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    expect(result.quotes).toHaveLength(2);
+    const urls = stub.getRequests().map((r) => r.url);
+    expect(urls.filter((u) => u === config.oauthTokenUrl)).toHaveLength(2);
+    expect(urls.filter((u) => u.includes("/Shop"))).toHaveLength(2);
+  });
+
+  it("concurrent 401s for the same token share one replacement token", async () => {
+    let tokensIssued = 0;
+    let rejected = 0;
+    const http: HttpClient = {
+      async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
+        if (options.url === config.oauthTokenUrl) {
+          tokensIssued++;
+          const body = { ...UPS_OAUTH_SUCCESS, access_token: `token-${tokensIssued}` };
+          return { status: 200, headers: {}, body: body as T };
+        }
+        if (options.headers?.Authorization === "Bearer token-1") {
+          // Rejections arrive one by one, after the first caller has a new token
+          await new Promise((resolve) => setTimeout(resolve, 10 * rejected++));
+          return { status: 401, headers: {}, body: {} as T };
+        }
+        return { status: 200, headers: {}, body: UPS_RATE_SUCCESS as T };
+      },
+    };
+
+    const ups = new UpsCarrier({ config, http });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const results = await Promise.all([
+      service.getRates("ups", SAMPLE_RATE_REQUEST),
+      service.getRates("ups", SAMPLE_RATE_REQUEST),
+      service.getRates("ups", SAMPLE_RATE_REQUEST),
+    ]);
+    expect(results.map((r) => r.quotes.length)).toEqual([2, 2, 2]);
+    expect(tokensIssued).toBe(2);
+  });
+
+  it("401 with a freshly issued token produces AUTH_FAILED", async () => {
     const stub = createStubHttpClient();
     stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
     stub.stubNext({ status: 401, body: {} });
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 401, body: {} });
 
     const ups = new UpsCarrier({ config, http: stub });
     const service = new CarrierIntegrationService({ carriers: [ups] });
 
     await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
-      code: "AUTH_TOKEN_EXPIRED",
+      code: "AUTH_FAILED",
       statusCode: 401,
     });
+    expect(stub.getRequests()).toHaveLength(4);
+  });
+
+  it("401 from track API is replayed with a fresh token too", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 401, body: {} });
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_TRACK_IN_TRANSIT });
+
+    const ups = new UpsCarrier({ config, http: stub });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const result = await service.track("ups", { trackingNumbers: ["1Z999AA10123456784"] });
+    expect(result.results[0].status).toBe("out_for_delivery");
   });
 
   it("5xx from rate API produces CARRIER_ERROR", async () => {
@@ -280,3 +1296,80 @@ describe("Error handling: rate API", () => {
     expect(["NETWORK_ERROR", "TIMEOUT", "UNKNOWN"]).toContain((err as CarrierIntegrationError).code);
   });
 });
+
+describe("Retry policy", () => {
+  const noWait = { initialDelayMs: 0 };
+
+  it("retries a 503 from rate API and returns the next success", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 503, body: { message: "Service Unavailable" } });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    const ups = new UpsCarrier({ config, http: stub, retry: noWait });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const result = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    expect(result.quotes).toHaveLength(2);
+    expect(stub.getRequests().filter((r) => r.url.includes("/Shop"))).toHaveLength(2);
+  });
+
+  it("waits for Retry-After on 429 and lists every attempt when it gives up", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 429, body: {}, headers: { "Retry-After": "0" } });
+    stub.stubNext({ status: 429, body: {}, headers: { "Retry-After": "0" } });
+
+    const ups = new UpsCarrier({ config, http: stub, retry: { maxAttempts: 2 } });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+      context: {
+        attempts: [
+          { attempt: 1, code: "RATE_LIMITED", statusCode: 429, delayMs: 0 },
+          { attempt: 2, code: "RATE_LIMITED", statusCode: 429 },
+        ],
+      },
+    });
+  });
+
+  it("does not retry non-transient errors", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 400, body: { response: { errors: [{ code: "INVALID_REQUEST" }] } } });
+
+    const ups = new UpsCarrier({ config, http: stub, retry: noWait });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    const err = await service.getRates("ups", SAMPLE_RATE_REQUEST).catch((e) => e);
+    expect(err).toMatchObject({ code: "CARRIER_ERROR", statusCode: 400 });
+    expect(err.context.attempts).toBeUndefined();
+    expect(stub.getRequests()).toHaveLength(2);
+  });
+
+  it("does not retry label creation by default", async () => {
+    const stub = createStubHttpClient();
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 503, body: { message: "Service Unavailable" } });
+
+    const ups = new UpsCarrier({ config, http: stub, retry: noWait });
+    const service = new CarrierIntegrationService({ carriers: [ups] });
+
+    await expect(service.createLabel("ups", SAMPLE_SHIPMENT_REQUEST)).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+      statusCode: 503,
+    });
+    expect(stub.getRequests()).toHaveLength(2);
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfterMs({ "retry-after": "3" })).toBe(3_000);
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfterMs({ "Retry-After": "Thu, 01 Jan 2026 00:00:10 GMT" }, now)).toBe(10_000);
+    expect(parseRetryAfterMs({ "retry-after": "soon" })).toBeUndefined();
+    expect(parseRetryAfterMs({})).toBeUndefined();
+  });
+});
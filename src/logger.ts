@@ -0,0 +1,76 @@
+/**
+ * Pluggable logging. The library logs through the small Logger interface so
+ * callers can adapt pino, winston or console; createJsonLogger() is a minimal
+ * JSON-lines implementation. A correlation id is carried through async calls
+ * (AsyncLocalStorage) so every log line of one service call can be joined, and
+ * is returned to callers as RateResponse.requestId.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/** Logger that discards everything; the default when none is configured. */
+export const noopLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+export interface JsonLoggerOptions {
+  /** Entries below this level are dropped (default "info") */
+  level?: LogLevel;
+  /** Receives one JSON line per entry; defaults to stderr */
+  write?: (line: string) => void;
+  now?: () => number;
+}
+
+/** Logger writing one JSON object per line: { time, level, msg, ...fields }. */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+  const minLevel = LEVEL_ORDER[options.level ?? "info"];
+  const write = options.write ?? ((line: string) => void process.stderr.write(`${line}\n`));
+  const now = options.now ?? Date.now;
+
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[level] < minLevel) return;
+    write(JSON.stringify({ time: new Date(now()).toISOString(), level, msg: message, ...fields }));
+  };
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+/** True when `level` is at least as severe as `threshold`. */
+export function isLevelAtLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[threshold];
+}
+
+const correlationStorage = new AsyncLocalStorage<string>();
+
+/** Correlation id of the service call currently running, if any. */
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Run `fn` with a correlation id visible to getCorrelationId() in everything
+ * it awaits. Defaults to the current id, so nested calls share one; a new
+ * UUID is generated outside any call.
+ */
+export function withCorrelationId<T>(
+  fn: (correlationId: string) => Promise<T>,
+  correlationId: string = getCorrelationId() ?? randomUUID()
+): Promise<T> {
+  return correlationStorage.run(correlationId, () => fn(correlationId));
+}
@@ -0,0 +1,166 @@
+/**
+ * Logging decorator tests: UPS through the service with a capturing JSON
+ * logger, checking redaction, levels and correlation ids.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { createLoggingHttpClient, redactBody, redactHeaders } from "./logging-http-client.js";
+import { createJsonLogger, withCorrelationId, type LogLevel } from "./logger.js";
+import { CarrierIntegrationService } from "./service.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { getUpsConfig } from "./config.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import type { RateRequest } from "./domain.js";
+
+const UPS_OAUTH_SUCCESS = { access_token: "test_token_abc123", expires_in: 3600 };
+
+const UPS_RATE_SUCCESS = {
+  RateResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Name: "Ground" },
+        TotalCharges: { MonetaryValue: "12.50", CurrencyCode: "USD" },
+      },
+    ],
+  },
+};
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: { line1: "123 Origin St", city: "Atlanta", postalCode: "30301", countryCode: "US" },
+  destination: { line1: "456 Dest Ave", city: "New York", postalCode: "10001", countryCode: "US" },
+  packages: [{ weight: 5, weightUnit: "LBS", dimensionUnit: "IN" }],
+};
+
+const config = {
+  ...getUpsConfig(),
+  clientId: "test_client",
+  clientSecret: "test_secret",
+  apiBaseUrl: "https://api.example.com",
+  oauthTokenUrl: "https://auth.example.com/token",
+};
+
+interface Entry {
+  level: LogLevel;
+  msg: string;
+  requestId?: string;
+  [field: string]: unknown;
+}
+
+describe("Logging HTTP client", () => {
+  let stub: ReturnType<typeof createStubHttpClient>;
+  let lines: string[];
+  let entries: () => Entry[];
+
+  function loggingService(options: { level?: LogLevel; bodyLevel?: LogLevel | "off" } = {}) {
+    let clock = 1_000;
+    const http = createLoggingHttpClient(stub, {
+      logger: createJsonLogger({ level: "debug", write: (line) => lines.push(line) }),
+      now: () => (clock += 25),
+      ...options,
+    });
+    return new CarrierIntegrationService({ carriers: [new UpsCarrier({ config, http })] });
+  }
+
+  beforeEach(() => {
+    stub = createStubHttpClient();
+    lines = [];
+    entries = () => lines.map((line) => JSON.parse(line) as Entry);
+  });
+
+  it("logs requests, responses and bodies with credentials redacted", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+
+    await loggingService().getRates("ups", SAMPLE_RATE_REQUEST);
+
+    const log = lines.join("\n");
+    expect(log).not.toContain("test_token_abc123");
+    expect(log).not.toContain(Buffer.from("test_client:test_secret").toString("base64"));
+    expect(log).not.toContain('"x-merchant-id":"test_client"');
+
+    const [tokenRequest, tokenResponse, tokenBody, rateRequest, rateResponse] = entries();
+    expect(tokenRequest).toMatchObject({
+      level: "debug",
+      msg: "carrier http request",
+      method: "POST",
+      url: "https://auth.example.com/token",
+      headers: { Authorization: "Basic [REDACTED]", "x-merchant-id": "[REDACTED]" },
+    });
+    expect(tokenResponse).toMatchObject({ level: "info", status: 200, durationMs: 25 });
+    expect(tokenBody).toMatchObject({ body: { access_token: "[REDACTED]", expires_in: 3600 } });
+    expect(rateRequest).toMatchObject({
+      headers: { Authorization: "Bearer [REDACTED]" },
+      body: { RateRequest: { Shipment: { ShipTo: { Address: { City: "New York" } } } } },
+    });
+    expect(rateResponse).toMatchObject({ msg: "carrier http response", status: 200 });
+  });
+
+  it("tags every entry with the correlation id returned as requestId", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    const service = loggingService({ bodyLevel: "off" });
+
+    const first = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    const second = await service.getRates("ups", SAMPLE_RATE_REQUEST, { requestId: "req-123" });
+
+    expect(first.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.requestId).toBe("req-123");
+    expect(entries().map((e) => e.requestId)).toEqual([
+      first.requestId,
+      first.requestId,
+      "req-123",
+    ]);
+  });
+
+  it("shares one correlation id across a multi-carrier call and an enclosing scope", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    const service = loggingService({ bodyLevel: "off" });
+
+    const response = await withCorrelationId(
+      () => service.getRatesFromAll(SAMPLE_RATE_REQUEST),
+      "upstream-42"
+    );
+
+    expect(response.requestId).toBe("upstream-42");
+    expect(new Set(entries().map((e) => e.requestId))).toEqual(new Set(["upstream-42"]));
+  });
+
+  it("logs carrier errors at warn and transport failures at error", async () => {
+    stub.stubNext({ status: 503, body: "Service Unavailable" });
+    const service = loggingService({ bodyLevel: "off" });
+
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "AUTH_FAILED",
+    });
+    stub.stubNextReject(new Error("ECONNRESET"));
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+
+    expect(entries()).toMatchObject([
+      { level: "warn", msg: "carrier http response", status: 503 },
+      { level: "error", msg: "carrier http request failed", error: "ECONNRESET" },
+    ]);
+  });
+});
+
+describe("redaction", () => {
+  it("keeps the auth scheme and matches header names case-insensitively", () => {
+    expect(
+      redactHeaders({ authorization: "Bearer abc", "X-Merchant-Id": "123", Accept: "application/json" })
+    ).toEqual({ authorization: "Bearer [REDACTED]", "X-Merchant-Id": "[REDACTED]", Accept: "application/json" });
+  });
+
+  it("redacts form-encoded and nested JSON credentials", () => {
+    expect(
+      redactBody("grant_type=client_credentials&client_id=abc&client_secret=s3cr3t")
+    ).toBe("grant_type=client_credentials&client_id=%5BREDACTED%5D&client_secret=%5BREDACTED%5D");
+    expect(redactBody('{"data":[{"access_token":"t","scope":"rates"}]}')).toEqual({
+      data: [{ access_token: "[REDACTED]", scope: "rates" }],
+    });
+    expect(redactBody("plain text")).toBe("plain text");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * HttpClient decorator that logs every carrier exchange: method, URL, status
+ * and latency, plus headers and bodies at a separate (usually lower) level.
+ * Credentials never reach the logger: Authorization and x-merchant-id headers
+ * and token, client id and secret fields in bodies are redacted before logging.
+ */
+
+import type { HttpClient, HttpRequestOptions, HttpResponse } from "./http-client.js";
+import { getCorrelationId, isLevelAtLeast, type Logger, type LogLevel } from "./logger.js";
+
+export interface LoggingHttpClientOptions {
+  logger: Logger;
+  /** Level for method, URL, status and latency (default "info"); 4xx/5xx log at least at "warn" */
+  level?: LogLevel;
+  /** Level for headers and bodies, or "off" to never log them (default "debug") */
+  bodyLevel?: LogLevel | "off";
+  now?: () => number;
+}
+
+export const REDACTED = "[REDACTED]";
+
+/** Headers whose whole value is a credential. Authorization keeps its scheme. */
+const SECRET_HEADERS = new Set(["x-merchant-id", "cookie", "set-cookie"]);
+
+/** Body fields (JSON or form-encoded) that hold credentials. */
+const SECRET_FIELDS = new Set([
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "client_id",
+  "client_secret",
+  "password",
+]);
+
+/** Wrap `http` so each request and response is logged with secrets redacted. */
+export function createLoggingHttpClient(
+  http: HttpClient,
+  options: LoggingHttpClientOptions
+): HttpClient {
+  const { logger } = options;
+  const level = options.level ?? "info";
+  const bodyLevel = options.bodyLevel ?? "debug";
+  const now = options.now ?? Date.now;
+
+  return {
+    async request<T>(request: HttpRequestOptions): Promise<HttpResponse<T>> {
+      const base = { requestId: getCorrelationId(), method: request.method, url: request.url };
+      if (bodyLevel !== "off") {
+        logger[bodyLevel]("carrier http request", {
+          ...base,
+          headers: redactHeaders(request.headers ?? {}),
+          body: redactBody(request.body),
+        });
+      }
+
+      const startedAt = now();
+      let response: HttpResponse<T>;
+      try {
+        response = await http.request<T>(request);
+      } catch (err) {
+        logger.error("carrier http request failed", {
+          ...base,
+          durationMs: now() - startedAt,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      }
+
+      const durationMs = now() - startedAt;
+      const responseLevel = response.status >= 400 && !isLevelAtLeast(level, "warn") ? "warn" : level;
+      logger[responseLevel]("carrier http response", { ...base, status: response.status, durationMs });
+      if (bodyLevel !== "off") {
+        logger[bodyLevel]("carrier http response body", {
+          ...base,
+          status: response.status,
+          headers: redactHeaders(response.headers),
+          body: redactBody(response.body),
+        });
+      }
+      return response;
+    },
+  };
+}
+
+/** Copy of `headers` with credentials replaced; names are matched case-insensitively. */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (lower === "authorization" || lower === "proxy-authorization") {
+      const scheme = /^(\w+)\s/.exec(value)?.[1];
+      redacted[name] = scheme ? `${scheme} ${REDACTED}` : REDACTED;
+    } else {
+      redacted[name] = SECRET_HEADERS.has(lower) ? REDACTED : value;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Redact credential fields in a body. Strings are parsed as JSON or, failing
+ * that, as a form-encoded body such as an OAuth token request.
+ */
+export function redactBody(body: unknown): unknown {
+  if (typeof body !== "string") return redactValue(body);
+  const text = body.trim();
+  if (text.startsWith("{") || text.startsWith("[")) {
+    try {
+      return redactValue(JSON.parse(text));
+    } catch {
+      return body;
+    }
+  }
+  if (/^[\w.%+-]+=[^\s]*$/.test(text)) {
+    const form = new URLSearchParams(text);
+    for (const key of [...form.keys()]) {
+      if (SECRET_FIELDS.has(key.toLowerCase())) form.set(key, REDACTED);
+    }
+    return form.toString();
+  }
+  return body;
+}
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (value === null || typeof value !== "object") return value;
+  const redacted: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    redacted[key] = SECRET_FIELDS.has(key.toLowerCase()) ? REDACTED : redactValue(field);
+  }
+  return redacted;
+}
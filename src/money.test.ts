@@ -0,0 +1,77 @@
+/**
+ * Money tests: exact parsing into minor units, arithmetic, comparison and
+ * formatting per currency (no HTTP involved).
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  parseMoney,
+  sumMoney,
+  toDecimalString,
+} from "./money.js";
+
+describe("parseMoney", () => {
+  it("reads decimal strings and numbers into minor units of the currency", () => {
+    expect(parseMoney("12.50", "USD")).toEqual({ minorUnits: 1250, currencyCode: "USD" });
+    expect(parseMoney(11.87, "USD")).toEqual({ minorUnits: 1187, currencyCode: "USD" });
+    expect(parseMoney("1500", "JPY")).toEqual({ minorUnits: 1500, currencyCode: "JPY" });
+    expect(parseMoney("1.234", "BHD")).toEqual({ minorUnits: 1234, currencyCode: "BHD" });
+    expect(parseMoney("-3.5", "EUR")).toEqual({ minorUnits: -350, currencyCode: "EUR" });
+  });
+
+  it("rounds digits past the minor unit half away from zero", () => {
+    expect(parseMoney("1.005", "USD")?.minorUnits).toBe(101);
+    expect(parseMoney(1.005, "USD")?.minorUnits).toBe(101);
+    expect(parseMoney("-0.125", "USD")?.minorUnits).toBe(-13);
+    expect(parseMoney("99.5", "JPY")?.minorUnits).toBe(100);
+  });
+
+  it("returns undefined for anything that is not a plain decimal amount", () => {
+    for (const value of ["", "N/A", "12,50", "1e3", "$5", Number.NaN, Infinity]) {
+      expect(parseMoney(value, "USD")).toBeUndefined();
+    }
+    expect(parseMoney("5.00", "usd")).toBeUndefined();
+    expect(parseMoney("5.00", "")).toBeUndefined();
+  });
+});
+
+describe("Money arithmetic", () => {
+  const usd = (minorUnits: number) => ({ minorUnits, currencyCode: "USD" });
+
+  it("adds exactly where floats drift", () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(addMoney(usd(10), usd(20))).toEqual(parseMoney("0.30", "USD"));
+    expect(sumMoney([usd(1110), usd(115), usd(0)], "USD")).toEqual(usd(1225));
+    expect(sumMoney([], "CAD")).toEqual({ minorUnits: 0, currencyCode: "CAD" });
+  });
+
+  it("compares amounts and refuses to mix currencies", () => {
+    expect(compareMoney(usd(999), usd(1000))).toBeLessThan(0);
+    expect(compareMoney(usd(1000), usd(1000))).toBe(0);
+    expect(() => addMoney(usd(100), { minorUnits: 100, currencyCode: "EUR" })).toThrow(
+      expect.objectContaining({ code: "VALIDATION_ERROR", message: "Cannot add USD and EUR amounts" })
+    );
+    expect(() => compareMoney(usd(100), { minorUnits: 100, currencyCode: "CAD" })).toThrow(
+      expect.objectContaining({ code: "VALIDATION_ERROR" })
+    );
+  });
+});
+
+describe("Money formatting", () => {
+  it("writes plain decimals with the currency's minor digits", () => {
+    expect(toDecimalString({ minorUnits: 1250, currencyCode: "USD" })).toBe("12.50");
+    expect(toDecimalString({ minorUnits: 5, currencyCode: "USD" })).toBe("0.05");
+    expect(toDecimalString({ minorUnits: -350, currencyCode: "EUR" })).toBe("-3.50");
+    expect(toDecimalString({ minorUnits: 1500, currencyCode: "JPY" })).toBe("1500");
+    expect(toDecimalString({ minorUnits: 1234, currencyCode: "BHD" })).toBe("1.234");
+  });
+
+  it("formats for display per locale", () => {
+    expect(formatMoney({ minorUnits: 123456, currencyCode: "USD" })).toBe("$1,234.56");
+    expect(formatMoney({ minorUnits: 1500, currencyCode: "JPY" })).toBe("¥1,500");
+    expect(formatMoney({ minorUnits: 1250, currencyCode: "EUR" }, "de-DE")).toBe("12,50 €");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Money arithmetic on integer minor units (cents for USD, yen for JPY, fils
+ * for BHD). Carrier amounts are parsed straight from their decimal strings,
+ * so totals add up exactly instead of drifting like binary floats.
+ */
+
+import type { Money } from "./domain.js";
+import { CarrierIntegrationError } from "./errors.js";
+
+const DECIMAL = /^([+-])?(\d+)(?:\.(\d*))?$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const minorDigitsByCurrency = new Map<string, number>();
+
+/** ISO 4217 minor unit digits: 2 for USD, 0 for JPY, 3 for BHD. */
+export function currencyMinorDigits(currencyCode: string): number {
+  let digits = minorDigitsByCurrency.get(currencyCode);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat("en", { style: "currency", currency: currencyCode }).resolvedOptions()
+      .maximumFractionDigits ?? 2;
+    minorDigitsByCurrency.set(currencyCode, digits);
+  }
+  return digits;
+}
+
+/**
+ * Parse a decimal amount ("12.50", or a JSON number) in `currencyCode`.
+ * Digits past the currency's minor unit round half away from zero. Returns
+ * undefined for anything that is not a plain decimal or a 3-letter code;
+ * carrier parsers turn that into MALFORMED_RESPONSE.
+ */
+export function parseMoney(value: string | number, currencyCode: string): Money | undefined {
+  if (!CURRENCY_CODE.test(currencyCode)) return undefined;
+  // toFixed expands a double exactly, so 11.87 reads as "11.870000000000"
+  const text = typeof value === "number" ? (Number.isFinite(value) ? value.toFixed(12) : "") : value.trim();
+  const match = DECIMAL.exec(text);
+  if (!match) return undefined;
+
+  const digits = currencyMinorDigits(currencyCode);
+  const fraction = (match[3] ?? "").padEnd(digits + 1, "0");
+  const roundUp = fraction[digits] >= "5" ? 1 : 0;
+  const magnitude = Number(match[2]) * 10 ** digits + Number(fraction.slice(0, digits) || "0") + roundUp;
+  if (!Number.isSafeInteger(magnitude)) return undefined;
+  return { minorUnits: match[1] === "-" ? -magnitude : magnitude, currencyCode };
+}
+
+/** Zero in `currencyCode`. */
+export function zeroMoney(currencyCode: string): Money {
+  return { minorUnits: 0, currencyCode };
+}
+
+/** Exact sum; throws VALIDATION_ERROR for different currencies. */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b, "add");
+  return { minorUnits: a.minorUnits + b.minorUnits, currencyCode: a.currencyCode };
+}
+
+/** Exact sum of `amounts`, zero in `currencyCode` when empty. */
+export function sumMoney(amounts: readonly Money[], currencyCode: string): Money {
+  return amounts.reduce(addMoney, zeroMoney(currencyCode));
+}
+
+/** Negative, zero or positive as `a` is less than, equal to or greater than `b`; same currency only. */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b, "compare");
+  return a.minorUnits - b.minorUnits;
+}
+
+/**
+ * `money` in `currencyCode` at `rate` (units of the target per one unit of
+ * the source), rounded half away from zero to the target's minor unit.
+ */
+export function convertMoney(money: Money, currencyCode: string, rate: number): Money {
+  const scale = 10 ** (currencyMinorDigits(currencyCode) - currencyMinorDigits(money.currencyCode));
+  const converted = Math.abs(money.minorUnits) * rate * scale;
+  // Drop float noise first so 137.49999999999997 does not round down
+  const minorUnits = Math.round(Number(converted.toFixed(6)));
+  return { minorUnits: money.minorUnits < 0 ? -minorUnits : minorUnits, currencyCode };
+}
+
+/** Plain decimal string with the currency's minor digits, e.g. "12.50" or "1500" for JPY. */
+export function toDecimalString(money: Money): string {
+  const digits = currencyMinorDigits(money.currencyCode);
+  const sign = money.minorUnits < 0 ? "-" : "";
+  const units = String(Math.abs(money.minorUnits)).padStart(digits + 1, "0");
+  if (digits === 0) return `${sign}${units}`;
+  return `${sign}${units.slice(0, -digits)}.${units.slice(-digits)}`;
+}
+
+/** Locale-aware display string, e.g. "$12.50", "¥1,500" or "12,50 €" (de-DE). */
+export function formatMoney(money: Money, locale = "en-US"): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency: money.currencyCode }).format(
+    Number(toDecimalString(money))
+  );
+}
+
+function assertSameCurrency(a: Money, b: Money, operation: string): void {
+  if (a.currencyCode !== b.currencyCode) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `Cannot ${operation} ${a.currencyCode} and ${b.currencyCode} amounts`,
+      context: { currencies: [a.currencyCode, b.currencyCode] },
+    });
+  }
+}
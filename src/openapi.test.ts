@@ -0,0 +1,67 @@
+/**
+ * Spec drift test: the committed spec/ files must match what the generator
+ * produces from the current zod schemas. Regenerate with `npm run spec`.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFile, readdir } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { buildJsonSchemas, buildOpenApiDocument, renderSpecFiles } from "./openapi.js";
+import { ERROR_HTTP_STATUS } from "./server.js";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+
+describe("OpenAPI and JSON Schema generation", () => {
+  it("committed spec files match the domain schemas (run `npm run spec` to update)", async () => {
+    const expected = renderSpecFiles();
+    for (const [path, contents] of Object.entries(expected)) {
+      const committed = await readFile(`${root}${path}`, "utf-8").catch(() => "<missing>");
+      expect(committed, `${path} is out of date`).toBe(contents);
+    }
+
+    const committedSchemas = await readdir(`${root}spec/json-schema`);
+    const expectedSchemas = Object.keys(expected)
+      .filter((p) => p.startsWith("spec/json-schema/"))
+      .map((p) => p.slice("spec/json-schema/".length));
+    expect(committedSchemas.sort()).toEqual(expectedSchemas.sort());
+  });
+
+  it("emits a JSON Schema per exported domain schema, with wire types for labels", () => {
+    const schemas = buildJsonSchemas();
+
+    expect(schemas.RateRequest).toMatchObject({
+      type: "object",
+      required: ["origin", "destination", "packages"],
+    });
+    expect(schemas.Package.properties).toMatchObject({
+      weight: { type: "number", exclusiveMinimum: 0 },
+      weightUnit: { enum: ["LBS", "KGS"], default: "LBS" },
+    });
+    expect(schemas.PackageLabel.properties).toMatchObject({
+      image: { type: "string", contentEncoding: "base64" },
+    });
+  });
+
+  it("describes every route and the error envelope with all error codes", () => {
+    const doc = buildOpenApiDocument() as {
+      openapi: string;
+      paths: Record<string, unknown>;
+      components: { schemas: Record<string, { properties?: Record<string, { enum?: string[] }> }> };
+    };
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(Object.keys(doc.paths).sort()).toEqual([
+      "/health/live",
+      "/health/ready",
+      "/v1/address-validation/{carrierId}",
+      "/v1/carriers",
+      "/v1/labels/{carrierId}",
+      "/v1/rates",
+      "/v1/rates/{carrierId}",
+      "/v1/tracking/{carrierId}",
+    ]);
+    expect(doc.components.schemas.ErrorDetails.properties?.code.enum).toEqual(
+      Object.keys(ERROR_HTTP_STATUS)
+    );
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Machine-readable contract generated from the zod domain schemas: one JSON
+ * Schema per exported schema, and an OpenAPI 3.1 document for the REST API in
+ * server.ts. `npm run spec` writes them to spec/; a test fails when the
+ * committed files drift from the schemas.
+ */
+
+import type { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import * as domain from "./domain.js";
+import { ERROR_HTTP_STATUS } from "./server.js";
+import type { ErrorCode } from "./errors.js";
+
+type JsonSchema = Record<string, unknown>;
+
+/** Bump when the REST contract changes. */
+export const API_VERSION = "1.0.0";
+
+/** Exported domain schemas by name without the "Schema" suffix (e.g. "RateRequest"). */
+function domainSchemas(): Record<string, ZodTypeAny> {
+  const schemas: Record<string, ZodTypeAny> = {};
+  for (const [exportName, value] of Object.entries(domain)) {
+    if (exportName.endsWith("Schema")) {
+      schemas[exportName.slice(0, -"Schema".length)] = value as ZodTypeAny;
+    }
+  }
+  return schemas;
+}
+
+/**
+ * JSON Schema (draft-07) for every exported domain schema, fully inlined.
+ * Unknown properties are allowed, as zod strips rather than rejects them.
+ */
+export function buildJsonSchemas(): Record<string, JsonSchema> {
+  const result: Record<string, JsonSchema> = {};
+  const entries = Object.entries(domainSchemas()).sort(([a], [b]) => a.localeCompare(b));
+  for (const [name, schema] of entries) {
+    const jsonSchema = zodToJsonSchema(schema, {
+      $refStrategy: "none",
+      removeAdditionalStrategy: "strict",
+    }) as JsonSchema;
+    result[name] = { ...withWireTypes(name, jsonSchema), title: name };
+  }
+  return result;
+}
+
+/** Label images are Buffers in process but base64 strings on the wire. */
+function withWireTypes(name: string, schema: JsonSchema): JsonSchema {
+  const base64Image = { type: "string", contentEncoding: "base64" };
+  const labelSchema = (label: JsonSchema): JsonSchema => ({
+    ...label,
+    properties: { ...(label.properties as JsonSchema), image: base64Image },
+  });
+  if (name === "PackageLabel") return labelSchema(schema);
+  if (name === "LabelResponse") {
+    const properties = schema.properties as Record<string, JsonSchema>;
+    return {
+      ...schema,
+      properties: {
+        ...properties,
+        labels: { ...properties.labels, items: labelSchema(properties.labels.items as JsonSchema) },
+      },
+    };
+  }
+  return schema;
+}
+
+/** CarrierIntegrationError.toJSON() without cause or internal context, as sent to clients. */
+function errorDetailsSchema(): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      code: { type: "string", enum: Object.keys(ERROR_HTTP_STATUS) },
+      message: { type: "string" },
+      statusCode: { type: "integer", description: "Carrier HTTP status, when the carrier answered" },
+      carrierCode: { type: "string", description: "Carrier's own error code, if present" },
+      context: {
+        type: "object",
+        additionalProperties: true,
+        description: "Client-safe details, e.g. violations or retryAfterMs",
+      },
+    },
+    required: ["code", "message"],
+  };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function jsonContent(schema: JsonSchema) {
+  return { content: { "application/json": { schema } } };
+}
+
+/** Error responses for a route, one per distinct status its error codes map to. */
+function errorResponses(codes: ErrorCode[]): Record<string, unknown> {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    const status = ERROR_HTTP_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  const responses: Record<string, unknown> = {};
+  for (const [status, statusCodes] of [...byStatus].sort(([a], [b]) => a - b)) {
+    responses[String(status)] = {
+      description: statusCodes.join(", "),
+      ...jsonContent(ref("ErrorResponse")),
+    };
+  }
+  return responses;
+}
+
+/** Any code can come back from a call that reaches a carrier. */
+const CARRIER_CALL_ERRORS = Object.keys(ERROR_HTTP_STATUS) as ErrorCode[];
+
+const carrierIdParameter = {
+  name: "carrierId",
+  in: "path",
+  required: true,
+  schema: { type: "string", pattern: "^[a-z0-9_-]+$" },
+  description: "Carrier id, e.g. ups, fedex, usps",
+};
+
+const noCacheParameter = {
+  name: "Cache-Control",
+  in: "header",
+  required: false,
+  schema: { type: "string" },
+  description: "`no-cache` skips the quote cache and refreshes it",
+};
+
+function carrierOperation(
+  summary: string,
+  requestSchema: string,
+  responseSchema: string,
+  successStatus = "200"
+) {
+  return {
+    post: {
+      summary,
+      parameters: [carrierIdParameter],
+      requestBody: { required: true, ...jsonContent(ref(requestSchema)) },
+      responses: {
+        [successStatus]: { description: "OK", ...jsonContent(ref(responseSchema)) },
+        ...errorResponses(CARRIER_CALL_ERRORS),
+      },
+    },
+  };
+}
+
+/** OpenAPI 3.1 document for the routes served by createServer(). */
+export function buildOpenApiDocument(): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(buildJsonSchemas())) {
+    const { $schema: _draft, ...component } = schema;
+    schemas[name] = component;
+  }
+  schemas.ErrorDetails = { title: "ErrorDetails", ...errorDetailsSchema() };
+  schemas.ErrorResponse = {
+    title: "ErrorResponse",
+    type: "object",
+    properties: { error: ref("ErrorDetails") },
+    required: ["error"],
+  };
+  schemas.MultiCarrierRateResponse = {
+    title: "MultiCarrierRateResponse",
+    type: "object",
+    properties: {
+      quotes: { type: "array", items: ref("RateQuote"), description: "Cheapest first" },
+      errors: {
+        type: "array",
+        description: "One entry per carrier that failed",
+        items: {
+          type: "object",
+          properties: { carrierId: { type: "string" }, error: ref("ErrorDetails") },
+          required: ["carrierId", "error"],
+        },
+      },
+      requestId: { type: "string", description: "Correlation id of this request's carrier calls" },
+    },
+    required: ["quotes", "errors", "requestId"],
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Carrier Integration Service",
+      version: API_VERSION,
+      description:
+        "Carrier-agnostic rates, labels, tracking and address validation. Every error " +
+        "response is an ErrorResponse whose `error.code` determines the HTTP status.",
+    },
+    paths: {
+      "/v1/rates/{carrierId}": {
+        post: {
+          ...carrierOperation("Get rates from one carrier", "RateRequest", "RateResponse").post,
+          parameters: [carrierIdParameter, noCacheParameter],
+        },
+      },
+      "/v1/rates": {
+        post: {
+          summary: "Get rates from several carriers, cheapest first",
+          parameters: [
+            {
+              name: "carriers",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description: "Comma-separated carrier ids; defaults to every carrier with rates",
+            },
+            {
+              name: "timeoutMs",
+              in: "query",
+              required: false,
+              schema: { type: "integer", minimum: 1 },
+              description: "Per-carrier time limit; slower carriers are reported as TIMEOUT",
+            },
+            noCacheParameter,
+          ],
+          requestBody: { required: true, ...jsonContent(ref("RateRequest")) },
+          responses: {
+            "200": {
+              description: "Quotes from carriers that answered and errors from those that did not",
+              ...jsonContent(ref("MultiCarrierRateResponse")),
+            },
+            ...errorResponses(["VALIDATION_ERROR"]),
+          },
+        },
+      },
+      "/v1/labels/{carrierId}": carrierOperation(
+        "Create a shipment and its labels",
+        "ShipmentRequest",
+        "LabelResponse",
+        "201"
+      ),
+      "/v1/tracking/{carrierId}": carrierOperation(
+        "Track shipments",
+        "TrackingRequest",
+        "TrackingResponse"
+      ),
+      "/v1/address-validation/{carrierId}": carrierOperation(
+        "Validate and classify an address",
+        "AddressValidationRequest",
+        "AddressValidationResult"
+      ),
+      "/v1/carriers": {
+        get: {
+          summary: "List carriers and their supported operations",
+          responses: {
+            "200": {
+              description: "OK",
+              ...jsonContent({
+                type: "object",
+                properties: {
+                  carriers: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        carrierId: { type: "string" },
+                        supportedOperations: {
+                          type: "array",
+                          items: {
+                            type: "string",
+                            enum: ["rate", "label", "tracking", "address_validation"],
+                          },
+                        },
+                      },
+                      required: ["carrierId", "supportedOperations"],
+                    },
+                  },
+                },
+                required: ["carriers"],
+              }),
+            },
+          },
+        },
+      },
+      "/health/live": {
+        get: { summary: "Liveness probe", responses: { "200": { description: "Process is up" } } },
+      },
+      "/health/ready": {
+        get: {
+          summary: "Readiness probe with per-carrier circuit states",
+          responses: {
+            "200": { description: "At least one carrier is reachable" },
+            "503": { description: "Every carrier circuit is open" },
+          },
+        },
+      },
+    },
+    components: { schemas },
+  };
+}
+
+/** Spec files by path relative to the repo root, as written by `npm run spec`. */
+export function renderSpecFiles(): Record<string, string> {
+  const files: Record<string, string> = {
+    "spec/openapi.json": toJson(buildOpenApiDocument()),
+  };
+  for (const [name, schema] of Object.entries(buildJsonSchemas())) {
+    files[`spec/json-schema/${name}.json`] = toJson(schema);
+  }
+  return files;
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
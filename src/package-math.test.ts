@@ -0,0 +1,107 @@
+/**
+ * Package math tests: dimensional and billable weight, handling flags and
+ * carrier limits per carrier rule set (no HTTP involved).
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  measurePackage,
+  measurePackages,
+  roundUpTo,
+  UPS_PACKAGE_RULES,
+  USPS_PACKAGE_RULES,
+} from "./package-math.js";
+
+describe("measurePackage", () => {
+  it("bills the dimensional weight when it exceeds the actual weight", () => {
+    expect(
+      measurePackage(
+        { weight: 2, weightUnit: "LBS", length: 10, width: 10, height: 10, dimensionUnit: "IN" },
+        UPS_PACKAGE_RULES
+      )
+    ).toEqual({ billableWeight: 8, dimensionalWeight: 7.19, weightUnit: "LBS", handling: [] });
+  });
+
+  it("measures metric packages in KGS and rounds up to the next half kilogram", () => {
+    expect(
+      measurePackage(
+        { weight: 2, weightUnit: "KGS", length: 40, width: 30, height: 20, dimensionUnit: "CM" },
+        UPS_PACKAGE_RULES
+      )
+    ).toEqual({ billableWeight: 5, dimensionalWeight: 4.8, weightUnit: "KGS", handling: [] });
+    expect(measurePackage({ weight: 1.2, weightUnit: "KGS", dimensionUnit: "CM" }, UPS_PACKAGE_RULES)).toEqual({
+      billableWeight: 1.5,
+      dimensionalWeight: undefined,
+      weightUnit: "KGS",
+      handling: [],
+    });
+  });
+
+  it("converts mixed units before checking handling thresholds", () => {
+    // 254 cm is 100 in: over the UPS large package length and additional handling length
+    expect(
+      measurePackage(
+        { weight: 10, weightUnit: "KGS", length: 254, width: 20, height: 10, dimensionUnit: "CM" },
+        UPS_PACKAGE_RULES
+      ).handling
+    ).toEqual(["additional_handling", "large_package"]);
+    expect(measurePackage({ weight: 51, weightUnit: "LBS", dimensionUnit: "IN" }, UPS_PACKAGE_RULES).handling).toEqual([
+      "additional_handling",
+    ]);
+  });
+
+  it("applies USPS dimensional weight only above one cubic foot", () => {
+    const small = { weight: 3, weightUnit: "LBS" as const, length: 10, width: 10, height: 10, dimensionUnit: "IN" as const };
+    expect(measurePackage(small, USPS_PACKAGE_RULES)).toMatchObject({ billableWeight: 3, dimensionalWeight: undefined });
+    expect(measurePackage({ ...small, length: 13, width: 12, height: 12 }, USPS_PACKAGE_RULES)).toMatchObject({
+      billableWeight: 12,
+      dimensionalWeight: 11.28,
+    });
+  });
+});
+
+describe("measurePackages", () => {
+  it("reports every violation in the package's own units", () => {
+    let thrown: unknown;
+    try {
+      measurePackages(
+        [
+          { weight: 40, weightUnit: "KGS", dimensionUnit: "CM" },
+          { weight: 10, weightUnit: "LBS", length: 60, width: 20, height: 20, dimensionUnit: "IN" },
+        ],
+        USPS_PACKAGE_RULES
+      );
+    } catch (err) {
+      thrown = err;
+    }
+    expect(thrown).toMatchObject({
+      code: "VALIDATION_ERROR",
+      message:
+        "USPS package limits exceeded: packages.0: weight 40 KGS exceeds 31.8 KGS; " +
+        "packages.1: length + girth 140 IN exceeds 130 IN",
+      context: {
+        violations: [
+          { path: "packages.0", message: "weight 40 KGS exceeds 31.8 KGS" },
+          { path: "packages.1", message: "length + girth 140 IN exceeds 130 IN" },
+        ],
+      },
+    });
+  });
+
+  it("accepts packages exactly at the limits", () => {
+    expect(
+      measurePackages(
+        [{ weight: 150, weightUnit: "LBS", length: 108, width: 14, height: 14.5, dimensionUnit: "IN" }],
+        UPS_PACKAGE_RULES
+      )
+    ).toHaveLength(1);
+  });
+});
+
+describe("roundUpTo", () => {
+  it("ignores floating-point noise", () => {
+    expect(roundUpTo(0.1 + 0.2, 0.1)).toBe(0.3);
+    expect(roundUpTo(2.31, 0.1)).toBe(2.4);
+    expect(roundUpTo(4.51, 0.5)).toBe(5);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Package math: unit conversion, dimensional and billable weight, and carrier
+ * package limits. Carriers publish their rules as `packageRules` on the
+ * CarrierIntegration; the service checks every package against them before
+ * any HTTP call, so an oversize package fails with a precise VALIDATION_ERROR
+ * instead of a carrier 400.
+ */
+
+import type { Package, PackageHandling, PackageMeasurement } from "./domain.js";
+import { CarrierIntegrationError } from "./errors.js";
+
+export const LBS_PER_KG = 2.20462;
+export const CM_PER_IN = 2.54;
+
+/** Size thresholds that trigger a surcharge; any one exceeded is enough. */
+export interface HandlingThresholds {
+  longestIn?: number;
+  secondLongestIn?: number;
+  weightLbs?: number;
+  lengthPlusGirthIn?: number;
+}
+
+export interface CarrierPackageRules {
+  /** Used in error messages, e.g. "UPS" */
+  carrierName: string;
+  /** Volume per unit of dimensional weight: in³/lb for IN, cm³/kg for CM */
+  dimDivisor: { IN: number; CM: number };
+  /** Dimensional weight applies only above this volume (USPS: one cubic foot) */
+  dimMinVolumeIn3?: number;
+  maxWeightLbs: number;
+  maxLengthIn?: number;
+  maxLengthPlusGirthIn: number;
+  additionalHandling?: HandlingThresholds;
+  largePackage?: HandlingThresholds;
+}
+
+/** UPS daily rates: 150 lb, 108 in long, 165 in length + girth. */
+export const UPS_PACKAGE_RULES: CarrierPackageRules = {
+  carrierName: "UPS",
+  dimDivisor: { IN: 139, CM: 5000 },
+  maxWeightLbs: 150,
+  maxLengthIn: 108,
+  maxLengthPlusGirthIn: 165,
+  additionalHandling: { longestIn: 48, secondLongestIn: 30, weightLbs: 50, lengthPlusGirthIn: 105 },
+  largePackage: { longestIn: 96, lengthPlusGirthIn: 130 },
+};
+
+/** FedEx Express and Ground publish the same divisors, limits and handling thresholds as UPS. */
+export const FEDEX_PACKAGE_RULES: CarrierPackageRules = { ...UPS_PACKAGE_RULES, carrierName: "FedEx" };
+
+/** USPS: 70 lb and 130 in length + girth; the nonstandard-length fee starts above 22 in. */
+export const USPS_PACKAGE_RULES: CarrierPackageRules = {
+  carrierName: "USPS",
+  dimDivisor: { IN: 166, CM: 6000 },
+  dimMinVolumeIn3: 1728,
+  maxWeightLbs: 70,
+  maxLengthPlusGirthIn: 130,
+  additionalHandling: { longestIn: 22 },
+};
+
+export function toPounds(weight: number, unit: Package["weightUnit"]): number {
+  return unit === "KGS" ? weight * LBS_PER_KG : weight;
+}
+
+export function toInches(length: number, unit: Package["dimensionUnit"]): number {
+  return unit === "CM" ? length / CM_PER_IN : length;
+}
+
+/** Round up to a multiple of `step`, ignoring float noise (2.2000000001 → 2.2, not 2.3). */
+export function roundUpTo(value: number, step: number): number {
+  return Number((Math.ceil(Number((value / step).toFixed(6))) * step).toFixed(6));
+}
+
+/** Dimensions sorted longest first, in inches; undefined unless all three are set. */
+function sidesIn(pkg: Package): [number, number, number] | undefined {
+  if (pkg.length == null || pkg.width == null || pkg.height == null) return undefined;
+  const sides = [pkg.length, pkg.width, pkg.height].map((s) => toInches(s, pkg.dimensionUnit));
+  return sides.sort((a, b) => b - a) as [number, number, number];
+}
+
+function lengthPlusGirth([longest, second, third]: [number, number, number]): number {
+  return longest + 2 * (second + third);
+}
+
+function exceeds(sides: [number, number, number] | undefined, weightLbs: number, t: HandlingThresholds) {
+  return (
+    (t.weightLbs != null && weightLbs > t.weightLbs) ||
+    (sides != null &&
+      ((t.longestIn != null && sides[0] > t.longestIn) ||
+        (t.secondLongestIn != null && sides[1] > t.secondLongestIn) ||
+        (t.lengthPlusGirthIn != null && lengthPlusGirth(sides) > t.lengthPlusGirthIn)))
+  );
+}
+
+/**
+ * Billable weight and handling flags for one package, in its own weight
+ * unit. Dimensions are rounded to whole units first, as carriers measure;
+ * weights round up to a whole LBS or half KGS.
+ */
+export function measurePackage(pkg: Package, rules: CarrierPackageRules): PackageMeasurement {
+  const metric = pkg.weightUnit === "KGS";
+  const step = metric ? 0.5 : 1;
+  const sides = sidesIn(pkg);
+
+  let dimensionalWeight: number | undefined;
+  if (sides && (rules.dimMinVolumeIn3 == null || sides[0] * sides[1] * sides[2] > rules.dimMinVolumeIn3)) {
+    const volume = sides
+      .map((s) => Math.round(metric ? s * CM_PER_IN : s))
+      .reduce((product, s) => product * s, 1);
+    dimensionalWeight = Math.round((volume / rules.dimDivisor[metric ? "CM" : "IN"]) * 100) / 100;
+  }
+
+  const weightLbs = toPounds(pkg.weight, pkg.weightUnit);
+  const handling: PackageHandling[] = [];
+  if (rules.additionalHandling && exceeds(sides, weightLbs, rules.additionalHandling)) {
+    handling.push("additional_handling");
+  }
+  if (rules.largePackage && exceeds(sides, weightLbs, rules.largePackage)) {
+    handling.push("large_package");
+  }
+
+  return {
+    billableWeight: roundUpTo(Math.max(pkg.weight, dimensionalWeight ?? 0), step),
+    dimensionalWeight,
+    weightUnit: pkg.weightUnit,
+    handling,
+  };
+}
+
+/** Limit violations for one package, as messages in the package's own units. */
+function packageViolations(pkg: Package, rules: CarrierPackageRules): string[] {
+  const violations: string[] = [];
+  const metric = pkg.weightUnit === "KGS";
+  const weight = (lbs: number) => (metric ? `${round1(lbs / LBS_PER_KG)} KGS` : `${lbs} LBS`);
+  const length = (inches: number) =>
+    pkg.dimensionUnit === "CM" ? `${round1(inches * CM_PER_IN)} CM` : `${round1(inches)} IN`;
+
+  if (toPounds(pkg.weight, pkg.weightUnit) > rules.maxWeightLbs) {
+    violations.push(`weight ${pkg.weight} ${pkg.weightUnit} exceeds ${weight(rules.maxWeightLbs)}`);
+  }
+  const sides = sidesIn(pkg);
+  if (sides && rules.maxLengthIn != null && sides[0] > rules.maxLengthIn) {
+    violations.push(`length ${length(sides[0])} exceeds ${length(rules.maxLengthIn)}`);
+  }
+  if (sides && lengthPlusGirth(sides) > rules.maxLengthPlusGirthIn) {
+    violations.push(
+      `length + girth ${length(lengthPlusGirth(sides))} exceeds ${length(rules.maxLengthPlusGirthIn)}`
+    );
+  }
+  return violations;
+}
+
+/**
+ * Measure every package, or throw VALIDATION_ERROR listing each one over the
+ * carrier's limits (`context.violations` has the package path per message).
+ */
+export function measurePackages(packages: Package[], rules: CarrierPackageRules): PackageMeasurement[] {
+  const violations = packages.flatMap((pkg, i) =>
+    packageViolations(pkg, rules).map((message) => ({ path: `packages.${i}`, message }))
+  );
+  if (violations.length > 0) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `${rules.carrierName} package limits exceeded: ${violations
+        .map((v) => `${v.path}: ${v.message}`)
+        .join("; ")}`,
+      context: { violations },
+    });
+  }
+  return packages.map((pkg) => measurePackage(pkg, rules));
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -0,0 +1,181 @@
+/**
+ * Instrumentation that aggregates metrics in memory and renders them in the
+ * Prometheus text exposition format (version 0.0.4); serve render() from a
+ * /metrics endpoint. Spans are not exported; compose with a tracer for those.
+ */
+
+import {
+  noopSpan,
+  type CarrierCallEvent,
+  type HttpRequestEvent,
+  type Instrumentation,
+  type Span,
+  type TokenRefreshEvent,
+} from "./instrumentation.js";
+
+export interface PrometheusExporterOptions {
+  /** Prepended to every metric name (default "carrier_integration_") */
+  prefix?: string;
+  /** Histogram bucket upper bounds in seconds */
+  buckets?: number[];
+}
+
+/** Content-Type for a response carrying render() output. */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+export class PrometheusExporter implements Instrumentation {
+  private readonly prefix: string;
+  private readonly carrierRequests: Counter;
+  private readonly carrierErrors: Counter;
+  private readonly carrierLatency: Histogram;
+  private readonly httpRequests: Counter;
+  private readonly httpLatency: Histogram;
+  private readonly tokenRefreshes: Counter;
+
+  constructor(options: PrometheusExporterOptions = {}) {
+    this.prefix = options.prefix ?? "carrier_integration_";
+    const buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    this.carrierRequests = new Counter("carrier_requests_total", "Carrier operation calls by outcome.");
+    this.carrierErrors = new Counter("carrier_errors_total", "Failed carrier operation calls by error code.");
+    this.carrierLatency = new Histogram(
+      "carrier_request_duration_seconds",
+      "Carrier operation latency, including retries and OAuth.",
+      buckets
+    );
+    this.httpRequests = new Counter("http_requests_total", "HTTP requests to carrier APIs by status.");
+    this.httpLatency = new Histogram(
+      "http_request_duration_seconds",
+      "Latency of single HTTP requests to carrier APIs.",
+      buckets
+    );
+    this.tokenRefreshes = new Counter("oauth_token_refreshes_total", "OAuth token requests by outcome.");
+  }
+
+  startSpan(): Span {
+    return noopSpan;
+  }
+
+  recordCarrierCall(event: CarrierCallEvent): void {
+    const labels = { carrier: event.carrierId, operation: event.operation };
+    this.carrierRequests.inc({ ...labels, outcome: event.outcome });
+    this.carrierLatency.observe(labels, event.durationMs / 1000);
+    if (event.outcome === "error") {
+      this.carrierErrors.inc({ ...labels, code: event.errorCode ?? "UNKNOWN" });
+    }
+  }
+
+  recordHttpRequest(event: HttpRequestEvent): void {
+    const status = event.status != null ? String(event.status) : "none";
+    this.httpRequests.inc({ host: event.host, method: event.method, status });
+    this.httpLatency.observe({ host: event.host, method: event.method }, event.durationMs / 1000);
+  }
+
+  recordTokenRefresh(event: TokenRefreshEvent): void {
+    this.tokenRefreshes.inc({ carrier: event.carrierId, outcome: event.outcome });
+  }
+
+  /** Every metric in the text exposition format, ending with a newline. */
+  render(): string {
+    return [
+      this.carrierRequests,
+      this.carrierErrors,
+      this.carrierLatency,
+      this.httpRequests,
+      this.httpLatency,
+      this.tokenRefreshes,
+    ]
+      .map((metric) => metric.render(this.prefix))
+      .join("");
+  }
+}
+
+class Counter {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += 1;
+    this.values.set(key, entry);
+  }
+
+  render(prefix: string): string {
+    const name = prefix + this.name;
+    const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+class Histogram {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly buckets: number[];
+  private readonly series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(prefix: string): string {
+    const name = prefix + this.name;
+    const lines = [`# HELP ${name} ${this.help}`, `# TYPE ${name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+/** Backslash, double quote and newline must be escaped in label values. */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
@@ -0,0 +1,201 @@
+/**
+ * Quote cache tests: service + in-memory carrier. Covers canonical keys, TTL,
+ * LRU eviction, bypass and invalidation (no HTTP involved).
+ */
+
+import { describe, it, expect } from "vitest";
+import { CarrierIntegrationService } from "./service.js";
+import { InMemoryCacheStore, rateCacheKey } from "./quote-cache.js";
+import { RateRequestSchema, type RateRequest, type RateResponse } from "./domain.js";
+import type { CarrierIntegration } from "./carriers/types.js";
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: {
+    line1: "123 Origin St",
+    city: "Atlanta",
+    stateProvinceCode: "GA",
+    postalCode: "30301",
+    countryCode: "US",
+  },
+  destination: {
+    line1: "456 Dest Ave",
+    city: "New York",
+    stateProvinceCode: "NY",
+    postalCode: "10001",
+    countryCode: "US",
+  },
+  packages: [
+    { weight: 5, weightUnit: "LBS", length: 10, width: 8, height: 6, dimensionUnit: "IN" },
+    { weight: 2, weightUnit: "KGS", length: 30, width: 20, height: 10, dimensionUnit: "CM" },
+  ],
+};
+
+/** Carrier that counts calls and quotes a price that changes on every call. */
+function countingCarrier(carrierId: string) {
+  let calls = 0;
+  const carrier: CarrierIntegration = {
+    carrierId,
+    supportedOperations: ["rate"],
+    async execute() {
+      calls++;
+      const response: RateResponse = {
+        quotes: [
+          { carrier: carrierId, serviceCode: "STD", serviceName: "Standard", totalCharge: { minorUnits: 1000 + calls * 100, currencyCode: "USD" } },
+        ],
+      };
+      return { operation: "rate", result: response };
+    },
+  };
+  return { carrier, calls: () => calls };
+}
+
+function serviceWithCache(carriers: CarrierIntegration[], now?: () => number) {
+  return new CarrierIntegrationService({ carriers, quoteCache: { ttlMs: 60_000, now } });
+}
+
+describe("Quote cache", () => {
+  it("answers an equivalent request from the cache", async () => {
+    const { carrier, calls } = countingCarrier("ups");
+    const service = serviceWithCache([carrier]);
+
+    const first = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    const second = await service.getRates("ups", {
+      ...SAMPLE_RATE_REQUEST,
+      origin: { ...SAMPLE_RATE_REQUEST.origin, city: " atlanta " },
+      packages: [...SAMPLE_RATE_REQUEST.packages].reverse(),
+    });
+
+    expect(calls()).toBe(1);
+    expect(first.cache).toMatchObject({ hit: false });
+    expect(second.cache).toEqual({ hit: true, cachedAt: first.cache?.cachedAt });
+    expect(second.quotes).toEqual(first.quotes);
+  });
+
+  it("does not add cache metadata when no cache is configured", async () => {
+    const { carrier, calls } = countingCarrier("ups");
+    const service = new CarrierIntegrationService({ carriers: [carrier] });
+
+    const result = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(result.cache).toBeUndefined();
+    expect(calls()).toBe(2);
+  });
+
+  it("asks the carrier again once the TTL has passed", async () => {
+    let clock = 1_000;
+    const { carrier, calls } = countingCarrier("ups");
+    const service = serviceWithCache([carrier], () => clock);
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    clock += 59_999;
+    expect((await service.getRates("ups", SAMPLE_RATE_REQUEST)).cache?.hit).toBe(true);
+    clock += 1;
+    const expired = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(expired.cache?.hit).toBe(false);
+    expect(calls()).toBe(2);
+  });
+
+  it("bypassCache skips the lookup and refreshes the entry", async () => {
+    const { carrier, calls } = countingCarrier("ups");
+    const service = serviceWithCache([carrier]);
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    const fresh = await service.getRates("ups", SAMPLE_RATE_REQUEST, { bypassCache: true });
+    const cached = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(calls()).toBe(2);
+    expect(fresh.cache?.hit).toBe(false);
+    expect(cached.quotes[0].totalCharge).toEqual(fresh.quotes[0].totalCharge);
+  });
+
+  it("keeps carriers apart and caches per carrier in getRatesFromAll", async () => {
+    const ups = countingCarrier("ups");
+    const fedex = countingCarrier("fedex");
+    const service = serviceWithCache([ups.carrier, fedex.carrier]);
+
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    const all = await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+
+    expect(all.quotes.map((q) => q.carrier).sort()).toEqual(["fedex", "ups"]);
+    expect(ups.calls()).toBe(1);
+    expect(fedex.calls()).toBe(1);
+  });
+
+  it("invalidateRates drops one request for one carrier, or everything", async () => {
+    const ups = countingCarrier("ups");
+    const fedex = countingCarrier("fedex");
+    const service = serviceWithCache([ups.carrier, fedex.carrier]);
+    await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+
+    await service.invalidateRates({ carrierId: "ups", request: SAMPLE_RATE_REQUEST });
+    await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+    expect([ups.calls(), fedex.calls()]).toEqual([2, 1]);
+
+    await service.invalidateRates();
+    await service.getRatesFromAll(SAMPLE_RATE_REQUEST);
+    expect([ups.calls(), fedex.calls()]).toEqual([3, 2]);
+  });
+
+  it("does not cache failures", async () => {
+    let fail = true;
+    const carrier: CarrierIntegration = {
+      carrierId: "ups",
+      supportedOperations: ["rate"],
+      async execute() {
+        if (fail) throw new Error("boom");
+        return { operation: "rate", result: { quotes: [] } };
+      },
+    };
+    const service = serviceWithCache([carrier]);
+
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({ code: "UNKNOWN" });
+    fail = false;
+    expect((await service.getRates("ups", SAMPLE_RATE_REQUEST)).cache?.hit).toBe(false);
+  });
+});
+
+describe("rateCacheKey", () => {
+  const parse = (req: unknown) => RateRequestSchema.parse(req);
+
+  it("treats the same package in LBS/IN and KGS/CM as equivalent", () => {
+    const imperial = parse({
+      ...SAMPLE_RATE_REQUEST,
+      packages: [{ weight: 2.20462, weightUnit: "LBS", length: 10, width: 10, height: 10 }],
+    });
+    const metric = parse({
+      ...SAMPLE_RATE_REQUEST,
+      packages: [{ weight: 1, weightUnit: "KGS", length: 25.4, width: 25.4, height: 25.4, dimensionUnit: "CM" }],
+    });
+    expect(rateCacheKey("ups", imperial)).toBe(rateCacheKey("ups", metric));
+  });
+
+  it("differs by carrier, service, shipper account, dates, options and destination", () => {
+    const base = parse(SAMPLE_RATE_REQUEST);
+    const key = rateCacheKey("ups", base);
+    expect(rateCacheKey("fedex", base)).not.toBe(key);
+    expect(rateCacheKey("ups", { ...base, serviceCode: "03" })).not.toBe(key);
+    expect(rateCacheKey("ups", { ...base, shipperAccountNumber: "A1B2C3" })).not.toBe(key);
+    expect(rateCacheKey("ups", { ...base, shipDate: "2026-03-02" })).not.toBe(key);
+    expect(rateCacheKey("ups", { ...base, options: { residential: true } })).not.toBe(key);
+    expect(
+      rateCacheKey("ups", { ...base, destination: { ...base.destination, postalCode: "10002" } })
+    ).not.toBe(key);
+  });
+});
+
+describe("InMemoryCacheStore", () => {
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const store = new InMemoryCacheStore<string>({ maxEntries: 2 });
+    await store.set("a", "A", 1_000);
+    await store.set("b", "B", 1_000);
+    await store.get("a");
+    await store.set("c", "C", 1_000);
+
+    expect(await store.get("a")).toBe("A");
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBe("C");
+    expect(store.size).toBe(2);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Rate quote cache. Equivalent rate requests (same addresses, same packages in
+ * any order or unit) map to one canonical key, so re-quoting a cart within
+ * the TTL skips the carrier round trip.
+ */
+
+import { createHash } from "node:crypto";
+import type { Address, Package, RateRequest, RateResponse } from "./domain.js";
+import { CM_PER_IN, LBS_PER_KG } from "./package-math.js";
+
+/**
+ * Async key/value store with per-entry TTL. A Redis adapter maps this onto
+ * GET / SET with PX ttlMs / DEL, and FLUSHDB or a key prefix for clear().
+ */
+export interface CacheStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface InMemoryCacheStoreOptions {
+  /** Least recently used entries are evicted beyond this size */
+  maxEntries: number;
+  /** Test seam */
+  now?: () => number;
+}
+
+/** Process-local LRU store; the default for the quote cache. */
+export class InMemoryCacheStore<T> implements CacheStore<T> {
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  /** Map iteration order is insertion order, so the first key is least recently used */
+  private readonly entries = new Map<string, { value: T; expiresAtMs: number }>();
+
+  constructor(options: InMemoryCacheStoreOptions) {
+    this.maxEntries = options.maxEntries;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAtMs <= this.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAtMs: this.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export interface QuoteCacheOptions {
+  /** How long a quote is reused */
+  ttlMs: number;
+  /** Size limit for the default in-memory store; ignored when `store` is given */
+  maxEntries?: number;
+  /** Shared store (e.g. Redis); defaults to an InMemoryCacheStore */
+  store?: CacheStore<CachedRates>;
+  /** Test seam */
+  now?: () => number;
+}
+
+export interface CachedRates {
+  response: RateResponse;
+  /** Epoch milliseconds when the carrier produced the response */
+  cachedAtMs: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1_000;
+
+/** Quote cache used by CarrierIntegrationService; keyed per carrier and canonical request. */
+export class QuoteCache {
+  private readonly ttlMs: number;
+  private readonly store: CacheStore<CachedRates>;
+  private readonly now: () => number;
+
+  constructor(options: QuoteCacheOptions) {
+    this.ttlMs = options.ttlMs;
+    this.now = options.now ?? Date.now;
+    this.store =
+      options.store ??
+      new InMemoryCacheStore({
+        maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+        now: this.now,
+      });
+  }
+
+  async get(carrierId: string, request: RateRequest): Promise<CachedRates | undefined> {
+    return this.store.get(rateCacheKey(carrierId, request));
+  }
+
+  /** Store a fresh carrier response and return the entry as cached. */
+  async set(carrierId: string, request: RateRequest, response: RateResponse): Promise<CachedRates> {
+    const entry = { response, cachedAtMs: this.now() };
+    await this.store.set(rateCacheKey(carrierId, request), entry, this.ttlMs);
+    return entry;
+  }
+
+  async delete(carrierId: string, request: RateRequest): Promise<void> {
+    await this.store.delete(rateCacheKey(carrierId, request));
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+/**
+ * sha256 of the canonical request: addresses trimmed with codes upper-cased,
+ * packages in LBS/IN and sorted, so equivalent requests share one entry.
+ * Expects a validated request (defaults applied).
+ */
+export function rateCacheKey(carrierId: string, request: RateRequest): string {
+  const packages = request.packages
+    .map(canonicalPackage)
+    .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  const canonical = {
+    carrierId,
+    origin: canonicalAddress(request.origin),
+    destination: canonicalAddress(request.destination),
+    packages,
+    serviceCode: request.serviceCode?.trim() ?? null,
+    // Negotiated rates belong to one account
+    shipperAccountNumber: request.shipperAccountNumber?.trim().toUpperCase() ?? null,
+    // Delivery dates depend on when the shipment leaves
+    shipDate: request.shipDate ?? null,
+    pickupDate: request.pickupDate ?? null,
+    options: request.options ?? null,
+    customs: request.customs ?? null,
+  };
+  return `rates:${createHash("sha256").update(JSON.stringify(canonical)).digest("hex")}`;
+}
+
+function canonicalAddress(address: Address) {
+  const text = (s: string | undefined) => s?.trim().replace(/\s+/g, " ").toUpperCase() ?? null;
+  return {
+    line1: text(address.line1),
+    line2: text(address.line2),
+    line3: text(address.line3),
+    city: text(address.city),
+    stateProvinceCode: text(address.stateProvinceCode),
+    postalCode: text(address.postalCode),
+    countryCode: text(address.countryCode),
+  };
+}
+
+function canonicalPackage(pkg: Package) {
+  const inches = (n: number | undefined) =>
+    n == null ? null : round4(pkg.dimensionUnit === "CM" ? n / CM_PER_IN : n);
+  return {
+    weightLbs: round4(pkg.weightUnit === "KGS" ? pkg.weight * LBS_PER_KG : pkg.weight),
+    lengthIn: inches(pkg.length),
+    widthIn: inches(pkg.width),
+    heightIn: inches(pkg.height),
+    options: pkg.options ?? null,
+  };
+}
+
+/** Unit conversion leaves float noise; 4 decimals is far below any carrier's precision. */
+function round4(n: number): number {
+  return Math.round(n * 10_000) / 10_000;
+}
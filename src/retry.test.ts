@@ -0,0 +1,54 @@
+/**
+ * Retry tests: which errors are transient, and backoff timing with an
+ * injected clock (no HTTP involved).
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RETRY_POLICY, isRetryableError, withRetry } from "./retry.js";
+import { CarrierIntegrationError } from "./errors.js";
+
+describe("isRetryableError", () => {
+  const error = (code: CarrierIntegrationError["code"], statusCode?: number) =>
+    new CarrierIntegrationError({ code, message: code, statusCode });
+
+  it("retries rate limits, transport errors and carrier 5xx", () => {
+    expect(isRetryableError(error("RATE_LIMITED", 429))).toBe(true);
+    expect(isRetryableError(error("NETWORK_ERROR"))).toBe(true);
+    expect(isRetryableError(error("TIMEOUT"))).toBe(true);
+    expect(isRetryableError(error("CARRIER_ERROR", 503))).toBe(true);
+  });
+
+  it("does not retry other codes, even with a 5xx status", () => {
+    expect(isRetryableError(error("CARRIER_ERROR", 400))).toBe(false);
+    expect(isRetryableError(error("AUTH_FAILED", 503))).toBe(false);
+    expect(isRetryableError(error("MALFORMED_RESPONSE", 500))).toBe(false);
+    expect(isRetryableError(new Error("socket hang up"))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("backs off exponentially with jitter and stops at maxElapsedMs", async () => {
+    let clock = 0;
+    const delays: number[] = [];
+    const deps = {
+      now: () => clock,
+      random: () => 1,
+      sleep: async (ms: number) => {
+        delays.push(ms);
+        clock += ms;
+      },
+    };
+    const policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 10, maxElapsedMs: 2_000 };
+    let calls = 0;
+    const fail = async () => {
+      calls++;
+      throw new CarrierIntegrationError({ code: "NETWORK_ERROR", message: "socket hang up" });
+    };
+
+    const err = await withRetry(fail, policy, deps).catch((e) => e);
+    expect(delays).toEqual([250, 500, 1_000]);
+    expect(calls).toBe(4);
+    expect(err.code).toBe("NETWORK_ERROR");
+    expect(err.context.attempts).toHaveLength(4);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Retry with jittered exponential backoff for transient carrier failures.
+ * Carriers wrap each operation with withOperationRetry(); the policy decides
+ * which operations are retried, how often and for how long.
+ */
+
+import type { CarrierOperation } from "./carriers/types.js";
+import {
+  CarrierIntegrationError,
+  isCarrierIntegrationError,
+  type ErrorCode,
+} from "./errors.js";
+
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 = never retry) */
+  maxAttempts: number;
+  /** Backoff ceiling before the first retry; doubles on every retry */
+  initialDelayMs: number;
+  /** Upper bound for a single backoff (Retry-After is still honored up to maxElapsedMs) */
+  maxDelayMs: number;
+  /** Stop retrying once a retry would start later than this after the first attempt */
+  maxElapsedMs: number;
+  /**
+   * Operations that are safe to repeat. Label creation is left out by default:
+   * repeating it after a timeout can buy the same shipment twice.
+   */
+  operations: readonly CarrierOperation[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 250,
+  maxDelayMs: 5_000,
+  maxElapsedMs: 30_000,
+  operations: ["rate", "tracking", "address_validation"],
+};
+
+/** One failed attempt, as recorded in the final error's context.attempts. */
+export interface RetryAttempt {
+  attempt: number;
+  code: ErrorCode;
+  statusCode?: number;
+  /** Time since the first attempt started when this attempt failed */
+  elapsedMs: number;
+  /** Wait before the next attempt; absent on the last one */
+  delayMs?: number;
+}
+
+/** Test seams: clock, sleep and randomness. */
+export interface RetryDeps {
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const RETRYABLE_CODES: ReadonlySet<ErrorCode> = new Set([
+  "RATE_LIMITED",
+  "NETWORK_ERROR",
+  "TIMEOUT",
+]);
+
+/**
+ * Transient failures: rate limits, transport errors and carrier 5xx. Other
+ * codes are not retried even with a 5xx status: AUTH_FAILED from an OAuth
+ * outage or a MALFORMED_RESPONSE will not fix themselves within the backoff.
+ */
+export function isRetryableError(err: unknown): err is CarrierIntegrationError {
+  if (!isCarrierIntegrationError(err)) return false;
+  if (RETRYABLE_CODES.has(err.code)) return true;
+  return err.code === "CARRIER_ERROR" && err.statusCode != null && err.statusCode >= 500;
+}
+
+/**
+ * Run fn, retrying transient failures per policy. Waits for the carrier's
+ * Retry-After (context.retryAfterMs) when given, otherwise full-jitter
+ * exponential backoff. When it gives up, the last error is rethrown with
+ * every attempt listed in context.attempts.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  deps: RetryDeps = {}
+): Promise<T> {
+  const now = deps.now ?? Date.now;
+  const sleep = deps.sleep ?? defaultSleep;
+  const random = deps.random ?? Math.random;
+  const startedAt = now();
+  const attempts: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!isCarrierIntegrationError(err)) throw err;
+      const elapsedMs = now() - startedAt;
+      const record: RetryAttempt = {
+        attempt,
+        code: err.code,
+        statusCode: err.statusCode,
+        elapsedMs,
+      };
+      attempts.push(record);
+
+      const delayMs = backoffDelay(err, attempt, policy, random);
+      const canRetry =
+        isRetryableError(err) &&
+        attempt < policy.maxAttempts &&
+        elapsedMs + delayMs <= policy.maxElapsedMs;
+      if (!canRetry) throw withAttempts(err, attempts);
+
+      record.delayMs = delayMs;
+      await sleep(delayMs);
+    }
+  }
+}
+
+/** withRetry for a carrier operation; a no-op when there is no policy or the operation is excluded. */
+export function withOperationRetry<T>(
+  policy: RetryPolicy | undefined,
+  operation: CarrierOperation,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!policy || !policy.operations.includes(operation)) return fn();
+  return withRetry(fn, policy);
+}
+
+/** Fill in a partial policy (e.g. from carrier options) with defaults. */
+export function resolveRetryPolicy(
+  policy: Partial<RetryPolicy> | undefined
+): RetryPolicy | undefined {
+  return policy ? { ...DEFAULT_RETRY_POLICY, ...policy } : undefined;
+}
+
+function backoffDelay(
+  err: CarrierIntegrationError,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number
+): number {
+  const retryAfterMs = err.context?.retryAfterMs;
+  if (typeof retryAfterMs === "number" && retryAfterMs >= 0) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/** Only attempts that were actually retried are worth reporting. */
+function withAttempts(
+  err: CarrierIntegrationError,
+  attempts: RetryAttempt[]
+): CarrierIntegrationError {
+  if (attempts.length < 2) return err;
+  return new CarrierIntegrationError({
+    ...err.toJSON(),
+    context: { ...err.context, attempts },
+  });
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
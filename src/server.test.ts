@@ -0,0 +1,263 @@
+/**
+ * HTTP server tests: real server on an ephemeral port, service backed by UPS
+ * with stubbed HTTP and in-memory carriers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { createServer, type ErrorBody } from "./server.js";
+import { CarrierIntegrationService } from "./service.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { getUpsConfig } from "./config.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import { CarrierIntegrationError } from "./errors.js";
+import type { RateRequest, RateResponse } from "./domain.js";
+import type { MultiCarrierRateResponse } from "./service.js";
+import type { CarrierIntegration } from "./carriers/types.js";
+
+const UPS_OAUTH_SUCCESS = { access_token: "test_token_abc123", expires_in: 3600 };
+
+const UPS_RATE_SUCCESS = {
+  RateResponse: {
+    Response: { ResponseStatus: { Code: "1", Description: "Success" } },
+    RatedShipment: [
+      {
+        Service: { Code: "03", Name: "Ground" },
+        TotalCharges: { MonetaryValue: "12.50", CurrencyCode: "USD" },
+        GuaranteedDelivery: { BusinessDaysInTransit: "3" },
+      },
+    ],
+  },
+};
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: {
+    line1: "123 Origin St",
+    city: "Atlanta",
+    stateProvinceCode: "GA",
+    postalCode: "30301",
+    countryCode: "US",
+  },
+  destination: {
+    line1: "456 Dest Ave",
+    city: "New York",
+    stateProvinceCode: "NY",
+    postalCode: "10001",
+    countryCode: "US",
+  },
+  packages: [{ weight: 5, weightUnit: "LBS", dimensionUnit: "IN" }],
+};
+
+const config = {
+  ...getUpsConfig(),
+  clientId: "test_client",
+  clientSecret: "test_secret",
+  apiBaseUrl: "https://api.example.com",
+  oauthTokenUrl: "https://auth.example.com/token",
+};
+
+/** Carrier whose rate call always fails with the given error. */
+function failingCarrier(carrierId: string, err: unknown): CarrierIntegration {
+  return {
+    carrierId,
+    supportedOperations: ["rate"],
+    async execute() {
+      throw err;
+    },
+  };
+}
+
+describe("HTTP server", () => {
+  let server: Server;
+  let baseUrl: string;
+  let stub: ReturnType<typeof createStubHttpClient>;
+
+  async function start(carriers: CarrierIntegration[], options: { maxBodyBytes?: number } = {}) {
+    const service = new CarrierIntegrationService({ carriers, circuitBreaker: {} });
+    server = createServer({ service, ...options });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(() => {
+    stub = createStubHttpClient();
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("POST /v1/rates/:carrierId returns normalized quotes", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    await start([new UpsCarrier({ config, http: stub })]);
+
+    const res = await post("/v1/rates/ups", SAMPLE_RATE_REQUEST);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()) as RateResponse).toEqual({
+      requestId: expect.any(String),
+      quotes: [
+        {
+          carrier: "ups",
+          serviceCode: "03",
+          serviceName: "Ground",
+          totalCharge: { minorUnits: 1250, currencyCode: "USD" },
+          publishedCharge: { minorUnits: 1250, currencyCode: "USD" },
+          transitDays: 3,
+          guaranteed: true,
+          carrierServiceId: "03",
+        },
+      ],
+      packages: [{ billableWeight: 5, weightUnit: "LBS", handling: [] }],
+    });
+  });
+
+  it("maps VALIDATION_ERROR to 400 with the error body", async () => {
+    await start([new UpsCarrier({ config, http: stub })]);
+
+    const res = await post("/v1/rates/ups", { ...SAMPLE_RATE_REQUEST, packages: [] });
+
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as ErrorBody;
+    expect(body.error).toMatchObject({ code: "VALIDATION_ERROR" });
+    expect(body.error.message).toContain("At least one package is required");
+    expect(stub.getRequests()).toHaveLength(0);
+  });
+
+  it("maps RATE_LIMITED to 429 with Retry-After and drops cause", async () => {
+    const err = new CarrierIntegrationError({
+      code: "RATE_LIMITED",
+      message: "UPS rate request rate limited (429)",
+      statusCode: 429,
+      context: { retryAfterMs: 2_500 },
+      cause: new Error("internal detail"),
+    });
+    await start([failingCarrier("ups", err)]);
+
+    const res = await post("/v1/rates/ups", SAMPLE_RATE_REQUEST);
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("3");
+    const body = (await res.json()) as ErrorBody;
+    expect(body.error).toEqual({
+      code: "RATE_LIMITED",
+      message: "UPS rate request rate limited (429)",
+      statusCode: 429,
+      context: { retryAfterMs: 2_500 },
+    });
+  });
+
+  it("maps TIMEOUT to 504 and unstructured carrier errors to 500 UNKNOWN", async () => {
+    await start([
+      failingCarrier("slow", new CarrierIntegrationError({ code: "TIMEOUT", message: "timed out" })),
+      failingCarrier("buggy", new TypeError("cannot read properties of undefined")),
+    ]);
+
+    expect((await post("/v1/rates/slow", SAMPLE_RATE_REQUEST)).status).toBe(504);
+    const res = await post("/v1/rates/buggy", SAMPLE_RATE_REQUEST);
+    expect(res.status).toBe(500);
+    expect(((await res.json()) as ErrorBody).error).toEqual({
+      code: "UNKNOWN",
+      message: "cannot read properties of undefined",
+    });
+  });
+
+  it("POST /v1/rates shops every carrier and reports failures per carrier", async () => {
+    stub.stubNext({ status: 200, body: UPS_OAUTH_SUCCESS });
+    stub.stubNext({ status: 200, body: UPS_RATE_SUCCESS });
+    const down = new CarrierIntegrationError({ code: "NETWORK_ERROR", message: "ECONNRESET" });
+    await start([new UpsCarrier({ config, http: stub }), failingCarrier("fedex", down)]);
+
+    const res = await post("/v1/rates?timeoutMs=5000", SAMPLE_RATE_REQUEST);
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as MultiCarrierRateResponse;
+    expect(body.quotes).toHaveLength(1);
+    expect(body.errors).toEqual([
+      { carrierId: "fedex", error: { code: "NETWORK_ERROR", message: "ECONNRESET" } },
+    ]);
+  });
+
+  it("POST /v1/rates drops the cause and carrier internals of per-carrier errors", async () => {
+    const withCause = new CarrierIntegrationError({
+      code: "CARRIER_ERROR",
+      message: "FedEx rejected the request",
+      cause: { status: 400, body: { secret: "internal detail" } },
+      context: { body: { secret: "raw FedEx response" }, url: "https://fedex.example.com/rate" },
+    });
+    await start([failingCarrier("fedex", withCause), failingCarrier("custom", "raw failure string")]);
+
+    const res = await post("/v1/rates", SAMPLE_RATE_REQUEST);
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as MultiCarrierRateResponse;
+    expect(body.errors).toEqual([
+      { carrierId: "fedex", error: { code: "CARRIER_ERROR", message: "FedEx rejected the request" } },
+      { carrierId: "custom", error: { code: "UNKNOWN", message: "Carrier request failed" } },
+    ]);
+  });
+
+  it("keeps only client-safe context keys in error responses", async () => {
+    const err = new CarrierIntegrationError({
+      code: "CARRIER_ERROR",
+      message: "UPS rate request failed: HTTP 400",
+      statusCode: 400,
+      context: { body: { response: { errors: [{ code: "111210" }] } }, retryAfterMs: 1_000, field: "packages" },
+    });
+    await start([failingCarrier("ups", err)]);
+
+    const res = await post("/v1/rates/ups", SAMPLE_RATE_REQUEST);
+
+    expect(res.status).toBe(502);
+    expect(((await res.json()) as ErrorBody).error).toEqual({
+      code: "CARRIER_ERROR",
+      message: "UPS rate request failed: HTTP 400",
+      statusCode: 400,
+      context: { retryAfterMs: 1_000, field: "packages" },
+    });
+  });
+
+  it("GET /v1/carriers lists carriers and their operations", async () => {
+    await start([new UpsCarrier({ config, http: stub })]);
+
+    const res = await fetch(`${baseUrl}/v1/carriers`);
+
+    expect(await res.json()).toEqual({
+      carriers: [
+        { carrierId: "ups", supportedOperations: ["rate", "label", "tracking", "address_validation"] },
+      ],
+    });
+  });
+
+  it("serves health endpoints with circuit states", async () => {
+    await start([new UpsCarrier({ config, http: stub })]);
+
+    const live = await fetch(`${baseUrl}/health/live`);
+    const ready = await fetch(`${baseUrl}/health/ready`);
+
+    expect(live.status).toBe(200);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toMatchObject({ status: "ok", circuits: { ups: { state: "closed" } } });
+  });
+
+  it("rejects bad JSON, oversized bodies, unknown routes and wrong methods", async () => {
+    await start([new UpsCarrier({ config, http: stub })], { maxBodyBytes: 64 });
+
+    expect((await post("/v1/rates/ups", "{not json")).status).toBe(400);
+    expect((await post("/v1/rates/ups", SAMPLE_RATE_REQUEST)).status).toBe(413);
+    expect((await fetch(`${baseUrl}/v2/rates`)).status).toBe(404);
+    const wrongMethod = await fetch(`${baseUrl}/v1/rates/ups`);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get("allow")).toBe("POST");
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * HTTP server exposing CarrierIntegrationService as a JSON REST API (Node
+ * `http`, no framework). Errors are CarrierIntegrationError.toJSON() bodies
+ * without `cause` and with only client-safe `context` keys, with the HTTP
+ * status derived from the error code.
+ */
+
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { CarrierIntegrationService, MultiCarrierRateResponse } from "./service.js";
+import type { LabelResponse } from "./domain.js";
+import {
+  CarrierIntegrationError,
+  isCarrierIntegrationError,
+  type CarrierIntegrationErrorDetails,
+  type ErrorCode,
+} from "./errors.js";
+
+export interface ServerOptions {
+  service: CarrierIntegrationService;
+  /** Larger request bodies are rejected with 413 (default 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/** HTTP status for each error code. Carrier-side failures are gateway errors. */
+export const ERROR_HTTP_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  AUTH_FAILED: 502,
+  AUTH_TOKEN_EXPIRED: 502,
+  RATE_LIMITED: 429,
+  NETWORK_ERROR: 502,
+  TIMEOUT: 504,
+  CARRIER_ERROR: 502,
+  MALFORMED_RESPONSE: 502,
+  CARRIER_UNAVAILABLE: 503,
+  CONFIG_ERROR: 500,
+  UNKNOWN: 500,
+};
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/** Oversized bodies are VALIDATION_ERRORs but answered with 413 rather than 400. */
+const payloadTooLarge = new WeakSet<CarrierIntegrationError>();
+
+/** Error details as sent to clients: `cause` may hold internals and is dropped. */
+export type ErrorBody = { error: Omit<CarrierIntegrationErrorDetails, "cause"> };
+
+/**
+ * Context keys clients may see. Everything else (raw carrier bodies, URLs,
+ * file paths) stays in server-side logs.
+ */
+const CLIENT_CONTEXT_KEYS: ReadonlySet<string> = new Set([
+  "violations",
+  "issues",
+  "supported",
+  "unsupported",
+  "field",
+  "availableCarriers",
+  "retryAfterMs",
+  "timeoutMs",
+  "maxBodyBytes",
+  "attempts",
+]);
+
+interface RouteRequest {
+  params: string[];
+  query: URLSearchParams;
+  headers: IncomingMessage["headers"];
+  readBody: () => Promise<unknown>;
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  handle: (req: RouteRequest) => Promise<RouteResult>;
+}
+
+interface RouteResult {
+  status?: number;
+  body: unknown;
+}
+
+const CARRIER_ID = "([a-z0-9_-]+)";
+
+function buildRoutes(service: CarrierIntegrationService): Route[] {
+  return [
+    {
+      method: "GET",
+      path: /^\/health\/live$/,
+      handle: async () => ({ body: { status: "ok" } }),
+    },
+    {
+      method: "GET",
+      path: /^\/health\/ready$/,
+      handle: async () => {
+        // Not ready only when every carrier is known to be down.
+        const circuits = service.getCircuitStates();
+        const states = Object.values(circuits);
+        const allOpen = states.length > 0 && states.every((c) => c.state === "open");
+        return {
+          status: allOpen ? 503 : 200,
+          body: { status: allOpen ? "unavailable" : "ok", circuits },
+        };
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/v1\/carriers$/,
+      handle: async () => ({ body: { carriers: service.listCarriers() } }),
+    },
+    {
+      method: "POST",
+      path: /^\/v1\/rates$/,
+      handle: async (req) => {
+        const carriers = req.query.get("carriers");
+        const timeoutMs = req.query.get("timeoutMs");
+        const response = await service.getRatesFromAll(await req.readBody(), {
+          carriers: carriers ? carriers.split(",").filter(Boolean) : undefined,
+          timeoutMs: timeoutMs ? parseTimeoutMs(timeoutMs) : undefined,
+          bypassCache: wantsFreshResponse(req.headers),
+        });
+        return { body: withClientErrors(response) };
+      },
+    },
+    {
+      method: "POST",
+      path: new RegExp(`^/v1/rates/${CARRIER_ID}$`),
+      handle: async (req) => ({
+        body: await service.getRates(req.params[0], await req.readBody(), {
+          bypassCache: wantsFreshResponse(req.headers),
+        }),
+      }),
+    },
+    {
+      method: "POST",
+      path: new RegExp(`^/v1/labels/${CARRIER_ID}$`),
+      handle: async (req) => ({
+        status: 201,
+        body: serializeLabels(await service.createLabel(req.params[0], await req.readBody())),
+      }),
+    },
+    {
+      method: "POST",
+      path: new RegExp(`^/v1/tracking/${CARRIER_ID}$`),
+      handle: async (req) => ({
+        body: await service.track(req.params[0], await req.readBody()),
+      }),
+    },
+    {
+      method: "POST",
+      path: new RegExp(`^/v1/address-validation/${CARRIER_ID}$`),
+      handle: async (req) => ({
+        body: await service.validateAddress(req.params[0], await req.readBody()),
+      }),
+    },
+  ];
+}
+
+/** Request handler for use with node:http or any compatible server. */
+export function createRequestHandler(
+  options: ServerOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const routes = buildRoutes(options.service);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const pathMatches = routes.filter((r) => r.path.test(url.pathname));
+    const route = pathMatches.find((r) => r.method === method);
+    const match = route?.path.exec(url.pathname);
+
+    try {
+      if (!route || !match) {
+        if (pathMatches.length > 0) {
+          res.setHeader("Allow", pathMatches.map((r) => r.method).join(", "));
+          sendJson(res, 405, routingError(`Method ${method} not allowed for ${url.pathname}`));
+        } else {
+          sendJson(res, 404, routingError(`No route for ${method} ${url.pathname}`));
+        }
+        return;
+      }
+
+      const result = await route.handle({
+        params: match.slice(1),
+        query: url.searchParams,
+        headers: req.headers,
+        readBody: () => readJsonBody(req, maxBodyBytes),
+      });
+      sendJson(res, result.status ?? 200, result.body);
+    } catch (err) {
+      sendError(res, err);
+    }
+  };
+}
+
+/** Create (but don't start) the HTTP server; call listen() on the result. */
+export function createServer(options: ServerOptions): Server {
+  const handler = createRequestHandler(options);
+  return createHttpServer((req, res) => void handler(req, res));
+}
+
+/** Serialize an error for clients; anything unstructured becomes a generic UNKNOWN. */
+export function toErrorBody(err: unknown): ErrorBody {
+  if (!isCarrierIntegrationError(err)) {
+    return { error: { code: "UNKNOWN", message: "Internal server error" } };
+  }
+  return { error: toClientDetails(err.toJSON()) };
+}
+
+/** Multi-carrier errors are already serialized; strip them like toErrorBody does. */
+export function withClientErrors(response: MultiCarrierRateResponse): MultiCarrierRateResponse {
+  return {
+    ...response,
+    errors: response.errors.map(({ carrierId, error }) => ({ carrierId, error: toClientDetails(error) })),
+  };
+}
+
+function toClientDetails(details: CarrierIntegrationErrorDetails): ErrorBody["error"] {
+  const { cause: _cause, context, ...rest } = details;
+  const safe = Object.entries(context ?? {}).filter(([key]) => CLIENT_CONTEXT_KEYS.has(key));
+  return safe.length > 0 ? { ...rest, context: Object.fromEntries(safe) } : rest;
+}
+
+function sendError(res: ServerResponse, err: unknown): void {
+  let status = 500;
+  if (isCarrierIntegrationError(err)) {
+    status = payloadTooLarge.has(err) ? 413 : ERROR_HTTP_STATUS[err.code];
+  }
+  const retryAfterMs = isCarrierIntegrationError(err) ? err.context?.retryAfterMs : undefined;
+  if (typeof retryAfterMs === "number" && (status === 429 || status === 503)) {
+    res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  }
+  sendJson(res, status, toErrorBody(err));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+function routingError(message: string): ErrorBody {
+  return { error: { code: "VALIDATION_ERROR", message } };
+}
+
+/** Read and parse a JSON request body; bad input is a VALIDATION_ERROR. */
+async function readJsonBody(req: IncomingMessage, maxBodyBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBodyBytes) {
+      const err = new CarrierIntegrationError({
+        code: "VALIDATION_ERROR",
+        message: `Request body exceeds ${maxBodyBytes} bytes`,
+        context: { maxBodyBytes },
+      });
+      payloadTooLarge.add(err);
+      throw err;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: text ? "Request body is not valid JSON" : "Request body is required",
+    });
+  }
+}
+
+function parseTimeoutMs(value: string): number {
+  const timeoutMs = Number(value);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: "timeoutMs must be a positive integer",
+    });
+  }
+  return timeoutMs;
+}
+
+/** `Cache-Control: no-cache` asks for fresh quotes (bypassCache). */
+function wantsFreshResponse(headers: IncomingMessage["headers"]): boolean {
+  return /\bno-cache\b/i.test(headers["cache-control"] ?? "");
+}
+
+/** Label images are Buffers; send them as base64 strings. */
+function serializeLabels(response: LabelResponse) {
+  return {
+    ...response,
+    labels: response.labels.map((label) => ({ ...label, image: label.image.toString("base64") })),
+  };
+}
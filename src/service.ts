@@ -4,34 +4,394 @@
  * and returns normalized results. Callers never see carrier-specific shapes.
  */
 
-import { RateRequestSchema, type RateRequest, type RateResponse } from "./domain.js";
-import type { CarrierIntegration } from "./carriers/types.js";
-import { CarrierIntegrationError, isCarrierIntegrationError } from "./errors.js";
-import { ZodError } from "zod";
+import {
+  AddressValidationRequestSchema,
+  RateRequestSchema,
+  ShipmentRequestSchema,
+  TrackingRequestSchema,
+  type AddressValidationResult,
+  type LabelResponse,
+  type RateQuote,
+  type RateRequest,
+  type RateResponse,
+  type TrackingResponse,
+} from "./domain.js";
+import type {
+  CarrierIntegration,
+  CarrierOperation,
+  OperationInput,
+  OperationResult,
+} from "./carriers/types.js";
+import {
+  isAddressValidationResult,
+  isLabelResult,
+  isRateResult,
+  isTrackingResult,
+} from "./carriers/types.js";
+import {
+  CarrierIntegrationError,
+  isCarrierIntegrationError,
+  type CarrierIntegrationErrorDetails,
+} from "./errors.js";
+import { QuoteCache, type CachedRates, type QuoteCacheOptions } from "./quote-cache.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerSnapshot,
+} from "./circuit-breaker.js";
+import { withCorrelationId } from "./logger.js";
+import { measurePackages } from "./package-math.js";
+import { compareMoney } from "./money.js";
+import { convertQuotes, type FxRateProvider } from "./fx.js";
+import {
+  noopInstrumentation,
+  traceSpan,
+  type Instrumentation,
+  type SpanAttributes,
+} from "./instrumentation.js";
+import type { ZodError, ZodTypeAny, output } from "zod";
 
 export interface CarrierServiceOptions {
   carriers: CarrierIntegration[];
+  /** Reuse rate quotes for equivalent requests; omit to always ask the carrier */
+  quoteCache?: QuoteCacheOptions;
+  /**
+   * Fail fast with CARRIER_UNAVAILABLE while a carrier is failing; one breaker
+   * per carrier. Pass {} for DEFAULT_CIRCUIT_BREAKER_OPTIONS; omit to disable.
+   */
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Metrics and tracing for every carrier call; defaults to noopInstrumentation */
+  instrumentation?: Instrumentation;
+  /** Exchange rates for rate requests with a targetCurrency; without it they fail */
+  fxRateProvider?: FxRateProvider;
+}
+
+export interface RatesOptions {
+  /** Skip the quote cache lookup; the fresh response still refreshes the cache */
+  bypassCache?: boolean;
+  /**
+   * Correlation id for logs and the response's `requestId`, e.g. an upstream
+   * X-Request-Id. Defaults to the enclosing withCorrelationId() id or a new UUID.
+   */
+  requestId?: string;
+  /** Per-carrier time limit; a carrier that doesn't answer in time fails with TIMEOUT */
+  timeoutMs?: number;
+}
+
+export interface InvalidateRatesOptions {
+  /** Only drop this carrier's entry; defaults to every carrier */
+  carrierId?: string;
+  /** Only drop quotes for this request; without it the whole cache is cleared */
+  request?: unknown;
+}
+
+export interface RatesFromAllOptions extends RatesOptions {
+  /** Carrier IDs to query; defaults to every carrier that supports rate shopping */
+  carriers?: string[];
+}
+
+/** A carrier that failed during multi-carrier rate shopping. */
+export interface CarrierRateError {
+  carrierId: string;
+  error: CarrierIntegrationErrorDetails;
+}
+
+export interface MultiCarrierRateResponse {
+  /** Quotes from every carrier that answered, cheapest first */
+  quotes: RateQuote[];
+  /** One entry per carrier that failed; empty when all succeeded */
+  errors: CarrierRateError[];
+  /** Correlation id shared by every carrier call of this request */
+  requestId: string;
 }
 
 /**
- * Main service. Use getRates() for rate shopping; extend with getLabel(), track(), etc.
+ * Main service. Use getRates() for rate shopping, createLabel() for labels,
+ * track() for shipment status and validateAddress() before quoting.
  */
 export class CarrierIntegrationService {
   private readonly carriers: Map<string, CarrierIntegration>;
+  private readonly quoteCache: QuoteCache | undefined;
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly instrumentation: Instrumentation;
+  private readonly fxRateProvider: FxRateProvider | undefined;
 
   constructor(options: CarrierServiceOptions) {
     this.carriers = new Map(options.carriers.map((c) => [c.carrierId, c]));
+    this.instrumentation = options.instrumentation ?? noopInstrumentation;
+    this.fxRateProvider = options.fxRateProvider;
+    this.quoteCache = options.quoteCache ? new QuoteCache(options.quoteCache) : undefined;
+    if (options.circuitBreaker) {
+      for (const carrierId of this.carriers.keys()) {
+        this.breakers.set(carrierId, new CircuitBreaker(carrierId, options.circuitBreaker));
+      }
+    }
   }
 
   /**
    * Get shipping rates from the specified carrier. Input is validated before
    * any external call. Returns normalized quotes; caller does not see UPS (or
-   * any carrier) request/response format.
+   * any carrier) request/response format. With a quote cache, an equivalent
+   * request within the TTL is answered from the cache (`cache.hit`).
+   * `requestId` is the correlation id logged with this call's carrier requests.
+   * With `timeoutMs`, a carrier that is slower fails with TIMEOUT.
    */
   async getRates(
+    carrierId: string,
+    request: unknown,
+    options: RatesOptions = {}
+  ): Promise<RateResponse> {
+    return withCorrelationId(
+      (requestId) =>
+        this.traced("getRates", { "carrier.id": carrierId, "request.id": requestId }, async () => {
+          const carrier = this.getCarrierFor(carrierId, "rate", "rate shopping");
+          const validatedRequest = parseInput(RateRequestSchema, request, "rate request");
+          this.assertConvertible(validatedRequest);
+          const response = await withTimeout(
+            this.requestRates(carrier, validatedRequest, options),
+            options.timeoutMs,
+            carrierId
+          );
+          return { ...response, requestId };
+        }),
+      options.requestId
+    );
+  }
+
+  /**
+   * Get rates from several carriers in parallel and merge them into one list,
+   * cheapest first. The request is validated once up front (invalid input
+   * still throws VALIDATION_ERROR); after that, a failing or slow carrier is
+   * reported in `errors` instead of discarding the other carriers' quotes.
+   * A timed-out carrier request is not cancelled, only no longer awaited.
+   */
+  async getRatesFromAll(
+    request: unknown,
+    options: RatesFromAllOptions = {}
+  ): Promise<MultiCarrierRateResponse> {
+    const validatedRequest = parseInput(RateRequestSchema, request, "rate request");
+    this.assertConvertible(validatedRequest);
+    const carrierIds = [...new Set(options.carriers ?? this.getCarriersWithRates())];
+
+    return withCorrelationId(
+      (requestId) =>
+        this.traced(
+          "getRatesFromAll",
+          { "carrier.ids": carrierIds.join(","), "request.id": requestId },
+          async () => {
+            const outcomes = await Promise.all(
+              carrierIds.map(async (carrierId) => {
+                try {
+                  const carrier = this.getCarrierFor(carrierId, "rate", "rate shopping");
+                  const response = await withTimeout(
+                    this.requestRates(carrier, validatedRequest, options),
+                    options.timeoutMs,
+                    carrierId
+                  );
+                  return { carrierId, quotes: response.quotes };
+                } catch (err) {
+                  return { carrierId, error: toCarrierIntegrationError(err).toJSON() };
+                }
+              })
+            );
+
+            const quotes: RateQuote[] = [];
+            const errors: CarrierRateError[] = [];
+            for (const outcome of outcomes) {
+              if (outcome.error) errors.push({ carrierId: outcome.carrierId, error: outcome.error });
+              else quotes.push(...outcome.quotes);
+            }
+            quotes.sort(compareQuotes);
+            return { quotes, errors, requestId };
+          }
+        ),
+      options.requestId
+    );
+  }
+
+  /**
+   * Create a shipment and its labels with the specified carrier. Input is
+   * validated before any external call. Returns decoded label images; caller
+   * does not see the carrier's shipping request/response format.
+   */
+  async createLabel(
     carrierId: string,
     request: unknown
+  ): Promise<LabelResponse> {
+    return this.traced("createLabel", { "carrier.id": carrierId }, async () => {
+      const carrier = this.getCarrierFor(carrierId, "label", "label creation");
+      const validatedRequest = parseInput(ShipmentRequestSchema, request, "shipment request");
+
+      const result = await this.executeOnCarrier(carrier, {
+        operation: "label",
+        input: validatedRequest,
+      });
+      if (isLabelResult(result)) {
+        return result.result;
+      }
+      throw unexpectedResult(result);
+    });
+  }
+
+  /**
+   * Track one or more shipments with the specified carrier. Returns a
+   * normalized status and oldest-first event timeline per package.
+   */
+  async track(
+    carrierId: string,
+    request: unknown
+  ): Promise<TrackingResponse> {
+    return this.traced("track", { "carrier.id": carrierId }, async () => {
+      const carrier = this.getCarrierFor(carrierId, "tracking", "tracking");
+      const validatedRequest = parseInput(TrackingRequestSchema, request, "tracking request");
+
+      const result = await this.executeOnCarrier(carrier, {
+        operation: "tracking",
+        input: validatedRequest,
+      });
+      if (isTrackingResult(result)) {
+        return result.result;
+      }
+      throw unexpectedResult(result);
+    });
+  }
+
+  /**
+   * Validate an address with the specified carrier. Returns a verdict
+   * (valid / ambiguous / invalid), corrected candidates and a
+   * residential/commercial classification; use it before getRates() to avoid
+   * surprise residential surcharges and postal-code rejections.
+   */
+  async validateAddress(
+    carrierId: string,
+    request: unknown
+  ): Promise<AddressValidationResult> {
+    return this.traced("validateAddress", { "carrier.id": carrierId }, async () => {
+      const carrier = this.getCarrierFor(carrierId, "address_validation", "address validation");
+      const validatedRequest = parseInput(
+        AddressValidationRequestSchema,
+        request,
+        "address validation request"
+      );
+
+      const result = await this.executeOnCarrier(carrier, {
+        operation: "address_validation",
+        input: validatedRequest,
+      });
+      if (isAddressValidationResult(result)) {
+        return result.result;
+      }
+      throw unexpectedResult(result);
+    });
+  }
+
+  /**
+   * Drop cached quotes, e.g. after a carrier contract or surcharge change.
+   * With a request, only that request's entries (for one or every carrier)
+   * are removed; otherwise the whole cache is cleared. No-op without a cache.
+   */
+  async invalidateRates(options: InvalidateRatesOptions = {}): Promise<void> {
+    const cache = this.quoteCache;
+    if (!cache) return;
+    if (options.request === undefined) {
+      await cache.clear();
+      return;
+    }
+    const validatedRequest = parseInput(RateRequestSchema, options.request, "rate request");
+    const carrierIds = options.carrierId ? [options.carrierId] : this.getCarriersWithRates();
+    await Promise.all(
+      carrierIds.map((carrierId) => cache.delete(carrierId, validatedRequest))
+    );
+  }
+
+  /**
+   * Circuit state per carrier (closed / open / half_open) with recent failure
+   * counts; empty when the service has no circuit breaker.
+   */
+  getCircuitStates(): Record<string, CircuitBreakerSnapshot> {
+    const states: Record<string, CircuitBreakerSnapshot> = {};
+    for (const [carrierId, breaker] of this.breakers) {
+      states[carrierId] = breaker.getSnapshot();
+    }
+    return states;
+  }
+
+  /** Registered carriers and the operations each supports. */
+  listCarriers(): Array<{ carrierId: string; supportedOperations: CarrierOperation[] }> {
+    return [...this.carriers.values()].map((c) => ({
+      carrierId: c.carrierId,
+      supportedOperations: [...c.supportedOperations],
+    }));
+  }
+
+  /** List carrier IDs that support rate shopping. */
+  getCarriersWithRates(): string[] {
+    return [...this.carriers.values()]
+      .filter((c) => c.supportedOperations.includes("rate"))
+      .map((c) => c.carrierId);
+  }
+
+  /** VALIDATION_ERROR before any call when the request asks for a currency the service cannot convert to. */
+  private assertConvertible(request: RateRequest): void {
+    if (request.targetCurrency && !this.fxRateProvider) {
+      throw new CarrierIntegrationError({
+        code: "VALIDATION_ERROR",
+        message: "targetCurrency needs an fxRateProvider on the service",
+        context: { targetCurrency: request.targetCurrency },
+      });
+    }
+  }
+
+  /**
+   * Check packages against the carrier's limits (VALIDATION_ERROR before any
+   * call), then quote; the response carries each package's billable weight.
+   * With a targetCurrency, quotes are converted after the cache, so cached
+   * quotes are always converted at the provider's current rate.
+   */
+  private async requestRates(
+    carrier: CarrierIntegration,
+    request: RateRequest,
+    options: RatesOptions
+  ): Promise<RateResponse> {
+    const { targetCurrency } = request;
+    const fxRateProvider = this.fxRateProvider;
+    const packages = carrier.packageRules && measurePackages(request.packages, carrier.packageRules);
+
+    const response = await this.fetchRates(carrier, request, options);
+    const quotes =
+      targetCurrency && fxRateProvider
+        ? await convertQuotes(response.quotes, targetCurrency, fxRateProvider)
+        : response.quotes;
+    return { ...response, quotes, ...(packages && { packages }) };
+  }
+
+  private async fetchRates(
+    carrier: CarrierIntegration,
+    request: RateRequest,
+    options: RatesOptions
   ): Promise<RateResponse> {
+    const cache = this.quoteCache;
+    if (cache && !options.bypassCache) {
+      const cached = await cache.get(carrier.carrierId, request);
+      if (cached) return withCacheInfo(cached, true);
+    }
+
+    const result = await this.executeOnCarrier(carrier, {
+      operation: "rate",
+      input: request,
+    });
+    if (!isRateResult(result)) {
+      throw unexpectedResult(result);
+    }
+    if (!cache) return result.result;
+    return withCacheInfo(await cache.set(carrier.carrierId, request, result.result), false);
+  }
+
+  private getCarrierFor(
+    carrierId: string,
+    operation: CarrierOperation,
+    description: string
+  ): CarrierIntegration {
     const carrier = this.carriers.get(carrierId);
     if (!carrier) {
       throw new CarrierIntegrationError({
@@ -41,53 +401,140 @@ export class CarrierIntegrationService {
       });
     }
 
-    if (!carrier.supportedOperations.includes("rate")) {
+    if (!carrier.supportedOperations.includes(operation)) {
       throw new CarrierIntegrationError({
         code: "VALIDATION_ERROR",
-        message: `Carrier ${carrierId} does not support rate shopping`,
+        message: `Carrier ${carrierId} does not support ${description}`,
       });
     }
+    return carrier;
+  }
 
-    const parseResult = RateRequestSchema.safeParse(request);
-    if (!parseResult.success) {
-      const message = formatZodError(parseResult.error);
-      throw new CarrierIntegrationError({
-        code: "VALIDATION_ERROR",
-        message: `Invalid rate request: ${message}`,
-        context: { errors: parseResult.error.flatten() },
-      });
-    }
+  /**
+   * Run an operation on a carrier, through its circuit breaker when there is
+   * one, under the current correlation id (or a new one) and a
+   * "carrier.execute" span; anything that isn't already structured becomes
+   * UNKNOWN. Each call is reported to the instrumentation.
+   */
+  private executeOnCarrier(
+    carrier: CarrierIntegration,
+    input: OperationInput
+  ): Promise<OperationResult> {
+    const breaker = this.breakers.get(carrier.carrierId);
+    const event = { carrierId: carrier.carrierId, operation: input.operation };
+    const attributes = { "carrier.id": carrier.carrierId, "carrier.operation": input.operation };
+    return withCorrelationId(() =>
+      traceSpan(this.instrumentation, "carrier.execute", attributes, async () => {
+        const startedAt = Date.now();
+        try {
+          const result = breaker
+            ? await breaker.execute(() => carrier.execute(input))
+            : await carrier.execute(input);
+          this.instrumentation.recordCarrierCall({
+            ...event,
+            outcome: "success",
+            durationMs: Date.now() - startedAt,
+          });
+          return result;
+        } catch (err) {
+          const error = toCarrierIntegrationError(err);
+          this.instrumentation.recordCarrierCall({
+            ...event,
+            outcome: "error",
+            durationMs: Date.now() - startedAt,
+            errorCode: error.code,
+          });
+          throw error;
+        }
+      })
+    );
+  }
 
-    const validatedRequest: RateRequest = parseResult.data;
+  /** Run a public operation inside a "service.<name>" span. */
+  private traced<T>(name: string, attributes: SpanAttributes, fn: () => Promise<T>): Promise<T> {
+    return traceSpan(this.instrumentation, `service.${name}`, attributes, fn);
+  }
+}
 
-    try {
-      const result = await carrier.execute({
-        operation: "rate",
-        input: validatedRequest,
-      });
-      if (result.operation === "rate") {
-        return result.result;
-      }
-      throw new CarrierIntegrationError({
-        code: "UNKNOWN",
-        message: "Unexpected result type from carrier",
-      });
-    } catch (err) {
-      if (isCarrierIntegrationError(err)) throw err;
-      throw new CarrierIntegrationError({
-        code: "UNKNOWN",
-        message: err instanceof Error ? err.message : "Carrier request failed",
-        cause: err,
-      });
-    }
+function toCarrierIntegrationError(err: unknown): CarrierIntegrationError {
+  if (isCarrierIntegrationError(err)) return err;
+  return new CarrierIntegrationError({
+    code: "UNKNOWN",
+    message: err instanceof Error ? err.message : "Carrier request failed",
+    cause: err,
+  });
+}
+
+function withCacheInfo(entry: CachedRates, hit: boolean): RateResponse {
+  return {
+    ...entry.response,
+    cache: { hit, cachedAt: new Date(entry.cachedAtMs).toISOString() },
+  };
+}
+
+/** Reject with TIMEOUT if `promise` hasn't settled within `timeoutMs`. */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number | undefined,
+  carrierId: string
+): Promise<T> {
+  if (timeoutMs == null) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        new CarrierIntegrationError({
+          code: "TIMEOUT",
+          message: `Carrier ${carrierId} did not respond within ${timeoutMs}ms`,
+          context: { carrierId, timeoutMs },
+        })
+      );
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
   }
+}
 
-  /** List carrier IDs that support rate shopping. */
-  getCarriersWithRates(): string[] {
-    return [...this.carriers.values()]
-      .filter((c) => c.supportedOperations.includes("rate"))
-      .map((c) => c.carrierId);
+/**
+ * Cheapest first; equal prices fall back to fewer transit days. Amounts in
+ * different currencies are not comparable, so those quotes group by currency
+ * (set targetCurrency on the request to compare them).
+ */
+function compareQuotes(a: RateQuote, b: RateQuote): number {
+  const currencyOrder = a.totalCharge.currencyCode.localeCompare(b.totalCharge.currencyCode);
+  if (currencyOrder !== 0) return currencyOrder;
+  const priceOrder = compareMoney(a.totalCharge, b.totalCharge);
+  if (priceOrder !== 0) return priceOrder;
+  return (a.transitDays ?? Infinity) - (b.transitDays ?? Infinity);
+}
+
+/** Validate caller input against a domain schema; failures become VALIDATION_ERROR. */
+function parseInput<S extends ZodTypeAny>(
+  schema: S,
+  input: unknown,
+  description: string
+): output<S> {
+  const parseResult = schema.safeParse(input);
+  if (!parseResult.success) {
+    const message = formatZodError(parseResult.error);
+    throw new CarrierIntegrationError({
+      code: "VALIDATION_ERROR",
+      message: `Invalid ${description}: ${message}`,
+      context: { errors: parseResult.error.flatten() },
+    });
   }
+  return parseResult.data;
+}
+
+function unexpectedResult(result: OperationResult): CarrierIntegrationError {
+  return new CarrierIntegrationError({
+    code: "UNKNOWN",
+    message: "Unexpected result type from carrier",
+    context: { operation: result.operation },
+  });
 }
 
 function formatZodError(error: ZodError): string {
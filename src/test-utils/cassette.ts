@@ -0,0 +1,198 @@
+/**
+ * Record/replay HTTP cassettes. Record real carrier traffic (e.g. a sandbox)
+ * once with createRecordingHttpClient(), commit the JSON cassette, and replay
+ * it offline with createReplayHttpClient(). Credentials and tokens are
+ * scrubbed before anything is written.
+ *
+ * Requests are matched by method, URL (query parameters sorted) and a
+ * normalized body: JSON key order and whitespace don't matter, and secret
+ * fields are compared after the same scrubbing that was applied when recording.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { HttpClient, HttpRequestOptions, HttpResponse } from "../http-client.js";
+import { redactBody, redactHeaders } from "../logging-http-client.js";
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    /** Parsed JSON, or the raw (scrubbed) string for form and text bodies */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface RecordingHttpClient extends HttpClient {
+  /** Interactions recorded so far, already scrubbed */
+  readonly interactions: CassetteInteraction[];
+  /** Write the cassette to `path`, creating directories as needed. */
+  save(): Promise<void>;
+}
+
+/**
+ * Pass requests through to `http` and record each exchange. Failed requests
+ * (network errors, timeouts) are not recorded. Call save() when done.
+ */
+export function createRecordingHttpClient(http: HttpClient, path: string): RecordingHttpClient {
+  const interactions: CassetteInteraction[] = [];
+
+  return {
+    interactions,
+
+    async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
+      const response = await http.request<T>(options);
+      interactions.push({
+        request: {
+          method: options.method,
+          url: options.url,
+          headers: redactHeaders(options.headers ?? {}),
+          body: options.body === undefined ? undefined : redactBody(options.body),
+        },
+        response: {
+          status: response.status,
+          headers: redactHeaders(response.headers),
+          body: scrubResponseBody(response.body),
+        },
+      });
+      return response;
+    },
+
+    async save(): Promise<void> {
+      const cassette: Cassette = { version: 1, interactions };
+      await mkdir(dirname(path), { recursive: true });
+      const tmpPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(cassette, null, 2)}\n`);
+      await rename(tmpPath, path);
+    },
+  };
+}
+
+export async function loadCassette(path: string): Promise<Cassette> {
+  const cassette = JSON.parse(await readFile(path, "utf-8")) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Cassette ${path}: unsupported format (expected version 1 with interactions)`);
+  }
+  return cassette;
+}
+
+export interface ReplayHttpClient extends HttpClient {
+  /** Recorded interactions no request has matched yet */
+  unplayed(): CassetteInteraction[];
+  /** Throw if any recorded interaction was never requested. */
+  assertAllPlayed(): void;
+}
+
+/**
+ * Answer requests from a cassette. Each interaction is played once, in
+ * recorded order among identical requests; a request with no unplayed match
+ * throws an Error naming the request and the recorded candidates.
+ */
+export function createReplayHttpClient(cassette: Cassette): ReplayHttpClient {
+  const remaining = [...cassette.interactions];
+
+  return {
+    async request<T>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
+      const key = requestKey(options.method, options.url, options.body);
+      const index = remaining.findIndex(
+        (i) => requestKey(i.request.method, i.request.url, i.request.body) === key
+      );
+      if (index === -1) {
+        throw new Error(describeMismatch(options, cassette.interactions, remaining));
+      }
+      const [interaction] = remaining.splice(index, 1);
+      return {
+        status: interaction.response.status,
+        headers: { ...interaction.response.headers },
+        body: structuredClone(interaction.response.body) as T,
+      };
+    },
+
+    unplayed: () => [...remaining],
+
+    assertAllPlayed(): void {
+      if (remaining.length === 0) return;
+      const list = remaining.map((i) => `  ${i.request.method} ${i.request.url}`).join("\n");
+      throw new Error(`Cassette: ${remaining.length} recorded request(s) were never made:\n${list}`);
+    },
+  };
+}
+
+/** Response bodies are replayed as recorded, so a string body stays a string. */
+function scrubResponseBody(body: unknown): unknown {
+  const scrubbed = redactBody(body);
+  return typeof body === "string" && typeof scrubbed !== "string"
+    ? JSON.stringify(scrubbed)
+    : scrubbed;
+}
+
+function requestKey(method: string, url: string, body: unknown): string {
+  return `${method.toUpperCase()} ${normalizeUrl(url)}\n${normalizeBody(body)}`;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.sort();
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** Scrub (as when recording), then serialize with sorted keys. */
+function normalizeBody(body: unknown): string {
+  if (body === undefined || body === "") return "";
+  const scrubbed = typeof body === "string" ? redactBody(body) : body;
+  if (typeof scrubbed === "string") {
+    const form = new URLSearchParams(scrubbed);
+    form.sort();
+    return scrubbed.includes("=") ? form.toString() : scrubbed;
+  }
+  return JSON.stringify(sortKeys(scrubbed));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => [k, sortKeys(v)])
+  );
+}
+
+function describeMismatch(
+  options: HttpRequestOptions,
+  all: CassetteInteraction[],
+  remaining: CassetteInteraction[]
+): string {
+  const sameEndpoint = all.filter(
+    (i) =>
+      i.request.method.toUpperCase() === options.method.toUpperCase() &&
+      normalizeUrl(i.request.url) === normalizeUrl(options.url)
+  );
+  const lines = [`Cassette: no recorded response for ${options.method} ${options.url}`];
+  if (sameEndpoint.length === 0) {
+    const recorded = [...new Set(all.map((i) => `${i.request.method} ${i.request.url}`))];
+    lines.push(`Recorded endpoints: ${recorded.join(", ") || "(none)"}`);
+  } else if (sameEndpoint.every((i) => !remaining.includes(i))) {
+    lines.push(`All ${sameEndpoint.length} recording(s) for this endpoint were already played`);
+  } else {
+    lines.push("Body differs from every recording for this endpoint.");
+    lines.push(`Request body:  ${normalizeBody(options.body)}`);
+    lines.push(`Recorded body: ${normalizeBody(sameEndpoint[0].request.body)}`);
+  }
+  return lines.join("\n");
+}
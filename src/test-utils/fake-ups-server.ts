@@ -0,0 +1,410 @@
+/**
+ * Local fake UPS server for end-to-end tests through the real fetch client.
+ * Implements the OAuth token endpoint and the Rating API Shop endpoint: it
+ * checks credentials, bearer tokens and request bodies the way UPS does and
+ * answers with UPS-shaped rated shipments priced by billable weight, plus
+ * negotiated rates (15% off published) when the request asks for them. The
+ * Shoptimeintransit endpoint adds arrival dates counted in business days from
+ * the pickup date.
+ *
+ * Failures are scripted per endpoint with enqueue(); each scenario applies to
+ * the next request on that endpoint, in order. expireTokens() invalidates
+ * every issued token, as when a token outlives its expiry.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import { getUpsConfig, type UpsConfig } from "../config.js";
+
+export const FAKE_UPS_TOKEN_PATH = "/security/v1/oauth/token";
+export const FAKE_UPS_RATING_PATH = "/api/ratings/v1/Shop";
+export const FAKE_UPS_TIME_IN_TRANSIT_PATH = "/api/ratings/v1/Shoptimeintransit";
+
+export type FakeUpsEndpoint = "token" | "rate";
+
+export type FakeUpsScenario =
+  /** 429 with an optional Retry-After (seconds) */
+  | { type: "rate_limited"; retryAfterSeconds?: number }
+  /** Wait before answering normally; longer than requestTimeoutMs means a client timeout */
+  | { type: "slow"; delayMs: number }
+  /** 5xx with a UPS error body */
+  | { type: "server_error"; status?: number }
+  /** 200 with a non-JSON body, e.g. an HTML maintenance page */
+  | { type: "non_json"; contentType?: string; body?: string }
+  /** 200 declared as application/json but with a truncated body */
+  | { type: "malformed_json" };
+
+export interface FakeUpsServerOptions {
+  clientId?: string;
+  clientSecret?: string;
+  /** expires_in of issued tokens (default 14399, as UPS issues them) */
+  tokenTtlSeconds?: number;
+}
+
+export interface FakeUpsRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+export interface FakeUpsServer {
+  /** Base URL, e.g. http://127.0.0.1:54321 */
+  readonly url: string;
+  /** Every request received, oldest first */
+  readonly requests: FakeUpsRequest[];
+  /** UpsConfig with this server's URLs and credentials; override anything else */
+  config(overrides?: Partial<UpsConfig>): UpsConfig;
+  enqueue(endpoint: FakeUpsEndpoint, ...scenarios: FakeUpsScenario[]): void;
+  /** Make every issued token invalid; the next rate request gets 401 */
+  expireTokens(): void;
+  /** Number of tokens issued so far */
+  tokensIssued(): number;
+  close(): Promise<void>;
+}
+
+/** UPS-shaped error body: { response: { errors: [{ code, message }] } }. */
+function upsError(code: string, message: string) {
+  return { response: { errors: [{ code, message }] } };
+}
+
+/**
+ * Per-service pricing (base + per billable pound), business days in transit,
+ * whether UPS guarantees them, and the delivery-by time (HHMMSS).
+ */
+const FAKE_SERVICES = [
+  { code: "03", base: 9.35, perLb: 0.62, days: 4, guaranteed: false, by: "230000" },
+  { code: "12", base: 18.1, perLb: 1.15, days: 3, guaranteed: true, by: "230000" },
+  { code: "02", base: 24.4, perLb: 1.9, days: 2, guaranteed: true, by: "230000" },
+  { code: "01", base: 38.75, perLb: 2.85, days: 1, guaranteed: true, by: "103000" },
+] as const;
+
+/** Start a fake UPS server on an ephemeral localhost port. */
+export async function startFakeUpsServer(options: FakeUpsServerOptions = {}): Promise<FakeUpsServer> {
+  const clientId = options.clientId ?? "fake_client_id";
+  const clientSecret = options.clientSecret ?? "fake_client_secret";
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 14_399;
+  const tokens = new Map<string, number>();
+  const scenarios: Record<FakeUpsEndpoint, FakeUpsScenario[]> = { token: [], rate: [] };
+  const requests: FakeUpsRequest[] = [];
+  let issued = 0;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const body = await readBody(req);
+    requests.push({
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body,
+    });
+
+    const endpoint: FakeUpsEndpoint | undefined =
+      url.pathname === FAKE_UPS_TOKEN_PATH
+        ? "token"
+        : url.pathname === FAKE_UPS_RATING_PATH || url.pathname === FAKE_UPS_TIME_IN_TRANSIT_PATH
+          ? "rate"
+          : undefined;
+    if (!endpoint) {
+      return sendJson(res, 404, upsError("10001", `No such resource: ${url.pathname}`));
+    }
+    if (req.method !== "POST") {
+      return sendJson(res, 405, upsError("10002", "Method not allowed"));
+    }
+
+    const scenario = scenarios[endpoint].shift();
+    if (scenario) {
+      const handled = await applyScenario(scenario, res);
+      if (handled) return;
+    }
+
+    if (endpoint === "token") return handleToken(req, body, res);
+    return handleRate(req, url, body, res);
+  };
+
+  const handleToken = (req: IncomingMessage, body: string, res: ServerResponse) => {
+    const expected = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`;
+    if (req.headers.authorization !== expected || req.headers["x-merchant-id"] !== clientId) {
+      return sendJson(res, 401, upsError("250003", "Invalid Authentication Information."));
+    }
+    if (!req.headers["content-type"]?.startsWith("application/x-www-form-urlencoded")) {
+      return sendJson(res, 400, upsError("10001", "Content-Type must be application/x-www-form-urlencoded"));
+    }
+    if (new URLSearchParams(body).get("grant_type") !== "client_credentials") {
+      return sendJson(res, 400, upsError("10001", "grant_type must be client_credentials"));
+    }
+
+    const accessToken = randomBytes(24).toString("base64url");
+    tokens.set(accessToken, Date.now() + tokenTtlSeconds * 1000);
+    issued += 1;
+    sendJson(res, 200, {
+      token_type: "Bearer",
+      issued_at: String(Date.now()),
+      client_id: clientId,
+      access_token: accessToken,
+      // UPS sends expires_in as a string
+      expires_in: String(tokenTtlSeconds),
+      status: "approved",
+    });
+  };
+
+  const handleRate = (req: IncomingMessage, url: URL, body: string, res: ServerResponse) => {
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+    const expiresAt = token ? tokens.get(token) : undefined;
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      return sendJson(res, 401, upsError("250002", "Invalid Authentication Information."));
+    }
+    if (url.searchParams.get("version") !== "v1") {
+      return sendJson(res, 400, upsError("10001", "Missing or unsupported version"));
+    }
+    if (!req.headers["content-type"]?.startsWith("application/json")) {
+      return sendJson(res, 415, upsError("10001", "Content-Type must be application/json"));
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return sendJson(res, 400, upsError("10001", "The request body is not valid JSON"));
+    }
+    const shipment = (parsed as FakeRateRequest).RateRequest?.Shipment;
+    if (!shipment) return sendJson(res, 400, upsError("111100", "Missing Shipment"));
+    const timeInTransit = url.pathname === FAKE_UPS_TIME_IN_TRANSIT_PATH;
+    const problem = validateShipment(shipment, timeInTransit);
+    if (problem) return sendJson(res, 400, upsError(problem.code, problem.message));
+
+    sendJson(res, 200, ratedShipments(shipment, timeInTransit));
+  };
+
+  const applyScenario = async (scenario: FakeUpsScenario, res: ServerResponse): Promise<boolean> => {
+    switch (scenario.type) {
+      case "rate_limited": {
+        const headers: Record<string, string> =
+          scenario.retryAfterSeconds != null ? { "Retry-After": String(scenario.retryAfterSeconds) } : {};
+        sendJson(res, 429, upsError("10429", "Too Many Requests"), headers);
+        return true;
+      }
+      case "slow":
+        await new Promise((resolve) => setTimeout(resolve, scenario.delayMs));
+        return false;
+      case "server_error":
+        sendJson(res, scenario.status ?? 503, upsError("190001", "The service is temporarily unavailable"));
+        return true;
+      case "non_json":
+        send(
+          res,
+          200,
+          scenario.contentType ?? "text/html",
+          scenario.body ?? "<html><body><h1>Scheduled maintenance</h1></body></html>"
+        );
+        return true;
+      case "malformed_json":
+        send(res, 200, "application/json", '{"RateResponse": {"Response": ');
+        return true;
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err: unknown) => {
+      if (!res.headersSent) sendJson(res, 500, upsError("190000", String(err)));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    requests,
+    config: (overrides = {}) => ({
+      ...getUpsConfig(),
+      clientId,
+      clientSecret,
+      apiBaseUrl: baseUrl,
+      oauthTokenUrl: `${baseUrl}${FAKE_UPS_TOKEN_PATH}`,
+      ...overrides,
+    }),
+    enqueue: (endpoint, ...items) => void scenarios[endpoint].push(...items),
+    expireTokens: () => {
+      for (const token of tokens.keys()) tokens.set(token, 0);
+    },
+    tokensIssued: () => issued,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+interface FakeAddress {
+  Address?: { AddressLine?: string[]; City?: string; PostalCode?: string; CountryCode?: string };
+}
+
+interface FakePackage {
+  Dimensions?: { UnitOfMeasurement?: { Code?: string }; Length?: string; Width?: string; Height?: string };
+  PackageWeight?: { UnitOfMeasurement?: { Code?: string }; Weight?: string };
+}
+
+interface FakeShipment {
+  Shipper?: FakeAddress & { ShipperNumber?: string };
+  ShipFrom?: FakeAddress;
+  ShipTo?: FakeAddress;
+  Package?: FakePackage[];
+  Service?: { Code?: string };
+  ShipmentRatingOptions?: { NegotiatedRatesIndicator?: string };
+  DeliveryTimeInformation?: { Pickup?: { Date?: string } };
+  ShipmentTotalWeight?: { Weight?: string };
+}
+
+interface FakeRateRequest {
+  RateRequest?: { Shipment?: FakeShipment };
+}
+
+/** The checks UPS applies that our client could get wrong, with UPS error codes. */
+function validateShipment(
+  shipment: FakeShipment,
+  timeInTransit: boolean
+): { code: string; message: string } | undefined {
+  for (const [field, party] of [["ShipFrom", shipment.ShipFrom], ["ShipTo", shipment.ShipTo]] as const) {
+    const address = party?.Address;
+    if (!address?.PostalCode || !address.CountryCode) {
+      return { code: "111210", message: `${field} postal code and country code are required` };
+    }
+  }
+  const packages = shipment.Package;
+  if (!Array.isArray(packages) || packages.length === 0) {
+    return { code: "111050", message: "At least one package is required" };
+  }
+  for (const pkg of packages) {
+    const weight = Number(pkg.PackageWeight?.Weight);
+    if (!(weight > 0)) return { code: "111057", message: "Package weight must be greater than zero" };
+    const unit = pkg.PackageWeight?.UnitOfMeasurement?.Code;
+    if (unit !== "LBS" && unit !== "KGS") {
+      return { code: "111035", message: `Invalid package weight unit: ${unit}` };
+    }
+  }
+  if (timeInTransit) {
+    if (!/^\d{8}$/.test(shipment.DeliveryTimeInformation?.Pickup?.Date ?? "")) {
+      return { code: "111500", message: "Pickup date (YYYYMMDD) is required for time in transit" };
+    }
+    if (!(Number(shipment.ShipmentTotalWeight?.Weight) > 0)) {
+      return { code: "111501", message: "Shipment total weight is required for time in transit" };
+    }
+  }
+  const service = shipment.Service?.Code;
+  if (service && !FAKE_SERVICES.some((s) => s.code === service)) {
+    return { code: "111217", message: `The requested service ${service} is unavailable` };
+  }
+  return undefined;
+}
+
+/** Billable pounds: actual or dimensional (divisor 139 in³/lb), whichever is greater, rounded up. */
+function billableLbs(pkg: FakePackage): number {
+  const kgs = pkg.PackageWeight?.UnitOfMeasurement?.Code === "KGS";
+  const actual = Number(pkg.PackageWeight?.Weight) * (kgs ? 2.20462 : 1);
+  const dims = pkg.Dimensions;
+  let dimensional = 0;
+  if (dims?.Length && dims.Width && dims.Height) {
+    const toIn = dims.UnitOfMeasurement?.Code === "CM" ? 1 / 2.54 : 1;
+    dimensional =
+      (Number(dims.Length) * toIn * Number(dims.Width) * toIn * Number(dims.Height) * toIn) / 139;
+  }
+  return Math.ceil(Math.max(actual, dimensional));
+}
+
+/** YYYYMMDD plus `days` business days (weekends skipped). */
+function addBusinessDays(yyyymmdd: string, days: number): string {
+  const date = new Date(`${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}T00:00:00Z`);
+  for (let added = 0; added < days; ) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) added += 1;
+  }
+  return date.toISOString().slice(0, 10).replaceAll("-", "");
+}
+
+function ratedShipments(shipment: FakeShipment, timeInTransit: boolean) {
+  const pickupDate = shipment.DeliveryTimeInformation?.Pickup?.Date ?? "";
+  const packages = shipment.Package ?? [];
+  const billable = packages.reduce((sum, pkg) => sum + billableLbs(pkg), 0);
+  const services = FAKE_SERVICES.filter((s) => !shipment.Service?.Code || s.code === shipment.Service.Code);
+  const money = (value: number) => ({ CurrencyCode: "USD", MonetaryValue: value.toFixed(2) });
+  const negotiated =
+    !!shipment.Shipper?.ShipperNumber && shipment.ShipmentRatingOptions?.NegotiatedRatesIndicator != null;
+
+  return {
+    RateResponse: {
+      Response: {
+        ResponseStatus: { Code: "1", Description: "Success" },
+        Alert: [{ Code: "110971", Description: "Your invoice may vary from the displayed reference rates" }],
+        TransactionReference: { CustomerContext: "" },
+      },
+      RatedShipment: services.map((service) => {
+        const total = service.base * packages.length + service.perLb * billable;
+        return {
+          Service: { Code: service.code, Description: "" },
+          RatedShipmentAlert: [],
+          BillingWeight: { UnitOfMeasurement: { Code: "LBS", Description: "Pounds" }, Weight: String(billable) },
+          BaseServiceCharge: money(total),
+          TransportationCharges: money(total),
+          ServiceOptionsCharges: money(0),
+          TotalCharges: money(total),
+          ...(negotiated
+            ? { NegotiatedRateCharges: { TotalCharge: money(Math.round(total * 85) / 100) } }
+            : {}),
+          ...(service.guaranteed
+            ? { GuaranteedDelivery: { BusinessDaysInTransit: String(service.days) } }
+            : {}),
+          ...(timeInTransit
+            ? {
+                TimeInTransit: {
+                  PickupDate: pickupDate,
+                  ServiceSummary: {
+                    Service: { Description: `UPS ${service.code}` },
+                    ...(service.guaranteed ? { GuaranteedIndicator: "" } : {}),
+                    EstimatedArrival: {
+                      Arrival: { Date: addBusinessDays(pickupDate, service.days), Time: service.by },
+                      BusinessDaysInTransit: String(service.days),
+                    },
+                  },
+                },
+              }
+            : {}),
+          RatedPackage: packages.map((pkg) => ({ Weight: String(billableLbs(pkg)) })),
+        };
+      }),
+    },
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  send(res, status, "application/json", JSON.stringify(body), headers);
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  payload: string,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Content-Length": Buffer.byteLength(payload),
+    ...headers,
+  });
+  res.end(payload);
+}
@@ -0,0 +1,70 @@
+/**
+ * Realistic FedEx payloads for stubbing with createStubHttpClient().
+ * Shapes follow FedEx OAuth and Rate API docs (trimmed to the fields we read).
+ */
+
+import type { StubResponse } from "./stub-http.js";
+
+export const FEDEX_OAUTH_SUCCESS: StubResponse = {
+  status: 200,
+  body: {
+    access_token: "fedex_test_token",
+    token_type: "bearer",
+    expires_in: 3599,
+    scope: "CXS-TP",
+  },
+};
+
+export const FEDEX_OAUTH_INVALID_CLIENT: StubResponse = {
+  status: 401,
+  body: {
+    transactionId: "4c9a2e8b-0000-0000-0000-000000000001",
+    errors: [{ code: "NOT.AUTHORIZED.ERROR", message: "The given client credentials were not valid." }],
+  },
+};
+
+export const FEDEX_RATE_SUCCESS: StubResponse = {
+  status: 200,
+  body: {
+    transactionId: "624deea6-b709-470c-8c39-4b5511281492",
+    output: {
+      rateReplyDetails: [
+        {
+          serviceType: "FEDEX_GROUND",
+          serviceName: "FedEx Ground®",
+          packagingType: "YOUR_PACKAGING",
+          ratedShipmentDetails: [
+            { rateType: "ACCOUNT", totalBaseCharge: 13.41, totalNetCharge: 11.87, currency: "USD" },
+            { rateType: "LIST", totalBaseCharge: 15.2, totalNetCharge: 15.2, currency: "USD" },
+          ],
+          commit: { transitDays: { description: "3 Business Days", minimumTransitTime: "THREE_DAYS" } },
+          operationalDetail: { transitTime: "THREE_DAYS" },
+        },
+        {
+          serviceType: "FEDEX_2_DAY",
+          serviceName: "FedEx 2Day®",
+          packagingType: "YOUR_PACKAGING",
+          ratedShipmentDetails: [
+            { rateType: "LIST", totalBaseCharge: 31.02, totalNetCharge: 33.78, currency: "USD" },
+          ],
+          commit: { transitDays: { minimumTransitTime: "TWO_DAYS" } },
+        },
+      ],
+      quoteDate: "2024-03-11",
+      encoded: false,
+    },
+  },
+};
+
+export const FEDEX_RATE_ACCOUNT_MISMATCH: StubResponse = {
+  status: 400,
+  body: {
+    transactionId: "624deea6-b709-470c-8c39-4b5511281493",
+    errors: [
+      {
+        code: "ACCOUNT.NUMBER.MISMATCH",
+        message: "When payment Type is SENDER, ShippingChargesPayment Payor AccountNumber should match the shipper account number.",
+      },
+    ],
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * End-to-end tests: UpsCarrier with the real fetch HTTP client against the
+ * local fake UPS server, covering headers, timeouts, content types and
+ * scripted failures that the stub client skips.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { startFakeUpsServer, type FakeUpsServer } from "./test-utils/fake-ups-server.js";
+import { CarrierIntegrationService } from "./service.js";
+import { UpsCarrier, type UpsCarrierOptions } from "./carriers/ups/ups-carrier.js";
+import { createFetchHttpClient } from "./http-client.js";
+import type { UpsConfig } from "./config.js";
+import type { RateRequest } from "./domain.js";
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: {
+    line1: "123 Origin St",
+    city: "Atlanta",
+    stateProvinceCode: "GA",
+    postalCode: "30301",
+    countryCode: "US",
+  },
+  destination: {
+    line1: "456 Dest Ave",
+    city: "New York",
+    stateProvinceCode: "NY",
+    postalCode: "10001",
+    countryCode: "US",
+  },
+  packages: [{ weight: 5, weightUnit: "LBS", length: 10, width: 8, height: 6, dimensionUnit: "IN" }],
+};
+
+describe("UPS end-to-end against the fake UPS server", () => {
+  let fake: FakeUpsServer;
+
+  function upsService(config: Partial<UpsConfig> = {}, options: Partial<UpsCarrierOptions> = {}) {
+    const carrier = new UpsCarrier({
+      config: fake.config(config),
+      http: createFetchHttpClient(),
+      ...options,
+    });
+    return new CarrierIntegrationService({ carriers: [carrier] });
+  }
+
+  const rateRequests = () => fake.requests.filter((r) => r.path === "/api/ratings/v1/Shop");
+
+  beforeEach(async () => {
+    fake = await startFakeUpsServer();
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  it("authenticates and returns rated shipments priced by billable weight", async () => {
+    const response = await upsService().getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(response.quotes).toEqual([
+      expect.objectContaining({ serviceCode: "03", serviceName: "Ground", totalCharge: { minorUnits: 1245, currencyCode: "USD" } }),
+      expect.objectContaining({ serviceCode: "12", totalCharge: { minorUnits: 2385, currencyCode: "USD" }, transitDays: 3 }),
+      expect.objectContaining({ serviceCode: "02", totalCharge: { minorUnits: 3390, currencyCode: "USD" }, transitDays: 2 }),
+      expect.objectContaining({ serviceCode: "01", totalCharge: { minorUnits: 5300, currencyCode: "USD" }, transitDays: 1 }),
+    ]);
+    expect(response.quotes[0].transitDays).toBeUndefined();
+    const [rate] = rateRequests();
+    expect(rate.query).toEqual({ version: "v1" });
+    expect(rate.headers["content-type"]).toBe("application/json");
+    expect(rate.headers.authorization).toMatch(/^Bearer \S+$/);
+    expect(fake.tokensIssued()).toBe(1);
+  });
+
+  it("returns negotiated totals next to published ones for a shipper account", async () => {
+    const response = await upsService().getRates("ups", {
+      ...SAMPLE_RATE_REQUEST,
+      serviceCode: "03",
+      shipperAccountNumber: "A1B2C3",
+    });
+
+    expect(response.quotes).toEqual([
+      expect.objectContaining({
+        serviceCode: "03",
+        totalCharge: { minorUnits: 1058, currencyCode: "USD" },
+        publishedCharge: { minorUnits: 1245, currencyCode: "USD" },
+        negotiatedCharge: { minorUnits: 1058, currencyCode: "USD" },
+        charges: [{ code: "BASE", description: "Base Service Charge", amount: { minorUnits: 1245, currencyCode: "USD" } }],
+      }),
+    ]);
+  });
+
+  it("quotes arrival dates counted from the pickup date", async () => {
+    const response = await upsService().getRates("ups", { ...SAMPLE_RATE_REQUEST, shipDate: "2026-03-06" });
+
+    expect(fake.requests.at(-1)?.path).toBe("/api/ratings/v1/Shoptimeintransit");
+    expect(response.quotes).toEqual([
+      expect.objectContaining({
+        serviceCode: "03",
+        transitDays: 4,
+        estimatedDelivery: "2026-03-12",
+        deliveryByTime: "23:00",
+        guaranteed: false,
+      }),
+      expect.objectContaining({ serviceCode: "12", estimatedDelivery: "2026-03-11", guaranteed: true }),
+      expect.objectContaining({ serviceCode: "02", estimatedDelivery: "2026-03-10", guaranteed: true }),
+      expect.objectContaining({
+        serviceCode: "01",
+        estimatedDelivery: "2026-03-09",
+        deliveryByTime: "10:30",
+        guaranteed: true,
+      }),
+    ]);
+  });
+
+  it("reuses the token, then refreshes and replays once it has expired", async () => {
+    const service = upsService();
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    await service.getRates("ups", SAMPLE_RATE_REQUEST);
+    expect(fake.tokensIssued()).toBe(1);
+
+    fake.expireTokens();
+    const response = await service.getRates("ups", SAMPLE_RATE_REQUEST);
+
+    expect(response.quotes).toHaveLength(4);
+    expect(fake.tokensIssued()).toBe(2);
+    expect(rateRequests()).toHaveLength(4);
+  });
+
+  it("fails with AUTH_FAILED when the credentials are wrong", async () => {
+    await expect(
+      upsService({ clientSecret: "wrong" }).getRates("ups", SAMPLE_RATE_REQUEST)
+    ).rejects.toMatchObject({ code: "AUTH_FAILED", statusCode: 401 });
+  });
+
+  it("surfaces 429 Retry-After, and retries after it when a policy is set", async () => {
+    fake.enqueue("rate", { type: "rate_limited", retryAfterSeconds: 2 });
+    await expect(upsService().getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+      statusCode: 429,
+      context: { retryAfterMs: 2_000 },
+    });
+
+    fake.enqueue("rate", { type: "rate_limited", retryAfterSeconds: 0 });
+    const response = await upsService({}, { retry: { initialDelayMs: 1 } }).getRates(
+      "ups",
+      SAMPLE_RATE_REQUEST
+    );
+    expect(response.quotes).toHaveLength(4);
+  });
+
+  it("times out slow responses with TIMEOUT", async () => {
+    fake.enqueue("rate", { type: "slow", delayMs: 1_000 });
+
+    await expect(
+      upsService({ requestTimeoutMs: 50 }).getRates("ups", SAMPLE_RATE_REQUEST)
+    ).rejects.toMatchObject({ code: "TIMEOUT" });
+  });
+
+  it("maps 5xx, non-JSON and malformed JSON responses to structured errors", async () => {
+    const service = upsService();
+
+    fake.enqueue("rate", { type: "server_error", status: 503 });
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+      statusCode: 503,
+      carrierCode: "190001",
+    });
+
+    fake.enqueue("rate", { type: "non_json" });
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "MALFORMED_RESPONSE",
+    });
+
+    fake.enqueue("rate", { type: "malformed_json" });
+    await expect(service.getRates("ups", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "MALFORMED_RESPONSE",
+      statusCode: 200,
+    });
+  });
+
+  it("rejects requests UPS would reject with its error code", async () => {
+    await expect(
+      upsService().getRates("ups", { ...SAMPLE_RATE_REQUEST, serviceCode: "99" })
+    ).rejects.toMatchObject({ code: "CARRIER_ERROR", statusCode: 400, carrierCode: "111217" });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Integration tests: service + USPS carrier + stubbed HTTP.
+ * Verifies per-mail-class pricing, multi-package totals and error handling
+ * using realistic USPS Prices API payloads (no live API).
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { CarrierIntegrationService } from "./service.js";
+import { UspsCarrier } from "./carriers/usps/usps-carrier.js";
+import { UpsCarrier } from "./carriers/ups/ups-carrier.js";
+import { buildUspsBaseRatesRequests } from "./carriers/usps/usps-rate.js";
+import { getUpsConfig, getUspsConfig } from "./config.js";
+import { createStubHttpClient } from "./test-utils/stub-http.js";
+import type { RateRequest } from "./domain.js";
+
+// --- Realistic USPS OAuth response (from USPS OAuth v3 docs) ---
+const USPS_OAUTH_SUCCESS = {
+  access_token: "usps_test_token",
+  token_type: "Bearer",
+  issued_at: 1710172800000,
+  expires_in: 28799,
+  status: "approved",
+  scope: "prices",
+};
+
+/** USPS base-rates response for one piece of the given mail class. */
+function uspsBaseRate(mailClass: string, price: number) {
+  return {
+    totalBasePrice: price,
+    rates: [
+      {
+        SKU: "DUXP0XXXXC07050",
+        description: `${mailClass} Machinable Single-piece`,
+        priceType: "RETAIL",
+        price,
+        weight: 5,
+        dimWeight: 0,
+        fees: [],
+        startDate: "2024-01-21",
+        endDate: "",
+        mailClass,
+        zone: "05",
+      },
+    ],
+  };
+}
+
+const USPS_WEIGHT_LIMIT_ERROR = {
+  apiVersion: "/prices/v3",
+  error: {
+    code: "400",
+    message: "OASValidation failed",
+    errors: [{ status: "400", code: "020001", title: "Invalid weight", detail: "Weight exceeds the maximum for this mail class." }],
+  },
+};
+
+const SAMPLE_RATE_REQUEST: RateRequest = {
+  origin: { line1: "123 Origin St", city: "Atlanta", stateProvinceCode: "GA", postalCode: "30301-1234", countryCode: "US" },
+  destination: { line1: "456 Dest Ave", city: "New York", stateProvinceCode: "NY", postalCode: "10001", countryCode: "US" },
+  packages: [{ weight: 2, weightUnit: "LBS", length: 10, width: 8, height: 4, dimensionUnit: "IN" }],
+};
+
+const config = {
+  ...getUspsConfig(),
+  clientId: "usps_client",
+  clientSecret: "usps_secret",
+  apiBaseUrl: "https://usps.example.com",
+  oauthTokenUrl: "https://usps.example.com/oauth2/v3/token",
+};
+
+describe("UspsCarrier via CarrierIntegrationService", () => {
+  let stubHttp: ReturnType<typeof createStubHttpClient>;
+  let service: CarrierIntegrationService;
+
+  beforeEach(() => {
+    stubHttp = createStubHttpClient();
+    service = new CarrierIntegrationService({
+      carriers: [new UspsCarrier({ config, http: stubHttp })],
+    });
+  });
+
+  it("prices each mail class and returns quotes with transit days", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("USPS_GROUND_ADVANTAGE", 8.35) });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL", 12.4) });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL_EXPRESS", 41.2) });
+
+    const result = await service.getRates("usps", SAMPLE_RATE_REQUEST);
+
+    expect(result.quotes).toEqual([
+      expect.objectContaining({ carrier: "usps", serviceCode: "USPS_GROUND_ADVANTAGE", serviceName: "Ground Advantage", totalCharge: { minorUnits: 835, currencyCode: "USD" }, transitDays: 5 }),
+      expect.objectContaining({ serviceCode: "PRIORITY_MAIL", totalCharge: { minorUnits: 1240, currencyCode: "USD" }, transitDays: 3 }),
+      expect.objectContaining({ serviceCode: "PRIORITY_MAIL_EXPRESS", totalCharge: { minorUnits: 4120, currencyCode: "USD" }, transitDays: 2 }),
+    ]);
+
+    const requests = stubHttp.getRequests();
+    expect(requests).toHaveLength(4);
+    expect(JSON.parse(requests[0].body ?? "{}")).toMatchObject({ grant_type: "client_credentials", client_id: "usps_client" });
+    const first = JSON.parse(requests[1].body ?? "{}");
+    expect(requests[1].url).toBe("https://usps.example.com/prices/v3/base-rates/search");
+    expect(first).toMatchObject({
+      originZIPCode: "30301",
+      destinationZIPCode: "10001",
+      weight: 2,
+      mailClass: "USPS_GROUND_ADVANTAGE",
+      priceType: "RETAIL",
+    });
+  });
+
+  it("sums piece prices for multi-package requests", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL", 10.1) });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL", 11.2) });
+
+    const result = await service.getRates("usps", {
+      ...SAMPLE_RATE_REQUEST,
+      serviceCode: "PRIORITY_MAIL",
+      packages: [SAMPLE_RATE_REQUEST.packages[0], { weight: 3, weightUnit: "LBS", dimensionUnit: "IN" }],
+    });
+
+    expect(result.quotes).toHaveLength(1);
+    expect(result.quotes[0].totalCharge).toEqual({ minorUnits: 2130, currencyCode: "USD" });
+  });
+
+  it("replaces a token USPS rejects with 401 and replays the request once", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 401, body: { error: { code: "401", message: "Unauthorized" } } });
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL", 12.4) });
+
+    const result = await service.getRates("usps", { ...SAMPLE_RATE_REQUEST, serviceCode: "PRIORITY_MAIL" });
+
+    expect(result.quotes[0].totalCharge).toEqual({ minorUnits: 1240, currencyCode: "USD" });
+    expect(stubHttp.getRequests().filter((r) => r.url === config.oauthTokenUrl)).toHaveLength(2);
+  });
+
+  it("omits mail classes USPS rejects for the shipment", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 400, body: USPS_WEIGHT_LIMIT_ERROR });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL", 12.4) });
+    stubHttp.stubNext({ status: 200, body: uspsBaseRate("PRIORITY_MAIL_EXPRESS", 41.2) });
+
+    const result = await service.getRates("usps", SAMPLE_RATE_REQUEST);
+
+    expect(result.quotes.map((q) => q.serviceCode)).toEqual(["PRIORITY_MAIL", "PRIORITY_MAIL_EXPRESS"]);
+  });
+
+  it("fails with the USPS error when no mail class can be priced", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 400, body: USPS_WEIGHT_LIMIT_ERROR });
+
+    await expect(
+      service.getRates("usps", { ...SAMPLE_RATE_REQUEST, serviceCode: "USPS_GROUND_ADVANTAGE" })
+    ).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+      statusCode: 400,
+      carrierCode: "020001",
+      message: expect.stringContaining("Weight exceeds"),
+    });
+  });
+
+  it("5xx aborts the quote instead of skipping the mail class", async () => {
+    stubHttp.stubNext({ status: 200, body: USPS_OAUTH_SUCCESS });
+    stubHttp.stubNext({ status: 503, body: "Service Unavailable" });
+
+    await expect(service.getRates("usps", SAMPLE_RATE_REQUEST)).rejects.toMatchObject({
+      code: "CARRIER_ERROR",
+      statusCode: 503,
+    });
+  });
+
+  it("rejects international shipments, unknown service codes and extra services before any HTTP call", async () => {
+    await expect(
+      service.getRates("usps", {
+        ...SAMPLE_RATE_REQUEST,
+        destination: { line1: "1 Main St", city: "Toronto", postalCode: "M5V 2T6", countryCode: "CA" },
+        customs: { contents: "documents" },
+      })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR", message: expect.stringContaining("USPS") });
+    await expect(
+      service.getRates("usps", { ...SAMPLE_RATE_REQUEST, serviceCode: "03" })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+    await expect(
+      service.getRates("usps", { ...SAMPLE_RATE_REQUEST, options: { signature: "signature_required" } })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR", context: { unsupported: ["signature"] } });
+    expect(stubHttp.getRequests()).toHaveLength(0);
+  });
+
+  it("registers alongside UPS for rate shopping", () => {
+    const both = new CarrierIntegrationService({
+      carriers: [
+        new UpsCarrier({ config: getUpsConfig(), http: stubHttp }),
+        new UspsCarrier({ config, http: stubHttp }),
+      ],
+    });
+    expect(both.getCarriersWithRates()).toEqual(["ups", "usps"]);
+  });
+});
+
+describe("USPS request builder", () => {
+  it("converts metric packages to pounds and inches", () => {
+    const [built] = buildUspsBaseRatesRequests(
+      {
+        ...SAMPLE_RATE_REQUEST,
+        packages: [{ weight: 1, weightUnit: "KGS", length: 25.4, width: 10, height: 5.08, dimensionUnit: "CM" }],
+      },
+      "PRIORITY_MAIL",
+      "COMMERCIAL"
+    );
+    expect(built).toMatchObject({ weight: 2.2, length: 10, width: 3.94, height: 2, priceType: "COMMERCIAL" });
+  });
+});